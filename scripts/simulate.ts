@@ -0,0 +1,256 @@
+/**
+ * Batch Simulator - Runs the world headless and writes a per-run report
+ * Usage: npm run simulate -- --seed 7 --days 30 --llm mock [--victory-day 0] [--out reports]
+ */
+
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { createKernelRuntime, tick, type KernelLlm, type World } from '../src/lib/kernel';
+import { createInitialSimState } from '../src/lib/world';
+import { createMockLlm } from '../src/lib/mockLlm';
+import { seedRandom, DEFAULT_WORLD_SEED } from '../src/lib/random';
+import { calculateWorldScore, END_CAUSE_LABELS, type Achievement, type EndCause, type RealtimeScore } from '../src/lib/scoring';
+import { isRobotFunctional, CRITTER_DEATH_CAUSE_LABELS, type CritterDeathCause } from '../src/lib/survival';
+import type { BuildingType } from '../src/lib/building';
+import { GAME_HOURS_PER_SECOND, type WeatherEvent } from '../src/lib/environment';
+
+// ========================================
+// Options
+// ========================================
+
+type LlmMode = 'mock' | 'none';
+
+interface SimulateOptions {
+    seed: number;
+    days: number;
+    llm: LlmMode;
+    victoryDay: number;
+    out: string;
+}
+
+// One kernel step in simulated seconds (a 10x frame in the browser is about 0.17s)
+const TICK_SECONDS = 0.1;
+
+function parseOptions(argv: string[]): SimulateOptions {
+    const { values } = parseArgs({
+        args: argv,
+        options: {
+            seed: { type: 'string', default: String(DEFAULT_WORLD_SEED) },
+            days: { type: 'string', default: '30' },
+            llm: { type: 'string', default: 'mock' },
+            'victory-day': { type: 'string', default: '0' },
+            out: { type: 'string', default: 'reports' },
+        },
+    });
+
+    const seed = Number(values.seed);
+    const days = Number(values.days);
+    if (!Number.isInteger(seed)) throw new Error(`--seed must be an integer (got ${values.seed})`);
+    if (!Number.isInteger(days) || days < 1) throw new Error(`--days must be a positive integer (got ${values.days})`);
+    const victoryDay = Number(values['victory-day']);
+    if (values.llm !== 'mock' && values.llm !== 'none') {
+        throw new Error(`--llm must be "mock" or "none" (got ${values.llm})`);
+    }
+    if (!Number.isInteger(victoryDay) || victoryDay < 0) {
+        throw new Error(`--victory-day must be a non-negative integer (got ${values['victory-day']})`);
+    }
+    return { seed, days, llm: values.llm, victoryDay, out: values.out };
+}
+
+// "none" leaves thinking to the kernel's activity rules
+function createLlm(mode: LlmMode): KernelLlm | undefined {
+    return mode === 'mock' ? createMockLlm() : undefined;
+}
+
+// ========================================
+// Report
+// ========================================
+
+interface PopulationSample {
+    day: number;
+    alive: number;
+    robotFunctional: boolean;
+}
+
+interface WeatherEventRecord {
+    type: WeatherEvent['type'];
+    name: string;
+    day: number;
+    survived: boolean;
+}
+
+interface SimulationReport {
+    seed: number;
+    days: number;
+    llm: LlmMode;
+    population: PopulationSample[];
+    births: { total: number; fromParents: number; fromOre: number };
+    deaths: { total: number; byCause: Partial<Record<CritterDeathCause, number>> };
+    score: RealtimeScore;
+    achievements: (Omit<Achievement, 'unlockedAt'> & { day: number })[];
+    buildings: { total: number; byType: Partial<Record<BuildingType, number>>; built: { type: BuildingType; name: string; day: number }[] };
+    weatherEvents: WeatherEventRecord[];
+    robot: { functional: boolean; battery: number; durability: number };
+    end: { cause: EndCause; day: number } | null; // null: still running after --days
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// ========================================
+// Run
+// ========================================
+
+function simulate(options: SimulateOptions): SimulationReport {
+    seedRandom(options.seed);
+    const world: World = {
+        ...createInitialSimState(),
+        runtime: createKernelRuntime({ llm: createLlm(options.llm), integrate: true, victoryDay: options.victoryDay }),
+    };
+
+    const report: SimulationReport = {
+        seed: options.seed,
+        days: options.days,
+        llm: options.llm,
+        population: [],
+        births: { total: 0, fromParents: 0, fromOre: 0 },
+        deaths: { total: 0, byCause: {} },
+        score: calculateWorldScore(world),
+        achievements: [],
+        buildings: { total: 0, byType: {}, built: [] },
+        weatherEvents: [],
+        robot: { functional: true, battery: 0, durability: 0 },
+        end: null,
+    };
+
+    // Births, deaths, buildings and catastrophes come straight off the event bus
+    const { events } = world.runtime;
+    events.on('birth', (_, event) => {
+        report.births.total += 1;
+        if (event.parentId) report.births.fromParents += 1;
+        else report.births.fromOre += 1;
+    });
+    events.on('death', (_, event) => {
+        report.deaths.total += 1;
+        report.deaths.byCause[event.cause] = (report.deaths.byCause[event.cause] ?? 0) + 1;
+    });
+    events.on('build', (state, { building }) => {
+        report.buildings.total += 1;
+        report.buildings.byType[building.type] = (report.buildings.byType[building.type] ?? 0) + 1;
+        report.buildings.built.push({ type: building.type, name: building.name, day: state.day });
+    });
+    events.on('catastrophe', (state, event) => {
+        if (event.phase === 'start') {
+            report.weatherEvents.push({ type: event.weatherEvent.type, name: event.weatherEvent.name, day: state.day, survived: false });
+        } else if (event.phase === 'end') {
+            const last = report.weatherEvents[report.weatherEvents.length - 1];
+            if (last) last.survived = true;
+        }
+    });
+
+    events.on('achievement', (state, { achievement }) => {
+        const { id, name, description, rarity } = achievement;
+        report.achievements.push({ id, name, description, rarity, day: state.day });
+    });
+
+    const sampleDay = () => {
+        const score = calculateWorldScore(world);
+        report.population.push({
+            day: world.day,
+            alive: score.stats.population,
+            robotFunctional: score.stats.robotFunctional,
+        });
+        console.log(`Day ${world.day}: ${score.stats.population} alive, ${score.stats.structureCount} buildings, score ${score.current.total} (${score.rank.current})`);
+    };
+
+    // Run to the end of Day N: stop before the tick that would roll the clock over to Day N+1
+    const reachesLastMidnight = () => world.day === options.days && world.time + TICK_SECONDS * GAME_HOURS_PER_SECOND >= 24;
+    let lastDay = world.day;
+    sampleDay();
+    while (!world.runEnd && !reachesLastMidnight()) {
+        tick(world, TICK_SECONDS);
+        if (world.day !== lastDay) {
+            lastDay = world.day;
+            sampleDay();
+        }
+    }
+
+    report.score = calculateWorldScore(world);
+    report.robot = {
+        functional: isRobotFunctional(world.robotStatus),
+        battery: round1(world.robotStatus.battery),
+        durability: round1(world.robotStatus.durability),
+    };
+    report.end = world.runEnd && { cause: world.runEnd.cause, day: world.runEnd.day };
+    return report;
+}
+
+// ========================================
+// Output
+// ========================================
+
+function toMarkdown(report: SimulationReport): string {
+    const { score } = report;
+    const lines = [
+        `# Simulation Report (seed ${report.seed}, ${report.days} days, llm: ${report.llm})`,
+        '',
+        '## Score',
+        '',
+        `- Total: **${score.current.total}** (rank ${score.rank.current})`,
+        `- Survival ${score.current.survival} / Development ${score.current.development} / Combat ${score.current.combat} / Knowledge ${score.current.knowledge}`,
+        `- Robot: ${report.robot.functional ? 'functional' : 'down'} (battery ${report.robot.battery}%, durability ${report.robot.durability}%)`,
+        `- End: ${report.end ? `${END_CAUSE_LABELS[report.end.cause]} (${report.end.cause}) on day ${report.end.day}` : 'still running'}`,
+        '',
+        '## Population',
+        '',
+        '| Day | Alive | Robot |',
+        '| --- | --- | --- |',
+        ...report.population.map(p => `| ${p.day} | ${p.alive} | ${p.robotFunctional ? 'ok' : 'down'} |`),
+        '',
+        `- Births: ${report.births.total} (${report.births.fromParents} from parents, ${report.births.fromOre} from ore)`,
+        `- Deaths: ${report.deaths.total}`,
+        ...Object.entries(report.deaths.byCause).map(([cause, count]) =>
+            `  - ${CRITTER_DEATH_CAUSE_LABELS[cause as CritterDeathCause]} (${cause}): ${count}`),
+        '',
+        '## Buildings',
+        '',
+        `- Built: ${report.buildings.total}`,
+        ...report.buildings.built.map(b => `  - Day ${b.day}: ${b.name} (${b.type})`),
+        '',
+        '## Weather Events',
+        '',
+        ...(report.weatherEvents.length > 0
+            ? report.weatherEvents.map(e => `- Day ${e.day}: ${e.name} (${e.type}) - ${e.survived ? 'survived' : 'ongoing at end'}`)
+            : ['- None']),
+        '',
+        '## Achievements',
+        '',
+        ...(report.achievements.length > 0
+            ? report.achievements.map(a => `- Day ${a.day}: ${a.name} [${a.rarity}] - ${a.description}`)
+            : ['- None']),
+        '',
+    ];
+    return lines.join('\n');
+}
+
+function main(): void {
+    const options = parseOptions(process.argv.slice(2));
+    const startedAt = Date.now();
+    const report = simulate(options);
+
+    mkdirSync(options.out, { recursive: true });
+    const baseName = join(options.out, `simulation-seed${options.seed}-${options.days}d`);
+    writeFileSync(`${baseName}.json`, JSON.stringify(report, null, 2));
+    writeFileSync(`${baseName}.md`, toMarkdown(report));
+
+    console.log(`\nFinished in ${((Date.now() - startedAt) / 1000).toFixed(1)}s: score ${report.score.current.total}, ${report.score.stats.population} alive`);
+    if (report.end) console.log(`Run ended on day ${report.end.day}: ${report.end.cause}`);
+    console.log(`Report written to ${baseName}.json and ${baseName}.md`);
+}
+
+try {
+    main();
+} catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+}
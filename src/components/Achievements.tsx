@@ -0,0 +1,153 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Trophy, Lock, X } from 'lucide-react';
+import clsx from 'clsx';
+import { useStore } from '../store';
+import { ACHIEVEMENTS, calculateRealtimeScore, getAchievementProgress, type Achievement } from '../lib/scoring';
+import { isRobotFunctional } from '../lib/survival';
+
+const RARITY_STYLES: Record<Achievement['rarity'], { label: string; badge: string; ring: string }> = {
+    common: { label: 'Common', badge: 'bg-gray-100 text-gray-600', ring: 'border-gray-200' },
+    uncommon: { label: 'Uncommon', badge: 'bg-green-100 text-green-700', ring: 'border-green-200' },
+    rare: { label: 'Rare', badge: 'bg-blue-100 text-blue-700', ring: 'border-blue-200' },
+    epic: { label: 'Epic', badge: 'bg-purple-100 text-purple-700', ring: 'border-purple-200' },
+    legendary: { label: 'Legendary', badge: 'bg-amber-100 text-amber-700', ring: 'border-amber-300' },
+};
+
+const TOAST_DURATION_MS = 5000;
+
+// Announces achievements as the simulation unlocks them
+export const AchievementToasts = () => {
+    const [toasts, setToasts] = useState<Achievement[]>([]);
+
+    useEffect(() => {
+        const timers: ReturnType<typeof setTimeout>[] = [];
+        const unsubscribe = useStore.subscribe((state, prev) => {
+            if (state.achievements === prev.achievements || state.achievements.length <= prev.achievements.length) return;
+            const known = new Set(prev.achievements.map(a => a.id));
+            const fresh = state.achievements.filter(a => !known.has(a.id));
+            setToasts(current => [...current, ...fresh]);
+            for (const achievement of fresh) {
+                timers.push(setTimeout(() => {
+                    setToasts(current => current.filter(a => a.id !== achievement.id));
+                }, TOAST_DURATION_MS));
+            }
+        });
+        return () => {
+            unsubscribe();
+            timers.forEach(clearTimeout);
+        };
+    }, []);
+
+    if (toasts.length === 0) return null;
+
+    return (
+        <div className="absolute top-20 left-1/2 -translate-x-1/2 z-50 flex flex-col items-center gap-2 pointer-events-none">
+            {toasts.map(achievement => (
+                <div
+                    key={achievement.id}
+                    className={clsx(
+                        "flex items-center gap-3 px-4 py-2.5 bg-white/95 backdrop-blur-lg rounded-2xl shadow-xl border-2 animate-fade-in-up",
+                        RARITY_STYLES[achievement.rarity].ring
+                    )}
+                >
+                    <Trophy size={20} className="text-amber-500 shrink-0" />
+                    <div className="flex flex-col">
+                        <span className="text-[9px] font-bold text-gray-400 uppercase tracking-widest">実績解除</span>
+                        <span className="text-sm font-bold text-gray-800">{achievement.name}</span>
+                        <span className="text-[10px] text-gray-500">{achievement.description}</span>
+                    </div>
+                    <span className={clsx("text-[9px] font-bold px-1.5 py-0.5 rounded uppercase", RARITY_STYLES[achievement.rarity].badge)}>
+                        {RARITY_STYLES[achievement.rarity].label}
+                    </span>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+// Every achievement, unlocked first, with progress toward the locked ones
+export const AchievementsPanel = ({ onClose }: { onClose: () => void }) => {
+    const achievements = useStore(s => s.achievements);
+    const day = useStore(s => s.day);
+    const critterRegistry = useStore(s => s.critterRegistry);
+    const robotMemories = useStore(s => s.robotMemories);
+    const buildings = useStore(s => s.buildings);
+    const robotStatus = useStore(s => s.robotStatus);
+    const combatStats = useStore(s => s.combatStats);
+
+    const score = useMemo(
+        () => calculateRealtimeScore(day, critterRegistry, robotMemories, buildings, isRobotFunctional(robotStatus), combatStats),
+        [day, critterRegistry, robotMemories, buildings, robotStatus, combatStats]
+    );
+
+    const entries = useMemo(() => {
+        const unlocked = new Map(achievements.map(a => [a.id, a]));
+        return Object.values(ACHIEVEMENTS)
+            .map(achievement => ({
+                achievement,
+                unlocked: unlocked.get(achievement.id),
+                progress: getAchievementProgress(achievement.id, score, buildings),
+            }))
+            .sort((a, b) => Number(!!b.unlocked) - Number(!!a.unlocked));
+    }, [achievements, score, buildings]);
+
+    return (
+        <div className="pointer-events-auto absolute inset-0 z-[60] flex items-center justify-center bg-black/20 backdrop-blur-sm">
+            <div className="bg-white p-6 rounded-2xl shadow-xl w-full max-w-md mx-4 animate-fade-in-up max-h-[90vh] flex flex-col">
+                <h2 className="text-xl font-bold mb-1 text-gray-800 flex justify-between items-center">
+                    <span className="flex items-center gap-2">
+                        <Trophy size={20} className="text-amber-500" />
+                        実績
+                    </span>
+                    <button onClick={onClose}><X size={20} className="text-gray-500 hover:text-gray-800" /></button>
+                </h2>
+                <p className="text-xs text-gray-400 mb-4">
+                    {achievements.length} / {Object.keys(ACHIEVEMENTS).length} 解除
+                </p>
+
+                <div className="overflow-y-auto space-y-2 scrollbar-thin scrollbar-thumb-gray-200">
+                    {entries.map(({ achievement, unlocked, progress }) => {
+                        const style = RARITY_STYLES[achievement.rarity];
+                        const ratio = Math.min(1, progress.current / progress.target);
+                        return (
+                            <div
+                                key={achievement.id}
+                                className={clsx(
+                                    "px-3 py-2.5 rounded-xl border",
+                                    unlocked ? clsx("bg-white", style.ring) : "bg-gray-50 border-gray-100"
+                                )}
+                            >
+                                <div className="flex items-center gap-2">
+                                    {unlocked
+                                        ? <Trophy size={14} className="text-amber-500 shrink-0" />
+                                        : <Lock size={14} className="text-gray-300 shrink-0" />}
+                                    <span className={clsx("text-sm font-bold", unlocked ? "text-gray-800" : "text-gray-400")}>
+                                        {achievement.name}
+                                    </span>
+                                    <span className={clsx("ml-auto text-[9px] font-bold px-1.5 py-0.5 rounded uppercase", style.badge)}>
+                                        {style.label}
+                                    </span>
+                                </div>
+                                <p className="text-[11px] text-gray-500 mt-0.5 ml-[22px]">{achievement.description}</p>
+                                {unlocked ? (
+                                    <p className="text-[10px] text-gray-400 mt-1 ml-[22px] font-mono">
+                                        {new Date(unlocked.unlockedAt).toLocaleString()}
+                                    </p>
+                                ) : (
+                                    <div className="flex items-center gap-2 mt-1.5 ml-[22px]">
+                                        <div className="flex-1 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                                            <div className="h-full bg-amber-400 transition-all" style={{ width: `${ratio * 100}%` }} />
+                                        </div>
+                                        <span className="text-[10px] font-mono font-bold text-gray-500 whitespace-nowrap">
+                                            {Math.min(progress.current, progress.target)}/{progress.target}{progress.unit}
+                                        </span>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+};
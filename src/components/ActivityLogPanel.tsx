@@ -0,0 +1,249 @@
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { ScrollText, ChevronLeft, ChevronRight, Search, X } from 'lucide-react';
+import clsx from 'clsx';
+import { useStore, type ActivityLogEntry } from '../store';
+import { ACTIVITY_ARCHIVE_LIMIT, loadActivityArchive } from '../lib/logArchive';
+
+type Category = ActivityLogEntry['category'];
+type Importance = ActivityLogEntry['importance'];
+
+const CATEGORIES: { key: Category; label: string; icon: string }[] = [
+    { key: 'thought', label: '思考', icon: '💭' },
+    { key: 'dialogue', label: '会話', icon: '💬' },
+    { key: 'event', label: '出来事', icon: '📌' },
+    { key: 'combat', label: '戦闘', icon: '⚔️' },
+    { key: 'discovery', label: '発見', icon: '🔍' },
+    { key: 'death', label: '死亡', icon: '💀' },
+    { key: 'build', label: '建設', icon: '🏠' },
+    { key: 'warning', label: '警告', icon: '⚠️' },
+];
+
+const IMPORTANCE_LEVELS: Importance[] = ['low', 'normal', 'high', 'critical'];
+
+const IMPORTANCE_STYLES: Record<Importance, string> = {
+    low: 'border-gray-100',
+    normal: 'border-blue-100',
+    high: 'border-amber-200',
+    critical: 'border-red-300 bg-red-50/60',
+};
+
+const ROBOT_NAME = 'Unit-01';
+const ROBOT_COLOR = '#FFA500';
+
+// Rows have a fixed height so only the visible slice needs rendering
+const ROW_HEIGHT = 56;
+const VIEWPORT_HEIGHT = 360;
+const OVERSCAN = 6;
+
+// Unified log of thoughts, dialogue and world events (archived history included)
+export const ActivityLogPanel = () => {
+    const activityLog = useStore(s => s.activityLog);
+    const critterRegistry = useStore(s => s.critterRegistry);
+    const runStartedAt = useStore(s => s.runStartedAt);
+
+    const [isOpen, setIsOpen] = useState(false);
+    const [archived, setArchived] = useState<ActivityLogEntry[]>([]);
+    const [hiddenCategories, setHiddenCategories] = useState<Set<Category>>(new Set());
+    const [minImportance, setMinImportance] = useState<Importance>('low');
+    const [query, setQuery] = useState('');
+    const [focusEntity, setFocusEntity] = useState<string | null>(null);
+    const [scrollTop, setScrollTop] = useState(0);
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const stickToBottom = useRef(true);
+
+    // History beyond the in-memory window comes from the archive (reloaded for a new world);
+    // entries evicted while the panel is open are kept as they leave the window
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+        const evictedSinceOpen: ActivityLogEntry[] = [];
+        loadActivityArchive()
+            .then(entries => { if (!cancelled) setArchived([...entries, ...evictedSinceOpen].slice(-ACTIVITY_ARCHIVE_LIMIT)); })
+            .catch(error => console.warn('Failed to load the activity log archive:', error));
+        const unsubscribe = useStore.subscribe((state, prev) => {
+            if (state.activityLog === prev.activityLog || state.runStartedAt !== prev.runStartedAt) return;
+            const kept = new Set(state.activityLog.map(entry => entry.id));
+            const evicted = prev.activityLog.filter(entry => !kept.has(entry.id));
+            if (evicted.length === 0) return;
+            evictedSinceOpen.push(...evicted);
+            setArchived(current => [...current, ...evicted].slice(-ACTIVITY_ARCHIVE_LIMIT));
+        });
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, [isOpen, runStartedAt]);
+
+    const entities = useMemo(() => {
+        const colors: Record<string, { name: string; color: string }> = { robot: { name: ROBOT_NAME, color: ROBOT_COLOR } };
+        for (const c of critterRegistry) colors[c.id] = { name: c.name, color: c.color };
+        return colors;
+    }, [critterRegistry]);
+
+    const entries = useMemo(() => {
+        const byId = new Map<string, ActivityLogEntry>();
+        for (const entry of archived) byId.set(entry.id, entry);
+        for (const entry of activityLog) byId.set(entry.id, entry);
+        const minLevel = IMPORTANCE_LEVELS.indexOf(minImportance);
+        const needle = query.trim().toLowerCase();
+
+        return [...byId.values()]
+            .filter(entry =>
+                !hiddenCategories.has(entry.category) &&
+                IMPORTANCE_LEVELS.indexOf(entry.importance) >= minLevel &&
+                (!focusEntity || entry.entityId === focusEntity || !!entry.relatedEntities?.includes(focusEntity)) &&
+                (!needle || `${entry.title ?? ''} ${entry.content}`.toLowerCase().includes(needle))
+            )
+            .sort((a, b) => a.timestamp - b.timestamp);
+    }, [archived, activityLog, hiddenCategories, minImportance, query, focusEntity]);
+
+    // Follow new entries while scrolled to the bottom
+    useLayoutEffect(() => {
+        const el = scrollRef.current;
+        if (el && stickToBottom.current) {
+            el.scrollTop = el.scrollHeight;
+            setScrollTop(el.scrollTop);
+        }
+    }, [entries, isOpen]);
+
+    const toggleCategory = (category: Category) => {
+        setHiddenCategories(current => {
+            const next = new Set(current);
+            if (next.has(category)) next.delete(category);
+            else next.add(category);
+            return next;
+        });
+    };
+
+    const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+    const last = Math.min(entries.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+    const visible = entries.slice(first, last);
+
+    return (
+        <div className="absolute top-48 left-4 pointer-events-auto z-40">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="flex items-center gap-1.5 px-3 py-2 bg-white/85 backdrop-blur-lg rounded-xl shadow-lg border border-white/40 text-xs font-bold text-gray-600 hover:bg-white/95 transition-colors"
+            >
+                <ScrollText size={14} />
+                <span>アクティビティログ</span>
+                {isOpen ? <ChevronLeft size={12} /> : <ChevronRight size={12} />}
+                {activityLog.length > 0 && (
+                    <span className="ml-1 min-w-5 h-5 px-1 bg-blue-500 text-white rounded-full flex items-center justify-center text-[9px]">
+                        {activityLog.length}
+                    </span>
+                )}
+            </button>
+
+            {isOpen && (
+                <div className="mt-2 w-[360px] bg-white/90 backdrop-blur-xl rounded-2xl shadow-xl border border-white/40 overflow-hidden animate-fade-in-up">
+                    {/* Filters */}
+                    <div className="px-3 py-2 bg-gradient-to-r from-blue-50 to-purple-50 border-b border-gray-100 space-y-1.5">
+                        <div className="flex flex-wrap gap-1">
+                            {CATEGORIES.map(category => (
+                                <button
+                                    key={category.key}
+                                    onClick={() => toggleCategory(category.key)}
+                                    className={clsx(
+                                        "px-1.5 py-0.5 rounded-md text-[10px] font-bold transition-colors",
+                                        hiddenCategories.has(category.key) ? "bg-white/60 text-gray-300" : "bg-white text-gray-700 shadow-sm"
+                                    )}
+                                >
+                                    {category.icon} {category.label}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="flex items-center gap-1">
+                            {IMPORTANCE_LEVELS.map(level => (
+                                <button
+                                    key={level}
+                                    onClick={() => setMinImportance(level)}
+                                    className={clsx(
+                                        "px-1.5 py-0.5 rounded text-[9px] font-bold uppercase tracking-widest transition-colors",
+                                        minImportance === level ? "bg-blue-500 text-white" : "text-gray-400 hover:bg-white"
+                                    )}
+                                >
+                                    {level}+
+                                </button>
+                            ))}
+                        </div>
+                        <div className="flex items-center gap-1.5">
+                            <div className="flex-1 flex items-center gap-1 px-2 py-1 bg-white rounded-lg border border-gray-200">
+                                <Search size={11} className="text-gray-400 shrink-0" />
+                                <input
+                                    value={query}
+                                    onChange={(e) => setQuery(e.target.value)}
+                                    placeholder="検索"
+                                    className="w-full text-[11px] outline-none bg-transparent"
+                                />
+                            </div>
+                            <select
+                                value={focusEntity ?? ''}
+                                onChange={(e) => setFocusEntity(e.target.value || null)}
+                                className="text-[11px] px-1.5 py-1 bg-white rounded-lg border border-gray-200 outline-none max-w-[120px]"
+                                title="Follow Entity"
+                            >
+                                <option value="">全員</option>
+                                {Object.entries(entities).map(([id, { name }]) => (
+                                    <option key={id} value={id}>{name}</option>
+                                ))}
+                            </select>
+                        </div>
+                        {focusEntity && (
+                            <div className="flex items-center gap-1 text-[10px] text-gray-500">
+                                <span>追跡中: <b>{entities[focusEntity]?.name ?? focusEntity}</b></span>
+                                <button onClick={() => setFocusEntity(null)}><X size={10} className="text-gray-400 hover:text-gray-700" /></button>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Entries */}
+                    <div
+                        ref={scrollRef}
+                        onScroll={(e) => {
+                            const el = e.currentTarget;
+                            setScrollTop(el.scrollTop);
+                            stickToBottom.current = el.scrollHeight - el.scrollTop - el.clientHeight < ROW_HEIGHT;
+                        }}
+                        className="overflow-y-auto px-2 scrollbar-thin scrollbar-thumb-gray-200"
+                        style={{ height: VIEWPORT_HEIGHT }}
+                    >
+                        {entries.length === 0 ? (
+                            <div className="text-center text-gray-400 text-xs py-4">該当するログがありません</div>
+                        ) : (
+                            <div style={{ height: entries.length * ROW_HEIGHT, position: 'relative' }}>
+                                {visible.map((entry, i) => {
+                                    const entity = entities[entry.entityId];
+                                    return (
+                                        <div
+                                            key={entry.id}
+                                            className="absolute left-0 right-0 py-0.5"
+                                            style={{ top: (first + i) * ROW_HEIGHT, height: ROW_HEIGHT }}
+                                        >
+                                            <div className={clsx("h-full px-2.5 py-1.5 rounded-lg text-xs border bg-white", IMPORTANCE_STYLES[entry.importance])}>
+                                                <div className="flex items-center gap-1.5">
+                                                    <span className="shrink-0">{entry.icon ?? CATEGORIES.find(c => c.key === entry.category)?.icon}</span>
+                                                    <button
+                                                        onClick={() => setFocusEntity(entry.entityId)}
+                                                        className="flex items-center gap-1 text-[9px] font-bold text-gray-600 hover:text-blue-600"
+                                                        title="Follow Entity"
+                                                    >
+                                                        {entity && <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: entity.color }} />}
+                                                        {entity?.name ?? entry.entityId}
+                                                    </button>
+                                                    <span className="text-[9px] font-mono text-gray-400">{entry.gameTime}</span>
+                                                    {entry.title && <span className="text-[9px] font-bold text-blue-500 uppercase truncate">{entry.title}</span>}
+                                                </div>
+                                                <p className="text-gray-700 truncate mt-0.5" title={entry.content}>{entry.content}</p>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
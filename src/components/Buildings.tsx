@@ -0,0 +1,249 @@
+import { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { RigidBody, CuboidCollider } from '@react-three/rapier';
+import { useStore } from '../store';
+import type { Building, BuildingType } from '../lib/building';
+
+// Half-extents of each building's footprint (kept inside getBuildStandoff so workers can reach it)
+const FOOTPRINTS: Record<BuildingType, [number, number, number]> = {
+    tent: [1.2, 0.8, 1.2],
+    storage: [1.0, 0.7, 1.0],
+    charging_station: [0.6, 1.2, 0.6],
+    wooden_shelter: [2.2, 1.2, 2.2],
+    workshop: [1.8, 1.0, 1.8],
+};
+
+const WORN_COLOR = new THREE.Color('#4a4a4a');
+
+// Darken and desaturate a base colour as durability drops
+function useWornColor(base: string, durability: number): string {
+    return useMemo(() => {
+        const wear = 1 - Math.max(0, Math.min(100, durability)) / 100;
+        return '#' + new THREE.Color(base).lerp(WORN_COLOR, wear * 0.7).getHexString();
+    }, [base, durability]);
+}
+
+const Tent = ({ durability }: { durability: number }) => {
+    const fabric = useWornColor('#d9a066', durability);
+    return (
+        <group>
+            <mesh position={[0, 0.8, 0]} rotation={[0, Math.PI / 4, 0]} castShadow receiveShadow>
+                <coneGeometry args={[1.6, 1.6, 4]} />
+                <meshStandardMaterial color={fabric} roughness={0.9} flatShading />
+            </mesh>
+            {/* Entrance */}
+            <mesh position={[0, 0.45, 1.14]}>
+                <planeGeometry args={[0.6, 0.9]} />
+                <meshStandardMaterial color="#2b1d0e" side={THREE.DoubleSide} />
+            </mesh>
+        </group>
+    );
+};
+
+const Storage = ({ durability }: { durability: number }) => {
+    const wood = useWornColor('#8b5a2b', durability);
+    return (
+        <group>
+            <mesh position={[0, 0.7, 0]} castShadow receiveShadow>
+                <boxGeometry args={[2.0, 1.4, 2.0]} />
+                <meshStandardMaterial color={wood} roughness={0.8} />
+            </mesh>
+            {/* Metal bands */}
+            {[0.3, 1.1].map(y => (
+                <mesh key={y} position={[0, y, 0]}>
+                    <boxGeometry args={[2.04, 0.08, 2.04]} />
+                    <meshStandardMaterial color="#6b6b6b" metalness={0.8} roughness={0.3} />
+                </mesh>
+            ))}
+        </group>
+    );
+};
+
+const ChargingStation = ({ durability, built }: { durability: number; built: boolean }) => {
+    const ringRef = useRef<THREE.Mesh>(null!);
+    const metal = useWornColor('#9aa5b1', durability);
+
+    useFrame((state) => {
+        if (ringRef.current && built) {
+            ringRef.current.rotation.z = state.clock.getElapsedTime() * 2;
+        }
+    });
+
+    return (
+        <group>
+            <mesh position={[0, 1.0, 0]} castShadow>
+                <cylinderGeometry args={[0.35, 0.5, 2.0, 8]} />
+                <meshStandardMaterial color={metal} metalness={0.7} roughness={0.3} />
+            </mesh>
+            <mesh ref={ringRef} position={[0, 2.2, 0]}>
+                <torusGeometry args={[0.45, 0.06, 8, 24]} />
+                <meshStandardMaterial
+                    color="#4cc9f0"
+                    emissive="#4cc9f0"
+                    emissiveIntensity={built ? 1.2 * (durability / 100) : 0}
+                    toneMapped={false}
+                />
+            </mesh>
+            {built && <pointLight position={[0, 2.2, 0]} color="#4cc9f0" intensity={0.8 * (durability / 100)} distance={6} />}
+        </group>
+    );
+};
+
+const WoodenShelter = ({ durability }: { durability: number }) => {
+    const walls = useWornColor('#a0522d', durability);
+    const roof = useWornColor('#6b3e26', durability);
+    return (
+        <group>
+            <mesh position={[0, 0.9, 0]} castShadow receiveShadow>
+                <boxGeometry args={[4.2, 1.8, 4.2]} />
+                <meshStandardMaterial color={walls} roughness={0.85} />
+            </mesh>
+            {/* Gable roof */}
+            <mesh position={[0, 2.4, 0]} rotation={[0, 0, Math.PI / 2]} castShadow>
+                <cylinderGeometry args={[1.4, 1.4, 4.6, 3]} />
+                <meshStandardMaterial color={roof} roughness={0.9} flatShading />
+            </mesh>
+            {/* Door */}
+            <mesh position={[0, 0.6, 2.11]}>
+                <planeGeometry args={[0.9, 1.2]} />
+                <meshStandardMaterial color="#3b2414" side={THREE.DoubleSide} />
+            </mesh>
+        </group>
+    );
+};
+
+const Workshop = ({ durability }: { durability: number }) => {
+    const base = useWornColor('#7a7a7a', durability);
+    const roof = useWornColor('#3d5a80', durability);
+    return (
+        <group>
+            <mesh position={[0, 0.8, 0]} castShadow receiveShadow>
+                <boxGeometry args={[3.4, 1.6, 3.4]} />
+                <meshStandardMaterial color={base} metalness={0.3} roughness={0.7} />
+            </mesh>
+            {/* Slanted roof */}
+            <mesh position={[0, 1.8, 0]} rotation={[0.2, 0, 0]} castShadow>
+                <boxGeometry args={[3.8, 0.15, 3.8]} />
+                <meshStandardMaterial color={roof} metalness={0.5} roughness={0.4} />
+            </mesh>
+            {/* Chimney */}
+            <mesh position={[1.1, 2.3, -1.0]} castShadow>
+                <cylinderGeometry args={[0.18, 0.18, 1.0, 8]} />
+                <meshStandardMaterial color="#333" />
+            </mesh>
+        </group>
+    );
+};
+
+const BuildingModel = ({ building }: { building: Building }) => {
+    switch (building.type) {
+        case 'tent': return <Tent durability={building.durability} />;
+        case 'storage': return <Storage durability={building.durability} />;
+        case 'charging_station': return <ChargingStation durability={building.durability} built={building.built} />;
+        case 'wooden_shelter': return <WoodenShelter durability={building.durability} />;
+        case 'workshop': return <Workshop durability={building.durability} />;
+    }
+};
+
+// Bamboo-style scaffold poles around the footprint while under construction
+const Scaffolding = ({ size, progress }: { size: [number, number, number]; progress: number }) => {
+    const [hx, hy, hz] = size;
+    const height = hy * 2 + 0.4;
+    const corners: [number, number][] = [[-hx, -hz], [hx, -hz], [-hx, hz], [hx, hz]];
+    return (
+        <group>
+            {corners.map(([x, z], i) => (
+                <mesh key={i} position={[x, height / 2, z]}>
+                    <cylinderGeometry args={[0.04, 0.04, height, 6]} />
+                    <meshStandardMaterial color="#c8a96e" />
+                </mesh>
+            ))}
+            {/* Working platform follows progress */}
+            <mesh position={[0, Math.max(0.1, height * progress), 0]}>
+                <boxGeometry args={[hx * 2 + 0.2, 0.05, hz * 2 + 0.2]} />
+                <meshStandardMaterial color="#c8a96e" transparent opacity={0.6} />
+            </mesh>
+        </group>
+    );
+};
+
+// Cracks appear once durability drops below 50
+const WearMarks = ({ size, durability }: { size: [number, number, number]; durability: number }) => {
+    if (durability >= 50) return null;
+    const [hx, hy, hz] = size;
+    const count = durability < 25 ? 4 : 2;
+    return (
+        <group>
+            {Array.from({ length: count }, (_, i) => (
+                <mesh
+                    key={i}
+                    position={[(i % 2 === 0 ? -1 : 1) * hx * 0.5, hy * (0.6 + (i % 3) * 0.3), hz + 0.02]}
+                    rotation={[0, 0, 0.6 * (i % 2 === 0 ? 1 : -1)]}
+                >
+                    <planeGeometry args={[0.05, 0.5]} />
+                    <meshBasicMaterial color="#111" />
+                </mesh>
+            ))}
+        </group>
+    );
+};
+
+const LevelIndicator = ({ level, height }: { level: number; height: number }) => (
+    <group position={[0, height + 0.6, 0]}>
+        {Array.from({ length: level }, (_, i) => (
+            <mesh key={i} position={[(i - (level - 1) / 2) * 0.3, 0, 0]}>
+                <octahedronGeometry args={[0.1, 0]} />
+                <meshStandardMaterial color="#ffd166" emissive="#ffd166" emissiveIntensity={0.8} toneMapped={false} />
+            </mesh>
+        ))}
+    </group>
+);
+
+const RadiusRing = ({ radius, built }: { radius: number; built: boolean }) => (
+    <mesh position={[0, 0.05, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+        <ringGeometry args={[radius - 0.08, radius, 48]} />
+        <meshBasicMaterial color={built ? '#4cc9f0' : '#ffd166'} transparent opacity={0.5} side={THREE.DoubleSide} />
+    </mesh>
+);
+
+const BuildingInstance = ({ building, showRadius }: { building: Building; showRadius: boolean }) => {
+    const size = FOOTPRINTS[building.type];
+    const progress = building.built ? 1 : building.constructionProgress;
+    // Heavily damaged buildings lean a little
+    const lean = building.durability < 25 ? 0.06 : 0;
+
+    return (
+        <RigidBody
+            type="fixed"
+            colliders={false}
+            position={[building.position.x, building.position.y, building.position.z]}
+            userData={{ type: 'building', name: building.name, id: building.id }}
+        >
+            <CuboidCollider args={size} position={[0, size[1], 0]} />
+
+            {/* Model rises from the ground as construction progresses */}
+            <group scale={[1, Math.max(0.05, progress), 1]} rotation={[0, 0, lean]}>
+                <BuildingModel building={building} />
+                <WearMarks size={size} durability={building.durability} />
+            </group>
+
+            {!building.built && <Scaffolding size={size} progress={progress} />}
+            {building.built && <LevelIndicator level={building.level} height={size[1] * 2} />}
+            {showRadius && <RadiusRing radius={building.radius} built={building.built} />}
+        </RigidBody>
+    );
+};
+
+export const Buildings = () => {
+    const buildings = useStore(s => s.buildings);
+    const showRadius = useStore(s => s.showBuildingRadius);
+
+    return (
+        <>
+            {buildings.map(b => (
+                <BuildingInstance key={b.id} building={b} showRadius={showRadius} />
+            ))}
+        </>
+    );
+};
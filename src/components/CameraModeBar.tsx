@@ -0,0 +1,75 @@
+import { useEffect } from 'react';
+import { Rotate3d, Crosshair, Eye, Clapperboard, type LucideIcon } from 'lucide-react';
+import clsx from 'clsx';
+import { useStore } from '../store';
+import { CAMERA_MODES, type CameraMode } from '../lib/cameraDirector';
+
+const MODE_ICONS: Record<CameraMode, LucideIcon> = {
+    orbit: Rotate3d,
+    follow: Crosshair,
+    first_person: Eye,
+    director: Clapperboard,
+};
+
+function isTyping(target: EventTarget | null): boolean {
+    return target instanceof HTMLElement &&
+        (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
+// Camera mode switcher (bottom centre); keys 1-4 pick a mode and V cycles through them
+export const CameraModeBar = () => {
+    const cameraMode = useStore(s => s.cameraMode);
+    const setCameraMode = useStore(s => s.setCameraMode);
+    const cameraFollowId = useStore(s => s.cameraFollowId);
+    const directorShotLabel = useStore(s => s.directorShotLabel);
+    const followName = useStore(s => s.cameraFollowId === 'robot'
+        ? 'Unit-01'
+        : s.critterRegistry.find(c => c.id === s.cameraFollowId)?.name ?? s.cameraFollowId);
+
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.ctrlKey || e.metaKey || e.altKey || isTyping(e.target)) return;
+            const byKey = CAMERA_MODES.find(m => m.key === e.key);
+            if (byKey) {
+                setCameraMode(byKey.mode);
+            } else if (e.key === 'v' || e.key === 'V') {
+                const index = CAMERA_MODES.findIndex(m => m.mode === useStore.getState().cameraMode);
+                setCameraMode(CAMERA_MODES[(index + 1) % CAMERA_MODES.length].mode);
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [setCameraMode]);
+
+    const caption = cameraMode === 'director' ? directorShotLabel
+        : cameraMode === 'follow' && cameraFollowId ? `${followName}を追従中`
+        : null;
+
+    return (
+        <div className="absolute bottom-6 left-1/2 -translate-x-1/2 pointer-events-auto z-40 flex flex-col items-center gap-1.5">
+            {caption && (
+                <div className="px-3 py-1 bg-black/60 text-white rounded-full text-[11px] font-bold backdrop-blur-md animate-fade-in-up">
+                    {cameraMode === 'director' && '🎬 '}{caption}
+                </div>
+            )}
+            <div className="flex items-center gap-1 p-1 bg-white/85 backdrop-blur-lg rounded-full shadow-lg border border-white/40">
+                {CAMERA_MODES.map(({ mode, label, key }) => {
+                    const Icon = MODE_ICONS[mode];
+                    return (
+                        <button
+                            key={mode}
+                            onClick={() => setCameraMode(mode)}
+                            className={clsx(
+                                "p-2 rounded-full transition-colors",
+                                cameraMode === mode ? "bg-gray-900 text-white" : "text-gray-500 hover:bg-gray-100"
+                            )}
+                            title={`${label} (${key})`}
+                        >
+                            <Icon size={16} />
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,147 @@
+import { useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import { Vector3 } from "three";
+import { OrbitControls } from "@react-three/drei";
+import type { OrbitControls as OrbitControlsImpl } from "three-stdlib";
+import { useStore } from "../store";
+import { getAnimalState, getAnimalTarget, getBodyPosition, getMotion } from "../simulation";
+import { WILD_ANIMAL_DEFS, type WildAnimalSpawn } from "../lib/wildAnimals";
+import { collectShots, createDirectorState, directShot, SHOT_FRAMING, type DirectorShot } from "../lib/cameraDirector";
+
+const ROBOT_NAME = 'Unit-01';
+const ROBOT_HEAD_HEIGHT = 2; // above the body centre (the robot is drawn at 2x)
+const DIRECTOR_INTERVAL = 0.5; // seconds between shot evaluations
+
+function nameOf(id: string, wildAnimals: WildAnimalSpawn[]): string {
+    if (id === 'robot') return ROBOT_NAME;
+    const animal = wildAnimals.find(a => a.id === id);
+    return animal ? WILD_ANIMAL_DEFS[animal.species].name : id;
+}
+
+// Centre of the shot's subjects that still have a body
+function shotCentre(shot: DirectorShot): Vector3 | null {
+    const bodies = shot.subjects.map(getBodyPosition).filter(body => body !== null);
+    if (bodies.length > 0) {
+        const centre = new Vector3();
+        for (const body of bodies) centre.add(new Vector3(body.x, body.y, body.z));
+        return centre.divideScalar(bodies.length);
+    }
+    return shot.position ? new Vector3(shot.position.x, 1, shot.position.z) : null;
+}
+
+// OrbitControls plus the camera modes: follow, robot view, auto-director and fly-to
+export const CameraRig = () => {
+    const controlsRef = useRef<OrbitControlsImpl>(null!);
+    const cameraMode = useStore(s => s.cameraMode);
+    const director = useRef(createDirectorState());
+    const lastDirected = useRef(-Infinity);
+    const heading = useRef(new Vector3(0, 0, -1));
+
+    useFrame(({ clock }) => {
+        const controls = controlsRef.current;
+        if (!controls) return;
+        const store = useStore.getState();
+
+        if (store.cameraMode === 'follow' && store.cameraFollowId) {
+            const body = getBodyPosition(store.cameraFollowId);
+            if (!body) {
+                // The entity is gone (died)
+                store.setCameraFollow(null);
+                return;
+            }
+            // Drag target and camera together so the user's orbit angle is kept
+            const shift = new Vector3(body.x, body.y, body.z).sub(controls.target).multiplyScalar(0.1);
+            controls.target.add(shift);
+            controls.object.position.add(shift);
+            controls.update();
+            return;
+        }
+
+        if (store.cameraMode === 'first_person') {
+            const body = getBodyPosition('robot');
+            if (!body) return;
+            // Face where the robot is going; keep the last heading while it stands still
+            const motion = getMotion('robot');
+            if (Math.hypot(motion.x, motion.z) > 0.05) {
+                heading.current.lerp(new Vector3(motion.x, 0, motion.z).normalize(), 0.05).normalize();
+            }
+            const dir = heading.current;
+            const head = new Vector3(body.x, body.y + ROBOT_HEAD_HEIGHT, body.z);
+            // Over the right shoulder, looking ahead
+            const eye = head.clone().addScaledVector(dir, -3).add(new Vector3(-dir.z * 0.8, 0.8, dir.x * 0.8));
+            const look = head.clone().addScaledVector(dir, 8);
+            controls.object.position.lerp(eye, 0.15);
+            controls.target.lerp(look, 0.15);
+            controls.update();
+            return;
+        }
+
+        if (store.cameraMode === 'director') {
+            const now = clock.elapsedTime;
+            if (now - lastDirected.current > DIRECTOR_INTERVAL) {
+                lastDirected.current = now;
+                const shots = collectShots({
+                    gameMinutes: store.gameMinutes,
+                    dialogues: Object.values(store.activeDialogues),
+                    fights: store.wildAnimals
+                        .filter(a => WILD_ANIMAL_DEFS[a.species].aggressive)
+                        .map(a => ({ id: a.id, state: getAnimalState(a.id) }))
+                        .filter(a => a.state === 'chase' || a.state === 'attack')
+                        .map(a => ({ attackerId: a.id, targetId: getAnimalTarget(a.id), attacking: a.state === 'attack' })),
+                    timeline: store.timeline,
+                    catastrophe: store.weatherEventPhase === 'active' && store.weatherEvent?.type !== 'calm'
+                        ? store.weatherEvent?.name ?? null
+                        : null,
+                    nameOf: id => store.critterRegistry.find(c => c.id === id)?.name ?? nameOf(id, store.wildAnimals),
+                });
+                const shot = directShot(director.current, shots, now);
+                if (shot && shot.label !== store.directorShotLabel) store.setDirectorShotLabel(shot.label);
+            }
+
+            const shot = director.current.current;
+            const centre = shot && shotCentre(shot);
+            if (!shot || !centre) return;
+            // Drift slowly around the subject
+            const { height, distance } = SHOT_FRAMING[shot.kind];
+            const angle = now * 0.05;
+            const eye = centre.clone().add(new Vector3(Math.sin(angle) * distance, height, Math.cos(angle) * distance));
+            controls.target.lerp(centre, 0.04);
+            controls.object.position.lerp(eye, 0.04);
+            controls.update();
+            return;
+        }
+
+        // Fly-to-target animation
+        const target = store.cameraTarget;
+        if (!target) return;
+
+        const currentTarget = controls.target;
+        const dest = new Vector3(target.x, target.y, target.z);
+        currentTarget.lerp(dest, 0.05);
+
+        // Also move camera position to keep a nice offset
+        const cameraOffset = new Vector3(0, 8, 12);
+        const desiredCamPos = dest.clone().add(cameraOffset);
+        controls.object.position.lerp(desiredCamPos, 0.05);
+
+        controls.update();
+
+        // Check if close enough to clear target
+        if (currentTarget.distanceTo(dest) < 0.5) {
+            store.setCameraTarget(null);
+        }
+    });
+
+    return (
+        <OrbitControls
+            ref={controlsRef}
+            makeDefault
+            // The robot view and the director drive the camera themselves
+            enabled={cameraMode === 'orbit' || cameraMode === 'follow'}
+            minPolarAngle={0.1}
+            maxPolarAngle={Math.PI / 2 - 0.05}
+            minDistance={3}
+            maxDistance={80}
+        />
+    );
+};
@@ -0,0 +1,347 @@
+import { useMemo, type ReactNode } from 'react';
+import { X, Crosshair } from 'lucide-react';
+import clsx from 'clsx';
+import { useStore, selectRelevantMemories, type Memory } from '../store';
+import { DEFAULT_EMOTION, type EmotionState } from '../lib/emotions';
+import type { NeedsState } from '../lib/needs';
+import { getLifeStage, getAgeInDays, type LifeStage } from '../lib/lifecycle';
+import { ACTIVITY_LABELS } from '../lib/activities';
+import { WILD_ANIMAL_DEFS, type WildAnimalSpawn } from '../lib/wildAnimals';
+import { PERCEPTION_RANGE } from '../lib/eventSubscribers';
+import { GAME_MINUTES_PER_DAY } from '../lib/simClock';
+import type { AnimalState } from '../lib/kernel';
+import { getAnimalState } from '../simulation';
+
+const ROBOT_NAME = 'Unit-01';
+const ROBOT_COLOR = '#FFA500';
+
+const EMOTION_BARS: { key: keyof EmotionState; label: string; color: string }[] = [
+    { key: 'happiness', label: 'Happiness', color: 'bg-yellow-400' },
+    { key: 'curiosity', label: 'Curiosity', color: 'bg-sky-400' },
+    { key: 'fear', label: 'Fear', color: 'bg-purple-400' },
+    { key: 'anger', label: 'Anger', color: 'bg-red-400' },
+    { key: 'energy', label: 'Energy', color: 'bg-emerald-400' },
+];
+
+const NEED_BARS: { key: keyof NeedsState; label: string }[] = [
+    { key: 'hunger', label: 'Hunger' },
+    { key: 'energy', label: 'Energy' },
+    { key: 'social', label: 'Social' },
+    { key: 'comfort', label: 'Comfort' },
+];
+
+const LIFE_STAGE_LABELS: Record<LifeStage, string> = {
+    juvenile: '幼体',
+    adult: '成体',
+    elder: '老体',
+};
+
+const ANIMAL_STATE_LABELS: Record<AnimalState, string> = {
+    idle: '待機',
+    wander: '徘徊',
+    flee: '逃走',
+    rest: '休息',
+    chase: '追跡',
+    attack: '攻撃',
+};
+
+const Section = ({ title, children }: { title: string; children: ReactNode }) => (
+    <div className="pt-2.5 mt-2.5 border-t border-gray-100">
+        <div className="text-[9px] font-bold text-gray-400 uppercase tracking-widest mb-1.5">{title}</div>
+        {children}
+    </div>
+);
+
+// value 0-1
+const Gauge = ({ label, value, color, text }: { label: string; value: number; color: string; text?: string }) => (
+    <div className="flex items-center gap-2 text-[10px]">
+        <span className="w-16 font-bold text-gray-500">{label}</span>
+        <div className="flex-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+            <div className={clsx("h-full transition-all", color)} style={{ width: `${Math.max(0, Math.min(1, value)) * 100}%` }} />
+        </div>
+        <span className="w-12 text-right font-mono text-gray-500">{text ?? `${Math.round(value * 100)}%`}</span>
+    </div>
+);
+
+function gaugeColor(value: number): string {
+    return value < 0.25 ? 'bg-red-400' : value < 0.5 ? 'bg-amber-400' : 'bg-emerald-400';
+}
+
+// Inspect whoever is selected (from the scene or the list); the camera can follow them
+export const EntityInspector = () => {
+    const selectedId = useStore(s => s.selectedEntityId);
+    const selectEntity = useStore(s => s.selectEntity);
+    const cameraFollowId = useStore(s => s.cameraFollowId);
+    const setCameraFollow = useStore(s => s.setCameraFollow);
+    const critterRegistry = useStore(s => s.critterRegistry);
+    const wildAnimals = useStore(s => s.wildAnimals);
+
+    if (!selectedId) return null;
+
+    const critter = critterRegistry.find(c => c.id === selectedId);
+    const animal = wildAnimals.find(a => a.id === selectedId);
+    const isFollowing = cameraFollowId === selectedId;
+
+    return (
+        <div className="absolute top-20 left-[240px] pointer-events-auto z-40 w-[320px] max-h-[75vh] flex flex-col bg-white/90 backdrop-blur-xl rounded-2xl shadow-xl border border-white/40 animate-fade-in-up">
+            <div className="px-3 py-2 flex items-center gap-2 border-b border-gray-100">
+                <select
+                    value={selectedId}
+                    onChange={(e) => selectEntity(e.target.value)}
+                    className="flex-1 min-w-0 text-xs font-bold text-gray-700 bg-transparent outline-none"
+                >
+                    <option value="robot">{ROBOT_NAME} (ロボット)</option>
+                    {critterRegistry.filter(c => c.isAlive || c.id === selectedId).map(c => (
+                        <option key={c.id} value={c.id}>{c.name}{c.isAlive ? '' : ' (死亡)'}</option>
+                    ))}
+                    {wildAnimals.map(a => (
+                        <option key={a.id} value={a.id}>{a.id} ({WILD_ANIMAL_DEFS[a.species].name})</option>
+                    ))}
+                </select>
+                <button
+                    onClick={() => setCameraFollow(isFollowing ? null : selectedId)}
+                    disabled={!!critter && !critter.isAlive}
+                    className={clsx(
+                        "flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-colors disabled:opacity-30",
+                        isFollowing ? "bg-orange-500 text-white" : "bg-gray-100 text-gray-500 hover:bg-gray-200"
+                    )}
+                    title="Follow Camera"
+                >
+                    <Crosshair size={12} />
+                    Follow
+                </button>
+                <button
+                    onClick={() => {
+                        if (isFollowing) setCameraFollow(null);
+                        selectEntity(null);
+                    }}
+                >
+                    <X size={16} className="text-gray-400 hover:text-gray-800" />
+                </button>
+            </div>
+
+            <div className="overflow-y-auto px-3 pb-3 scrollbar-thin scrollbar-thumb-gray-200">
+                {animal
+                    ? <AnimalDetails spawn={animal} />
+                    : <MindDetails id={selectedId} />}
+            </div>
+        </div>
+    );
+};
+
+// The robot and critters: feelings, needs, life, memories and bonds
+const MindDetails = ({ id }: { id: string }) => {
+    const isRobot = id === 'robot';
+    const critterRegistry = useStore(s => s.critterRegistry);
+    const emotion = useStore(s => s.entityEmotions[id] ?? DEFAULT_EMOTION);
+    const needs = useStore(s => s.entityNeeds[id]);
+    const lifecycle = useStore(s => s.entityLifecycles[id]);
+    const activity = useStore(s => s.entityActivities[id]);
+    const critterStatus = useStore(s => s.critterStatuses[id]);
+    const robotStatus = useStore(s => s.robotStatus);
+    const memories = useStore(s => isRobot ? s.robotMemories : s.critterMemories[id]);
+    const relationships = useStore(s => s.relationships);
+    const entityPositions = useStore(s => s.entityPositions);
+    const gameMinutes = useStore(s => s.gameMinutes);
+    const selectEntity = useStore(s => s.selectEntity);
+
+    const critter = critterRegistry.find(c => c.id === id);
+    const nameOf = (other: string) => other === 'robot' ? ROBOT_NAME : critterRegistry.find(c => c.id === other)?.name ?? other;
+
+    // Ranked the way prompts see them: importance, recency and who is around
+    const topMemories = useMemo(() => {
+        const here = entityPositions[id];
+        const nearby = here
+            ? Object.entries(entityPositions)
+                .filter(([other, pos]) => other !== id && Math.hypot(pos.x - here.x, pos.z - here.z) < PERCEPTION_RANGE)
+                .map(([other]) => other)
+            : [];
+        return selectRelevantMemories(memories ?? [], nearby, 5);
+    }, [memories, entityPositions, id]);
+
+    const bonds = useMemo(() => Object.entries(relationships)
+        .map(([key, affinity]) => {
+            const [a, b] = key.split(':');
+            return { other: a === id ? b : b === id ? a : null, affinity };
+        })
+        .filter((bond): bond is { other: string; affinity: number } => bond.other !== null)
+        .sort((a, b) => Math.abs(b.affinity) - Math.abs(a.affinity))
+        .slice(0, 6), [relationships, id]);
+
+    const ancestors = useMemo(() => {
+        const chain: string[] = [];
+        let parentId = critter?.parentId;
+        while (parentId && chain.length < 5) {
+            chain.push(parentId);
+            parentId = critterRegistry.find(c => c.id === parentId)?.parentId;
+        }
+        return chain;
+    }, [critter, critterRegistry]);
+    const children = critterRegistry.filter(c => c.parentId === id);
+
+    const remaining = activity ? Math.max(0, activity.startedAt + activity.duration - gameMinutes) : 0;
+
+    return (
+        <>
+            <div className="flex items-center gap-2 pt-2.5">
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: isRobot ? ROBOT_COLOR : critter?.color }} />
+                <span className="text-sm font-bold text-gray-800">{nameOf(id)}</span>
+                {critter && !critter.isAlive && <span className="text-[10px] font-bold text-red-500">死亡</span>}
+            </div>
+
+            {/* Current activity */}
+            {activity && (
+                <div className="mt-1.5 text-xs text-gray-600">
+                    <span className="font-bold text-blue-600">{ACTIVITY_LABELS[activity.current]}</span>
+                    {activity.targetEntityId && <span> → {nameOf(activity.targetEntityId)}</span>}
+                    <span className="ml-2 text-[10px] font-mono text-gray-400">残り {Math.ceil(remaining)}分</span>
+                </div>
+            )}
+
+            <Section title="Emotions">
+                <div className="space-y-1">
+                    {EMOTION_BARS.map(bar => (
+                        <Gauge
+                            key={bar.key}
+                            label={bar.label}
+                            // Happiness runs -1 to 1
+                            value={bar.key === 'happiness' ? (emotion.happiness + 1) / 2 : emotion[bar.key]}
+                            text={emotion[bar.key].toFixed(2)}
+                            color={bar.color}
+                        />
+                    ))}
+                </div>
+            </Section>
+
+            <Section title={isRobot ? 'Status' : 'Vitals'}>
+                <div className="space-y-1">
+                    {isRobot ? (
+                        <>
+                            <Gauge label="Battery" value={robotStatus.battery / 100} color={gaugeColor(robotStatus.battery / 100)} />
+                            <Gauge label="Durability" value={robotStatus.durability / 100} color={gaugeColor(robotStatus.durability / 100)} />
+                        </>
+                    ) : critterStatus && (
+                        <Gauge label="Health" value={critterStatus.health / 100} color={gaugeColor(critterStatus.health / 100)} />
+                    )}
+                    {needs && NEED_BARS.map(bar => (
+                        <Gauge key={bar.key} label={bar.label} value={needs[bar.key]} color={gaugeColor(needs[bar.key])} />
+                    ))}
+                </div>
+            </Section>
+
+            {lifecycle && (
+                <Section title="Lifecycle">
+                    <Gauge
+                        label={LIFE_STAGE_LABELS[getLifeStage(lifecycle)]}
+                        value={lifecycle.age / lifecycle.maxAge}
+                        text={`${getAgeInDays(lifecycle).toFixed(1)}/${(lifecycle.maxAge / GAME_MINUTES_PER_DAY).toFixed(0)}日`}
+                        color="bg-indigo-400"
+                    />
+                    {lifecycle.reproductionCooldown > 0 && (
+                        <p className="text-[10px] text-gray-400 mt-1">繁殖まで {(lifecycle.reproductionCooldown / GAME_MINUTES_PER_DAY).toFixed(1)}日</p>
+                    )}
+                </Section>
+            )}
+
+            {critter && (
+                <Section title="Lineage">
+                    <div className="text-[11px] text-gray-600 space-y-0.5">
+                        <p>第{critter.generation}世代{!critter.parentId && ' (始祖・自然発生)'}</p>
+                        {ancestors.length > 0 && (
+                            <p>
+                                祖先:{' '}
+                                {ancestors.map((ancestor, i) => (
+                                    <span key={ancestor}>
+                                        {i > 0 && ' ← '}
+                                        <button onClick={() => selectEntity(ancestor)} className="font-bold hover:text-blue-600">{nameOf(ancestor)}</button>
+                                    </span>
+                                ))}
+                            </p>
+                        )}
+                        {children.length > 0 && (
+                            <p>
+                                子供:{' '}
+                                {children.map((child, i) => (
+                                    <span key={child.id}>
+                                        {i > 0 && ', '}
+                                        <button onClick={() => selectEntity(child.id)} className="font-bold hover:text-blue-600">{child.name}</button>
+                                    </span>
+                                ))}
+                            </p>
+                        )}
+                    </div>
+                </Section>
+            )}
+
+            <Section title="Relationships">
+                {bonds.length === 0 ? (
+                    <p className="text-[10px] text-gray-400">まだ関係はありません</p>
+                ) : (
+                    <div className="space-y-1">
+                        {bonds.map(({ other, affinity }) => (
+                            <div key={other} className="flex items-center gap-2 text-[10px]">
+                                <button onClick={() => selectEntity(other)} className="w-20 truncate text-left font-bold text-gray-500 hover:text-blue-600">{nameOf(other)}</button>
+                                {/* Centered bar: friends to the right, enemies to the left */}
+                                <div className="flex-1 h-1.5 bg-gray-100 rounded-full relative overflow-hidden">
+                                    <div
+                                        className={clsx("absolute h-full", affinity >= 0 ? "bg-emerald-400 left-1/2" : "bg-red-400 right-1/2")}
+                                        style={{ width: `${Math.abs(affinity) * 50}%` }}
+                                    />
+                                </div>
+                                <span className="w-10 text-right font-mono text-gray-500">{affinity.toFixed(2)}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </Section>
+
+            <Section title="Memories">
+                {topMemories.length === 0 ? (
+                    <p className="text-[10px] text-gray-400">記憶はまだありません</p>
+                ) : (
+                    <ul className="space-y-1">
+                        {topMemories.map((memory: Memory, i) => (
+                            <li key={i} className="text-[11px] text-gray-600 leading-snug">
+                                <span className="font-mono text-[9px] text-gray-400 mr-1">{memory.importance.toFixed(1)}</span>
+                                {memory.content}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </Section>
+        </>
+    );
+};
+
+// Wild animals keep no mind in the store; their state comes from the running kernel
+const AnimalDetails = ({ spawn }: { spawn: WildAnimalSpawn }) => {
+    const { id } = spawn;
+    const def = WILD_ANIMAL_DEFS[spawn.species];
+    const position = useStore(s => s.entityPositions[id]);
+    // Re-read the kernel state as the clock moves
+    useStore(s => s.gameMinutes);
+    const state = getAnimalState(id);
+
+    return (
+        <>
+            <div className="flex items-center gap-2 pt-2.5">
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: def.color }} />
+                <span className="text-sm font-bold text-gray-800">{def.name}</span>
+                <span className="text-[10px] font-mono text-gray-400">{id}</span>
+                {def.aggressive && <span className="text-[10px] font-bold text-red-500">危険</span>}
+            </div>
+            {state && (
+                <div className="mt-1.5 text-xs font-bold text-blue-600">{ANIMAL_STATE_LABELS[state]}</div>
+            )}
+            <Section title="Traits">
+                <div className="grid grid-cols-2 gap-x-3 gap-y-0.5 text-[10px] text-gray-600">
+                    <span>速さ</span><span className="font-mono text-right">{def.speed}</span>
+                    <span>行動範囲</span><span className="font-mono text-right">{def.wanderRadius}</span>
+                    {def.fleeDistance > 0 && <><span>逃げる距離</span><span className="font-mono text-right">{def.fleeDistance}</span></>}
+                    {def.attackDamage && <><span>攻撃力</span><span className="font-mono text-right">{def.attackDamage}</span></>}
+                    {position && <><span>位置</span><span className="font-mono text-right">{position.x.toFixed(0)}, {position.z.toFixed(0)}</span></>}
+                </div>
+            </Section>
+        </>
+    );
+};
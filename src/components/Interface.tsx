@@ -1,10 +1,26 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { useStore, createMemory } from '../store';
 import type { Message } from '../store';
-import { Send, Settings, Trash2, MessageCircle, X, Minimize2, Sun, Cloud, CloudRain, Snowflake, VolumeX, RotateCcw, Volume2, Thermometer, Brain, ChevronRight, ChevronLeft, Calendar, Locate } from 'lucide-react';
+import { Send, Settings, Trash2, MessageCircle, X, Minimize2, Sun, Cloud, CloudRain, Snowflake, VolumeX, RotateCcw, Volume2, Thermometer, Calendar, Locate, Play, Pause, Sunrise, Trophy, Medal, Sparkles, History, ScanSearch, Gamepad2, Wand2 } from 'lucide-react';
 import clsx from 'clsx';
 import { streamResponse, DEFAULT_ROBOT_SYSTEM_PROMPT, DEFAULT_CRITTER_SYSTEM_PROMPT } from '../lib/llm';
 import { stopAllSpeech } from '../lib/speech';
+import { RECIPES, INVENTORY_ITEMS, canCraft, type RecipeId } from '../lib/crafting';
+import { generateWorldSeed } from '../lib/random';
+import { TIME_SCALES } from '../lib/simClock';
+import { formatClockTime } from '../lib/world';
+import { AchievementToasts, AchievementsPanel } from './Achievements';
+import { ScoreHud } from './ScoreHud';
+import { RunSummary, LeaderboardPanel } from './RunSummary';
+import { TimelinePanel } from './TimelinePanel';
+import { ActivityLogPanel } from './ActivityLogPanel';
+import { EntityInspector } from './EntityInspector';
+import { Minimap } from './Minimap';
+import { CameraModeBar } from './CameraModeBar';
+import { ManualControl } from './ManualControl';
+import { SandboxPanel } from './SandboxPanel';
+
+const INVENTORY_ICONS: Record<string, string> = Object.fromEntries(INVENTORY_ITEMS.map(item => [item.key, item.icon]));
 
 export const Interface = () => {
     const messages = useStore(s => s.messages);
@@ -40,20 +56,44 @@ export const Interface = () => {
     const time = useStore(s => s.time);
     const weather = useStore(s => s.weather);
     const temperature = useStore(s => s.temperature);
+    const weatherEvent = useStore(s => s.weatherEvent);
+    const weatherEventPhase = useStore(s => s.weatherEventPhase);
+    const weatherWarning = useStore(s => s.weatherWarning);
     const ambientSoundsEnabled = useStore(s => s.ambientSoundsEnabled);
     const setAmbientSoundsEnabled = useStore(s => s.setAmbientSoundsEnabled);
     const ambientSoundsVolume = useStore(s => s.ambientSoundsVolume);
     const setAmbientSoundsVolume = useStore(s => s.setAmbientSoundsVolume);
+    const showBuildingRadius = useStore(s => s.showBuildingRadius);
+    const inventory = useStore(s => s.inventory);
+    const craftRequest = useStore(s => s.craftRequest);
+    const requestCraft = useStore(s => s.requestCraft);
+    const craftingJob = useStore(s => s.craftingJob);
+    const worldSeed = useStore(s => s.worldSeed);
+    const timeScale = useStore(s => s.timeScale);
+    const setTimeScale = useStore(s => s.setTimeScale);
+    const isPaused = useStore(s => s.isPaused);
+    const setPaused = useStore(s => s.setPaused);
+    const isSkippingToDawn = useStore(s => s.isSkippingToDawn);
+    const setSkippingToDawn = useStore(s => s.setSkippingToDawn);
+    const setWorldSeed = useStore(s => s.setWorldSeed);
+    const setShowBuildingRadius = useStore(s => s.setShowBuildingRadius);
     const day = useStore(s => s.day);
     const season = useStore(s => s.season);
-    const robotThoughts = useStore(s => s.robotThoughts);
-    const critterThoughts = useStore(s => s.critterThoughts);
-    const critterRegistry = useStore(s => s.critterRegistry);
+    const achievementCount = useStore(s => s.achievements.length);
+    const victoryDay = useStore(s => s.victoryDay);
+    const setVictoryDay = useStore(s => s.setVictoryDay);
+    const selectedEntityId = useStore(s => s.selectedEntityId);
+    const selectEntity = useStore(s => s.selectEntity);
+    const isManualControl = useStore(s => s.isManualControl);
+    const setManualControl = useStore(s => s.setManualControl);
+    const startNewWorld = useStore(s => s.startNewWorld);
 
     const [input, setInput] = useState("");
-    const [isThoughtPanelOpen, setIsThoughtPanelOpen] = useState(false);
-    const [thoughtTab, setThoughtTab] = useState<string>('all');
-    const thoughtScrollRef = useRef<HTMLDivElement>(null);
+    const [seedInput, setSeedInput] = useState(String(worldSeed));
+    const [isAchievementsOpen, setIsAchievementsOpen] = useState(false);
+    const [isLeaderboardOpen, setIsLeaderboardOpen] = useState(false);
+    const [isTimelineOpen, setIsTimelineOpen] = useState(false);
+    const [isSandboxOpen, setIsSandboxOpen] = useState(false);
     const scrollRef = useRef<HTMLDivElement>(null);
 
     // Season label
@@ -62,52 +102,8 @@ export const Interface = () => {
         return labels[season] || 'Spring';
     }, [season]);
 
-    // Merged thoughts: robot + all critters, sorted by timestamp
-    const allThoughts = useMemo(() => {
-        const merged: { thought: string; action: string; timestamp: number; gameTime: string; entityName: string; color: string }[] = [];
-
-        // Robot thoughts
-        for (const t of robotThoughts) {
-            merged.push({ ...t, entityName: 'Unit-01', color: '#FFA500' });
-        }
-
-        // Critter thoughts
-        for (const [, thoughts] of Object.entries(critterThoughts)) {
-            for (const t of thoughts) {
-                merged.push({ thought: t.thought, action: t.action, timestamp: t.timestamp, gameTime: t.gameTime, entityName: t.critterName, color: t.color });
-            }
-        }
-
-        merged.sort((a, b) => a.timestamp - b.timestamp);
-        return merged;
-    }, [robotThoughts, critterThoughts]);
-
-    // Filtered thoughts based on selected tab
-    const filteredThoughts = useMemo(() => {
-        if (thoughtTab === 'all') return allThoughts;
-        return allThoughts.filter(t => t.entityName === thoughtTab);
-    }, [allThoughts, thoughtTab]);
-
-    // Tab options
-    const thoughtTabs = useMemo(() => {
-        const tabs = ['all', 'Unit-01'];
-        const aliveCritters = critterRegistry.filter(c => c.isAlive).map(c => c.name);
-        return [...tabs, ...aliveCritters];
-    }, [critterRegistry]);
-
-    // Auto-scroll thought panel
-    useEffect(() => {
-        if (thoughtScrollRef.current) {
-            thoughtScrollRef.current.scrollTop = thoughtScrollRef.current.scrollHeight;
-        }
-    }, [filteredThoughts]);
-
     // 時刻のフォーマット (HH:mm)
-    const formattedTime = useMemo(() => {
-        const hours = Math.floor(time);
-        const minutes = Math.floor((time % 1) * 60);
-        return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
-    }, [time]);
+    const formattedTime = useMemo(() => formatClockTime(time), [time]);
 
     // 1日のフェーズと方角の取得
     const envInfo = useMemo(() => {
@@ -245,6 +241,15 @@ export const Interface = () => {
                         <span className="font-mono font-bold text-gray-700">{temperature.toFixed(1)}°C</span>
                     </div>
 
+                    {weatherEvent && (
+                        <div className={clsx(
+                            "text-[10px] font-bold px-2 py-1 rounded-lg max-w-[220px]",
+                            weatherEventPhase === 'active' ? 'bg-red-100 text-red-600 animate-pulse' : 'bg-amber-100 text-amber-700'
+                        )}>
+                            {weatherEventPhase === 'active' ? `🌪️ ${weatherEvent.name} 発生中` : weatherWarning}
+                        </div>
+                    )}
+
                     <div className="h-[1px] w-full bg-gradient-to-r from-gray-200 via-gray-100 to-transparent"></div>
 
                     <div className="flex items-center justify-between text-[10px] font-bold text-gray-400 uppercase tracking-widest">
@@ -284,80 +289,116 @@ export const Interface = () => {
                 </div>
             </div>
 
-            {/* Thought Log Panel (Left side) */}
-            <div className="absolute top-48 left-4 pointer-events-auto z-40">
-                <button
-                    onClick={() => setIsThoughtPanelOpen(!isThoughtPanelOpen)}
-                    className="flex items-center gap-1.5 px-3 py-2 bg-white/85 backdrop-blur-lg rounded-xl shadow-lg border border-white/40 text-xs font-bold text-gray-600 hover:bg-white/95 transition-colors"
-                >
-                    <Brain size={14} />
-                    <span>思考ログ</span>
-                    {isThoughtPanelOpen ? <ChevronLeft size={12} /> : <ChevronRight size={12} />}
-                    {allThoughts.length > 0 && (
-                        <span className="ml-1 w-5 h-5 bg-blue-500 text-white rounded-full flex items-center justify-center text-[9px]">
-                            {allThoughts.length}
-                        </span>
-                    )}
-                </button>
+            {/* Simulation Speed Controls (Top Center) */}
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 pointer-events-auto z-50">
+                <div className="flex items-center gap-1 px-2 py-1.5 bg-white/85 backdrop-blur-lg rounded-full shadow-xl border border-white/40">
+                    <button
+                        onClick={() => setPaused(!isPaused)}
+                        className={clsx(
+                            "p-2 rounded-full transition-colors",
+                            isPaused ? "bg-amber-100 text-amber-600" : "text-gray-600 hover:bg-gray-100"
+                        )}
+                        title={isPaused ? "Resume" : "Pause"}
+                    >
+                        {isPaused ? <Play size={14} /> : <Pause size={14} />}
+                    </button>
+                    {TIME_SCALES.map(scale => (
+                        <button
+                            key={scale}
+                            onClick={() => setTimeScale(scale)}
+                            className={clsx(
+                                "px-2.5 py-1 rounded-full text-[11px] font-mono font-bold transition-colors",
+                                !isPaused && !isSkippingToDawn && timeScale === scale ? "bg-gray-900 text-white" : "text-gray-500 hover:bg-gray-100"
+                            )}
+                        >
+                            {scale}x
+                        </button>
+                    ))}
+                    <div className="w-[1px] h-4 bg-gray-200 mx-1"></div>
+                    <button
+                        onClick={() => setSkippingToDawn(!isSkippingToDawn)}
+                        className={clsx(
+                            "flex items-center gap-1 px-2.5 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest transition-colors",
+                            isSkippingToDawn ? "bg-orange-100 text-orange-600 animate-pulse" : "text-gray-500 hover:bg-gray-100"
+                        )}
+                        title="Skip to Dawn"
+                    >
+                        <Sunrise size={14} />
+                        {isSkippingToDawn ? '早送り中' : '夜明けまで'}
+                    </button>
+                </div>
+            </div>
+
+            {/* Minimap (Bottom Left, above the inventory) */}
+            <Minimap />
+
+            {/* Camera Modes (Bottom Center) */}
+            <CameraModeBar />
+
+            {/* Direct Control HUD (above the camera modes) */}
+            <ManualControl />
+
+            {/* Inventory HUD (Bottom Left) */}
+            <div className="absolute bottom-6 left-4 pointer-events-auto z-40">
+                <div className="px-4 py-2.5 bg-white/85 backdrop-blur-lg rounded-2xl shadow-xl border border-white/40 flex flex-col gap-1.5">
+                    <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Inventory</span>
+                    <div className="flex items-center gap-3">
+                        {INVENTORY_ITEMS
+                            .filter(item => item.alwaysShow || (inventory[item.key] ?? 0) > 0)
+                            .map(item => (
+                                <div key={item.key} className="flex items-center gap-1" title={item.label}>
+                                    <span className="text-sm">{item.icon}</span>
+                                    <span className={clsx(
+                                        "text-xs font-mono font-bold",
+                                        (inventory[item.key] ?? 0) > 0 ? 'text-gray-800' : 'text-gray-300'
+                                    )}>{inventory[item.key] ?? 0}</span>
+                                </div>
+                            ))}
+                    </div>
+
+                    <div className="h-[1px] w-full bg-gradient-to-r from-gray-200 via-gray-100 to-transparent"></div>
 
-                {isThoughtPanelOpen && (
-                    <div className="mt-2 w-[320px] max-h-[50vh] bg-white/90 backdrop-blur-xl rounded-2xl shadow-xl border border-white/40 overflow-hidden animate-fade-in-up">
-                        <div className="px-3 py-2 bg-gradient-to-r from-blue-50 to-purple-50 border-b border-gray-100">
-                            <span className="text-xs font-bold text-gray-700">思考ログ</span>
+                    {/* Crafting */}
+                    <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Craft</span>
+                    {craftingJob && (
+                        <div className="flex items-center gap-2 text-[10px] font-bold text-gray-600">
+                            <span>{RECIPES[craftingJob.recipeId].name}を製作中</span>
+                            <div className="flex-1 h-1.5 bg-gray-100 rounded-full overflow-hidden min-w-[60px]">
+                                <div className="h-full bg-amber-400 transition-all" style={{ width: `${craftingJob.progress * 100}%` }} />
+                            </div>
                         </div>
-                        {/* Tab Bar */}
-                        <div className="px-2 py-1.5 border-b border-gray-100 flex gap-1 overflow-x-auto scrollbar-thin scrollbar-thumb-gray-200">
-                            {thoughtTabs.map(tab => (
+                    )}
+                    <div className="flex flex-col gap-1">
+                        {(Object.keys(RECIPES) as RecipeId[]).map(id => {
+                            const recipe = RECIPES[id];
+                            const craftable = canCraft(recipe, inventory);
+                            return (
                                 <button
-                                    key={tab}
-                                    onClick={() => setThoughtTab(tab)}
+                                    key={id}
+                                    onClick={() => requestCraft(id)}
+                                    disabled={!craftable || !!craftingJob || craftRequest !== null}
+                                    title={recipe.description}
                                     className={clsx(
-                                        "px-2 py-1 rounded-md text-[10px] font-bold whitespace-nowrap transition-colors",
-                                        thoughtTab === tab
-                                            ? "bg-blue-500 text-white"
-                                            : "bg-gray-100 text-gray-500 hover:bg-gray-200"
+                                        "flex items-center justify-between gap-3 text-[10px] font-bold px-2 py-1 rounded-lg transition-colors",
+                                        craftRequest === id ? 'bg-amber-100 text-amber-700' :
+                                        craftable && !craftingJob ? 'bg-gray-100 text-gray-700 hover:bg-amber-50 hover:text-amber-700' :
+                                        'bg-gray-50 text-gray-300 cursor-not-allowed'
                                     )}
                                 >
-                                    {tab === 'all' ? 'All' : tab}
+                                    <span>{INVENTORY_ICONS[id] ?? '🔧'} {recipe.name}</span>
+                                    <span className="font-mono">
+                                        {Object.entries(recipe.inputs).map(([item, n]) => `${INVENTORY_ICONS[item] ?? item}${n}`).join(' ')}
+                                    </span>
                                 </button>
-                            ))}
-                        </div>
-                        <div
-                            ref={thoughtScrollRef}
-                            className="overflow-y-auto max-h-[calc(50vh-80px)] p-2 space-y-1.5 scrollbar-thin scrollbar-thumb-gray-200"
-                        >
-                            {filteredThoughts.length === 0 && (
-                                <div className="text-center text-gray-400 text-xs py-4">
-                                    まだ思考記録がありません
-                                </div>
-                            )}
-                            {filteredThoughts.map((thought, i) => (
-                                <div
-                                    key={`${thought.entityName}-${thought.timestamp}`}
-                                    className={clsx(
-                                        "px-2.5 py-2 rounded-lg text-xs border transition-colors",
-                                        i === filteredThoughts.length - 1
-                                            ? "bg-blue-50 border-blue-200"
-                                            : "bg-white border-gray-100"
-                                    )}
-                                >
-                                    <div className="flex items-center gap-1.5 mb-0.5">
-                                        <span
-                                            className="w-2 h-2 rounded-full shrink-0"
-                                            style={{ backgroundColor: thought.color }}
-                                        />
-                                        <span className="text-[9px] font-bold text-gray-600">{thought.entityName}</span>
-                                        <span className="text-[9px] font-mono text-gray-400">{thought.gameTime}</span>
-                                        <span className="text-[9px] font-bold text-blue-500 uppercase">{thought.action}</span>
-                                    </div>
-                                    <p className="text-gray-700 leading-relaxed">{thought.thought}</p>
-                                </div>
-                            ))}
-                        </div>
+                            );
+                        })}
                     </div>
-                )}
+                </div>
             </div>
 
+            {/* Activity Log Panel (Left side) */}
+            <ActivityLogPanel />
+
             {/* Header / Settings Buttons (Global Top Right) */}
             <div className="absolute top-4 right-4 pointer-events-auto z-50 flex items-center gap-2">
                 <button
@@ -372,6 +413,72 @@ export const Interface = () => {
                 >
                     <Locate size={22} />
                 </button>
+                <button
+                    onClick={() => selectEntity(selectedEntityId ? null : 'robot')}
+                    className={clsx(
+                        "p-3 backdrop-blur-md rounded-full shadow-lg transition-colors",
+                        selectedEntityId ? "bg-gray-900 text-white" : "bg-white/90 hover:bg-white text-gray-700"
+                    )}
+                    title="Inspector"
+                >
+                    <ScanSearch size={22} />
+                </button>
+                <button
+                    onClick={() => setManualControl(!isManualControl)}
+                    className={clsx(
+                        "p-3 backdrop-blur-md rounded-full shadow-lg transition-colors",
+                        isManualControl ? "bg-orange-500 text-white" : "bg-white/90 hover:bg-white text-gray-700"
+                    )}
+                    title="Direct Control (M)"
+                >
+                    <Gamepad2 size={22} />
+                </button>
+                <button
+                    onClick={() => setIsAchievementsOpen(true)}
+                    className="relative p-3 bg-white/90 backdrop-blur-md rounded-full shadow-lg hover:bg-white transition-colors text-amber-500"
+                    title="Achievements"
+                >
+                    <Trophy size={22} />
+                    {achievementCount > 0 && (
+                        <span className="absolute -top-1 -right-1 w-5 h-5 bg-amber-500 text-white rounded-full flex items-center justify-center text-[9px] font-bold">
+                            {achievementCount}
+                        </span>
+                    )}
+                </button>
+                <button
+                    onClick={() => {
+                        // The timeline and the sandbox share a spot
+                        setIsTimelineOpen(!isTimelineOpen);
+                        setIsSandboxOpen(false);
+                    }}
+                    className={clsx(
+                        "p-3 backdrop-blur-md rounded-full shadow-lg transition-colors",
+                        isTimelineOpen ? "bg-gray-900 text-white" : "bg-white/90 hover:bg-white text-gray-700"
+                    )}
+                    title="Timeline"
+                >
+                    <History size={22} />
+                </button>
+                <button
+                    onClick={() => {
+                        setIsSandboxOpen(!isSandboxOpen);
+                        setIsTimelineOpen(false);
+                    }}
+                    className={clsx(
+                        "p-3 backdrop-blur-md rounded-full shadow-lg transition-colors",
+                        isSandboxOpen ? "bg-purple-600 text-white" : "bg-white/90 hover:bg-white text-gray-700"
+                    )}
+                    title="Sandbox"
+                >
+                    <Wand2 size={22} />
+                </button>
+                <button
+                    onClick={() => setIsLeaderboardOpen(true)}
+                    className="p-3 bg-white/90 backdrop-blur-md rounded-full shadow-lg hover:bg-white transition-colors text-gray-700"
+                    title="Leaderboard"
+                >
+                    <Medal size={22} />
+                </button>
                 <button
                     onClick={toggleSettings}
                     className="p-3 bg-white/90 backdrop-blur-md rounded-full shadow-lg hover:bg-white transition-colors text-gray-700"
@@ -381,6 +488,29 @@ export const Interface = () => {
                 </button>
             </div>
 
+            {/* Live Score (Top Right, under the buttons) */}
+            <ScoreHud />
+
+            {/* Timeline (beside the score) */}
+            {isTimelineOpen && <TimelinePanel onClose={() => setIsTimelineOpen(false)} />}
+
+            {/* Sandbox tools (same spot as the timeline) */}
+            {isSandboxOpen && <SandboxPanel onClose={() => setIsSandboxOpen(false)} />}
+
+            {/* Entity Inspector (clicked in the scene or picked from its list) */}
+            <EntityInspector />
+
+            <AchievementToasts />
+
+            {/* Achievements Panel */}
+            {isAchievementsOpen && <AchievementsPanel onClose={() => setIsAchievementsOpen(false)} />}
+
+            {/* Leaderboard Panel */}
+            {isLeaderboardOpen && <LeaderboardPanel onClose={() => setIsLeaderboardOpen(false)} />}
+
+            {/* End of Run Summary */}
+            <RunSummary />
+
             {/* Settings Modal */}
             {isSettingsOpen && (
                 <div className="pointer-events-auto absolute inset-0 z-[60] flex items-center justify-center bg-black/20 backdrop-blur-sm">
@@ -560,6 +690,97 @@ export const Interface = () => {
                             </p>
                         </div>
 
+                        {/* World Seed */}
+                        <div className="mb-6 p-4 bg-gray-50 rounded-xl border border-gray-200">
+                            <h3 className="text-sm font-bold text-gray-700 mb-3">World Seed</h3>
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="number"
+                                    value={seedInput}
+                                    onChange={(e) => setSeedInput(e.target.value)}
+                                    className="flex-1 px-3 py-1.5 bg-white border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none transition-all font-mono text-sm"
+                                />
+                                <button
+                                    onClick={() => {
+                                        const seed = Math.floor(Number(seedInput));
+                                        if (Number.isFinite(seed)) setWorldSeed(seed);
+                                    }}
+                                    disabled={seedInput === String(worldSeed)}
+                                    className="px-3 py-1.5 text-xs font-bold bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-30"
+                                >
+                                    Apply
+                                </button>
+                                <button
+                                    onClick={() => {
+                                        const seed = generateWorldSeed();
+                                        setSeedInput(String(seed));
+                                        setWorldSeed(seed);
+                                    }}
+                                    className="p-1.5 text-gray-500 hover:text-blue-600 bg-white border border-gray-200 rounded-lg transition-colors"
+                                    title="Random Seed"
+                                >
+                                    <RotateCcw size={14} />
+                                </button>
+                            </div>
+                            <p className="text-[10px] text-gray-400 mt-2">
+                                現在のシード: <span className="font-mono">{worldSeed}</span> — 同じシードでリセットすると、LLMを使わない限り同じ世界が再現されます
+                            </p>
+                        </div>
+
+                        {/* Run */}
+                        <div className="mb-6 p-4 bg-gray-50 rounded-xl border border-gray-200">
+                            <h3 className="text-sm font-bold text-gray-700 mb-3">Run</h3>
+                            <div className="flex items-center justify-between gap-2">
+                                <label className="text-xs font-medium text-gray-600">
+                                    Victory Day
+                                </label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    value={victoryDay}
+                                    onChange={(e) => setVictoryDay(Number(e.target.value) || 0)}
+                                    className="w-20 px-3 py-1.5 bg-white border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none transition-all font-mono text-sm"
+                                />
+                            </div>
+                            <p className="text-[10px] text-gray-400 mt-2">
+                                この日数を生き延びると勝利 (0で無制限)。ロボットの永久停止かクリッターの絶滅で終了します
+                            </p>
+                            <button
+                                onClick={() => {
+                                    const seed = generateWorldSeed();
+                                    setSeedInput(String(seed));
+                                    startNewWorld(seed);
+                                    toggleSettings();
+                                }}
+                                className="mt-3 w-full px-3 py-1.5 text-xs font-bold bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors flex items-center justify-center gap-1.5"
+                            >
+                                <Sparkles size={12} />
+                                New World (現在の記録は途中終了として保存)
+                            </button>
+                        </div>
+
+                        {/* Display Settings */}
+                        <div className="mb-6 p-4 bg-gray-50 rounded-xl border border-gray-200">
+                            <h3 className="text-sm font-bold text-gray-700 mb-3">Display</h3>
+                            <div className="flex items-center justify-between">
+                                <label className="text-xs font-medium text-gray-600">
+                                    Show Building Radius
+                                </label>
+                                <button
+                                    onClick={() => setShowBuildingRadius(!showBuildingRadius)}
+                                    className={clsx(
+                                        "w-10 h-5 rounded-full transition-colors relative",
+                                        showBuildingRadius ? "bg-blue-600" : "bg-gray-300"
+                                    )}
+                                >
+                                    <span className={clsx(
+                                        "absolute top-0.5 w-4 h-4 rounded-full bg-white shadow transition-transform",
+                                        showBuildingRadius ? "translate-x-5" : "translate-x-0.5"
+                                    )} />
+                                </button>
+                            </div>
+                        </div>
+
                         {/* System Prompts */}
                         <div className="mb-6 p-4 bg-gray-50 rounded-xl border border-gray-200">
                             <h3 className="text-sm font-bold text-gray-700 mb-3">System Prompts</h3>
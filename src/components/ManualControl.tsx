@@ -0,0 +1,173 @@
+import { useEffect, useRef, useState } from 'react';
+import { Gamepad2 } from 'lucide-react';
+import { useStore } from '../store';
+import { steerRobot, interactWithResource } from '../simulation';
+
+const TALK_RANGE = 15;
+const STICK_DEADZONE = 0.2;
+
+// Gamepad buttons (standard mapping)
+const BUTTON_INTERACT = 0; // A / Cross
+const BUTTON_TALK = 2; // X / Square
+
+// World axes: W/up goes north (-z), D/right goes east (+x)
+const KEY_DIRECTIONS: Record<string, [number, number]> = {
+    w: [0, -1], arrowup: [0, -1],
+    s: [0, 1], arrowdown: [0, 1],
+    a: [-1, 0], arrowleft: [-1, 0],
+    d: [1, 0], arrowright: [1, 0],
+};
+
+function isTyping(target: EventTarget | null): boolean {
+    return target instanceof HTMLElement &&
+        (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
+function findNearestCritter(): string | null {
+    const { entityPositions, critterRegistry } = useStore.getState();
+    const robot = entityPositions['robot'];
+    if (!robot) return null;
+    let nearest: string | null = null;
+    let best = TALK_RANGE;
+    for (const critter of critterRegistry) {
+        const pos = entityPositions[critter.id];
+        if (!critter.isAlive || !pos) continue;
+        const dist = Math.hypot(pos.x - robot.x, pos.z - robot.z);
+        if (dist < best) {
+            best = dist;
+            nearest = critter.id;
+        }
+    }
+    return nearest;
+}
+
+// Pilot the robot with WASD/arrows or a gamepad; M toggles, E interacts, T talks
+export const ManualControl = () => {
+    const isManualControl = useStore(s => s.isManualControl);
+    const [notice, setNotice] = useState<string | null>(null);
+    const noticeTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+    useEffect(() => () => clearTimeout(noticeTimer.current), []);
+
+    // Toggle key, available at all times
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.ctrlKey || e.metaKey || e.altKey || isTyping(e.target)) return;
+            if (e.key === 'm' || e.key === 'M') {
+                const { isManualControl, setManualControl } = useStore.getState();
+                setManualControl(!isManualControl);
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, []);
+
+    // Driving input while piloting
+    useEffect(() => {
+        if (!isManualControl) return;
+
+        const flash = (message: string) => {
+            setNotice(message);
+            clearTimeout(noticeTimer.current);
+            noticeTimer.current = setTimeout(() => setNotice(null), 2500);
+        };
+        const talk = () => {
+            const state = useStore.getState();
+            if (!state.apiKey) return flash('会話にはAPIキーが必要です');
+            if (state.isDialogueBusy) return flash('会話中です');
+            const critterId = findNearestCritter();
+            if (!critterId) return flash('近くにクリッターがいない');
+            state.requestRobotTalk(critterId);
+        };
+
+        const held = new Set<string>();
+        const steerFromKeys = () => {
+            let x = 0, z = 0;
+            for (const key of held) {
+                const [dx, dz] = KEY_DIRECTIONS[key];
+                x += dx;
+                z += dz;
+            }
+            steerRobot(x, z);
+        };
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.ctrlKey || e.metaKey || e.altKey || isTyping(e.target)) return;
+            const key = e.key.toLowerCase();
+            if (KEY_DIRECTIONS[key]) {
+                e.preventDefault();
+                held.add(key);
+                steerFromKeys();
+            } else if (key === 'e' && !e.repeat) {
+                interactWithResource();
+            } else if (key === 't' && !e.repeat) {
+                talk();
+            }
+        };
+        const onKeyUp = (e: KeyboardEvent) => {
+            const key = e.key.toLowerCase();
+            if (held.delete(key)) steerFromKeys();
+        };
+        const onBlur = () => {
+            held.clear();
+            steerRobot(0, 0);
+        };
+
+        // Gamepads have no events for sticks, so poll them every frame
+        const pressed = new Set<number>();
+        let stickActive = false;
+        let frame = requestAnimationFrame(function poll() {
+            const pad = navigator.getGamepads?.().find(p => p !== null);
+            if (pad) {
+                const [x = 0, z = 0] = pad.axes;
+                if (Math.hypot(x, z) > STICK_DEADZONE) {
+                    steerRobot(x, z);
+                    stickActive = true;
+                } else if (stickActive) {
+                    // Stick released: fall back to whatever keys are held
+                    stickActive = false;
+                    steerFromKeys();
+                }
+                for (const [button, action] of [[BUTTON_INTERACT, interactWithResource], [BUTTON_TALK, talk]] as const) {
+                    if (pad.buttons[button]?.pressed) {
+                        if (!pressed.has(button)) action();
+                        pressed.add(button);
+                    } else {
+                        pressed.delete(button);
+                    }
+                }
+            }
+            frame = requestAnimationFrame(poll);
+        });
+
+        window.addEventListener('keydown', onKeyDown);
+        window.addEventListener('keyup', onKeyUp);
+        window.addEventListener('blur', onBlur);
+        return () => {
+            cancelAnimationFrame(frame);
+            window.removeEventListener('keydown', onKeyDown);
+            window.removeEventListener('keyup', onKeyUp);
+            window.removeEventListener('blur', onBlur);
+            steerRobot(0, 0);
+        };
+    }, [isManualControl]);
+
+    if (!isManualControl) return null;
+
+    return (
+        <div className="absolute bottom-28 left-1/2 -translate-x-1/2 pointer-events-none z-40 flex flex-col items-center gap-1.5">
+            {notice && (
+                <div className="px-3 py-1 bg-red-500/85 text-white rounded-full text-[11px] font-bold animate-fade-in-up">{notice}</div>
+            )}
+            <div className="flex items-center gap-3 px-4 py-2 bg-gray-900/80 text-white rounded-2xl shadow-lg backdrop-blur-md text-[10px]">
+                <span className="flex items-center gap-1.5 font-bold uppercase tracking-widest text-orange-400">
+                    <Gamepad2 size={14} />
+                    Manual
+                </span>
+                <span><kbd className="font-mono font-bold">WASD</kbd> 移動</span>
+                <span><kbd className="font-mono font-bold">E</kbd> 採取・調べる</span>
+                <span><kbd className="font-mono font-bold">T</kbd> 話しかける</span>
+                <span><kbd className="font-mono font-bold">M</kbd> 自律に戻す</span>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,247 @@
+import { useEffect, useRef, useState, type MouseEvent } from 'react';
+import { Map as MapIcon, ChevronDown, ChevronUp, CloudFog } from 'lucide-react';
+import clsx from 'clsx';
+import { useStore } from '../store';
+import { BIOME_LABELS, getBiomeAt, getBiomeParams } from '../lib/biomes';
+import {
+    EXPLORATION_CELL_SIZE,
+    EXPLORATION_GRID_SIZE,
+    WORLD_EXTENT,
+    getCellOrigin,
+    getExploredRatio,
+} from '../lib/exploration';
+import type { ResourceCategory } from '../lib/resources';
+import { WILD_ANIMAL_DEFS } from '../lib/wildAnimals';
+
+type Layer = 'biomes' | 'resources' | 'buildings' | 'critters' | 'animals';
+
+const LAYERS: { key: Layer; label: string }[] = [
+    { key: 'biomes', label: '地形' },
+    { key: 'resources', label: '資源' },
+    { key: 'buildings', label: '建物' },
+    { key: 'critters', label: '住民' },
+    { key: 'animals', label: '動物' },
+];
+
+const RESOURCE_COLORS: Record<ResourceCategory, string> = {
+    food: '#4ade80',
+    water: '#38bdf8',
+    energy: '#facc15',
+    material: '#d6d3d1',
+};
+
+const MAP_SIZE = 180; // px; one pixel per world unit
+const ROBOT_COLOR = '#FFA500';
+
+function toMap(value: number): number {
+    return ((value + WORLD_EXTENT) / (WORLD_EXTENT * 2)) * MAP_SIZE;
+}
+
+function toWorld(px: number): number {
+    return (px / MAP_SIZE) * WORLD_EXTENT * 2 - WORLD_EXTENT;
+}
+
+// The biome noise is fixed, so the terrain layer is painted once and reused
+let biomeLayer: HTMLCanvasElement | null = null;
+
+function getBiomeLayer(): HTMLCanvasElement {
+    if (biomeLayer) return biomeLayer;
+    const canvas = document.createElement('canvas');
+    canvas.width = MAP_SIZE;
+    canvas.height = MAP_SIZE;
+    const ctx = canvas.getContext('2d')!;
+    const image = ctx.createImageData(MAP_SIZE, MAP_SIZE);
+    for (let py = 0; py < MAP_SIZE; py++) {
+        for (let px = 0; px < MAP_SIZE; px++) {
+            const [r, g, b] = getBiomeParams(getBiomeAt(toWorld(px + 0.5), toWorld(py + 0.5))).groundTint;
+            const i = (py * MAP_SIZE + px) * 4;
+            image.data[i] = r * 255;
+            image.data[i + 1] = g * 255;
+            image.data[i + 2] = b * 255;
+            image.data[i + 3] = 255;
+        }
+    }
+    ctx.putImageData(image, 0, 0);
+    biomeLayer = canvas;
+    return canvas;
+}
+
+function dot(ctx: CanvasRenderingContext2D, x: number, z: number, radius: number, fill: string, stroke?: string): void {
+    ctx.beginPath();
+    ctx.arc(toMap(x), toMap(z), radius, 0, Math.PI * 2);
+    ctx.fillStyle = fill;
+    ctx.fill();
+    if (stroke) {
+        ctx.strokeStyle = stroke;
+        ctx.lineWidth = 1;
+        ctx.stroke();
+    }
+}
+
+// Top-down map of the world; click to fly the camera there
+export const Minimap = () => {
+    const resourceNodes = useStore(s => s.resourceNodes);
+    const buildings = useStore(s => s.buildings);
+    const entityPositions = useStore(s => s.entityPositions);
+    const critterRegistry = useStore(s => s.critterRegistry);
+    const wildAnimals = useStore(s => s.wildAnimals);
+    const exploredCells = useStore(s => s.exploredCells);
+    const setCameraTarget = useStore(s => s.setCameraTarget);
+
+    const [isOpen, setIsOpen] = useState(true);
+    const [hiddenLayers, setHiddenLayers] = useState<Set<Layer>>(new Set());
+    const [showFog, setShowFog] = useState(false);
+    const [hover, setHover] = useState<{ x: number; z: number } | null>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        const ctx = canvasRef.current?.getContext('2d');
+        if (!ctx) return;
+
+        ctx.clearRect(0, 0, MAP_SIZE, MAP_SIZE);
+        if (hiddenLayers.has('biomes')) {
+            ctx.fillStyle = '#e5e7eb';
+            ctx.fillRect(0, 0, MAP_SIZE, MAP_SIZE);
+        } else {
+            ctx.drawImage(getBiomeLayer(), 0, 0);
+        }
+
+        // Resources with a ring showing how much is left
+        if (!hiddenLayers.has('resources')) {
+            for (const node of resourceNodes) {
+                const color = RESOURCE_COLORS[node.category];
+                dot(ctx, node.position.x, node.position.z, 1.5, color);
+                ctx.beginPath();
+                ctx.arc(toMap(node.position.x), toMap(node.position.z), 3.5, -Math.PI / 2, -Math.PI / 2 + node.capacity * Math.PI * 2);
+                ctx.strokeStyle = color;
+                ctx.lineWidth = 1.5;
+                ctx.stroke();
+            }
+        }
+
+        if (!hiddenLayers.has('buildings')) {
+            for (const building of buildings) {
+                const x = toMap(building.position.x);
+                const z = toMap(building.position.z);
+                ctx.globalAlpha = building.built ? 1 : 0.5;
+                ctx.fillStyle = '#ffffff';
+                ctx.fillRect(x - 3, z - 3, 6, 6);
+                ctx.strokeStyle = '#374151';
+                ctx.lineWidth = 1;
+                ctx.strokeRect(x - 3, z - 3, 6, 6);
+                ctx.globalAlpha = 1;
+            }
+        }
+
+        if (!hiddenLayers.has('animals')) {
+            for (const spawn of wildAnimals) {
+                const pos = entityPositions[spawn.id];
+                const def = WILD_ANIMAL_DEFS[spawn.species];
+                if (pos) dot(ctx, pos.x, pos.z, 2, def.aggressive ? '#ef4444' : def.color);
+            }
+        }
+
+        // Anything the robot has not seen is covered; the robot and critters stay visible
+        if (showFog) {
+            const explored = new Set(exploredCells);
+            const cellPx = (EXPLORATION_CELL_SIZE / (WORLD_EXTENT * 2)) * MAP_SIZE;
+            ctx.fillStyle = 'rgba(17, 24, 39, 0.8)';
+            for (let index = 0; index < EXPLORATION_GRID_SIZE * EXPLORATION_GRID_SIZE; index++) {
+                if (explored.has(index)) continue;
+                const origin = getCellOrigin(index);
+                // Overlap by a pixel so no seams show between cells
+                ctx.fillRect(toMap(origin.x), toMap(origin.z), cellPx + 1, cellPx + 1);
+            }
+        }
+
+        if (!hiddenLayers.has('critters')) {
+            for (const critter of critterRegistry) {
+                const pos = entityPositions[critter.id];
+                if (critter.isAlive && pos) dot(ctx, pos.x, pos.z, 3, critter.color, '#ffffff');
+            }
+        }
+
+        const robot = entityPositions['robot'];
+        if (robot) dot(ctx, robot.x, robot.z, 4, ROBOT_COLOR, '#ffffff');
+    }, [resourceNodes, buildings, entityPositions, critterRegistry, wildAnimals, exploredCells, hiddenLayers, showFog, isOpen]);
+
+    const toggleLayer = (layer: Layer) => {
+        setHiddenLayers(current => {
+            const next = new Set(current);
+            if (next.has(layer)) next.delete(layer);
+            else next.add(layer);
+            return next;
+        });
+    };
+
+    const pointerToWorld = (e: MouseEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return {
+            x: toWorld(((e.clientX - rect.left) / rect.width) * MAP_SIZE),
+            z: toWorld(((e.clientY - rect.top) / rect.height) * MAP_SIZE),
+        };
+    };
+
+    return (
+        <div className="absolute bottom-24 left-4 pointer-events-auto z-30 w-[204px] bg-white/85 backdrop-blur-lg rounded-2xl shadow-xl border border-white/40 overflow-hidden">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full px-3 py-2 flex items-center justify-between text-[10px] font-bold text-gray-500 uppercase tracking-widest hover:bg-white/60 transition-colors"
+            >
+                <span className="flex items-center gap-1.5">
+                    <MapIcon size={14} />
+                    Map
+                </span>
+                {isOpen ? <ChevronDown size={12} /> : <ChevronUp size={12} />}
+            </button>
+
+            {isOpen && (
+                <div className="px-3 pb-3">
+                    <canvas
+                        ref={canvasRef}
+                        width={MAP_SIZE}
+                        height={MAP_SIZE}
+                        onClick={(e) => {
+                            const { x, z } = pointerToWorld(e);
+                            setCameraTarget({ x, y: 2, z });
+                        }}
+                        onMouseMove={(e) => setHover(pointerToWorld(e))}
+                        onMouseLeave={() => setHover(null)}
+                        className="rounded-lg cursor-crosshair border border-gray-200"
+                        title="Fly to Location"
+                    />
+                    <div className="h-4 mt-1 text-[10px] font-mono text-gray-500 truncate">
+                        {hover
+                            ? `${BIOME_LABELS[getBiomeAt(hover.x, hover.z)]} (${hover.x.toFixed(0)}, ${hover.z.toFixed(0)})`
+                            : showFog && `探索済み ${Math.round(getExploredRatio(exploredCells) * 100)}%`}
+                    </div>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                        {LAYERS.map(layer => (
+                            <button
+                                key={layer.key}
+                                onClick={() => toggleLayer(layer.key)}
+                                className={clsx(
+                                    "px-1.5 py-0.5 rounded-md text-[10px] font-bold transition-colors",
+                                    hiddenLayers.has(layer.key) ? "bg-gray-100 text-gray-300" : "bg-gray-800 text-white"
+                                )}
+                            >
+                                {layer.label}
+                            </button>
+                        ))}
+                        <button
+                            onClick={() => setShowFog(!showFog)}
+                            className={clsx(
+                                "px-1.5 py-0.5 rounded-md text-[10px] font-bold transition-colors flex items-center gap-0.5",
+                                showFog ? "bg-indigo-500 text-white" : "bg-gray-100 text-gray-400"
+                            )}
+                            title="Fog of War"
+                        >
+                            <CloudFog size={10} />
+                            霧
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,11 +1,28 @@
-import { useRef } from 'react';
+import { useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { useStore } from '../store';
 import type { ResourceNode } from '../lib/resources';
+import { createRng, hashSeed } from '../lib/random';
 
 const OreCluster = ({ node }: { node: ResourceNode }) => {
     const groupRef = useRef<THREE.Group>(null!);
+    const worldSeed = useStore(s => s.worldSeed);
+
+    // Rock layout is derived from the world seed and node id, so it is stable across renders
+    const rocks = useMemo(() => {
+        const rng = createRng(hashSeed(worldSeed, node.id));
+        return [...Array(5)].map((_, i) => {
+            const angle = (i / 5) * Math.PI * 2;
+            const r = 0.5 + rng() * 0.8;
+            const s = 0.15 + rng() * 0.2;
+            return {
+                position: [Math.cos(angle) * r, s * 0.5, Math.sin(angle) * r] as [number, number, number],
+                rotation: [rng() * 0.5, rng() * Math.PI, rng() * 0.5] as [number, number, number],
+                size: s,
+            };
+        });
+    }, [worldSeed, node.id]);
 
     useFrame((state) => {
         if (groupRef.current) {
@@ -26,28 +43,18 @@ const OreCluster = ({ node }: { node: ResourceNode }) => {
 
     return (
         <group ref={groupRef} position={[node.position.x, node.position.y, node.position.z]}>
-            {[...Array(5)].map((_, i) => {
-                const angle = (i / 5) * Math.PI * 2;
-                const r = 0.5 + Math.random() * 0.8;
-                const s = 0.15 + Math.random() * 0.2;
-                return (
-                    <mesh
-                        key={i}
-                        position={[Math.cos(angle) * r, s * 0.5, Math.sin(angle) * r]}
-                        rotation={[Math.random() * 0.5, Math.random() * Math.PI, Math.random() * 0.5]}
-                        castShadow
-                    >
-                        <icosahedronGeometry args={[s, 0]} />
-                        <meshStandardMaterial
-                            color={color}
-                            metalness={0.7}
-                            roughness={0.3}
-                            emissive={color}
-                            emissiveIntensity={0.2}
-                        />
-                    </mesh>
-                );
-            })}
+            {rocks.map((rock, i) => (
+                <mesh key={i} position={rock.position} rotation={rock.rotation} castShadow>
+                    <icosahedronGeometry args={[rock.size, 0]} />
+                    <meshStandardMaterial
+                        color={color}
+                        metalness={0.7}
+                        roughness={0.3}
+                        emissive={color}
+                        emissiveIntensity={0.2}
+                    />
+                </mesh>
+            ))}
         </group>
     );
 };
@@ -104,6 +111,48 @@ const EnergyNode = ({ node }: { node: ResourceNode }) => {
     );
 };
 
+const MATERIAL_STYLES: Partial<Record<ResourceNode['type'], { color: string; metalness: number; emissive: boolean }>> = {
+    scrap_metal: { color: '#8d8d8d', metalness: 0.8, emissive: false },
+    fiber: { color: '#9c7a3c', metalness: 0.0, emissive: false },
+    crystal: { color: '#b388ff', metalness: 0.2, emissive: true },
+    high_quality_parts: { color: '#d4af37', metalness: 0.9, emissive: false },
+};
+
+// Gatherable material pile - shrinks as it is depleted
+const MaterialPile = ({ node }: { node: ResourceNode }) => {
+    const style = MATERIAL_STYLES[node.type]!;
+    const scale = 0.3 + 0.7 * node.capacity;
+
+    return (
+        <group position={[node.position.x, node.position.y, node.position.z]} scale={[scale, scale, scale]}>
+            {[...Array(4)].map((_, i) => {
+                const angle = (i / 4) * Math.PI * 2 + node.id.length;
+                return (
+                    <mesh
+                        key={i}
+                        position={[Math.cos(angle) * 0.5, 0.2, Math.sin(angle) * 0.5]}
+                        rotation={[0.3 * i, angle, 0.2 * i]}
+                        castShadow
+                    >
+                        {node.type === 'crystal'
+                            ? <octahedronGeometry args={[0.3, 0]} />
+                            : node.type === 'fiber'
+                                ? <cylinderGeometry args={[0.08, 0.12, 0.6, 5]} />
+                                : <boxGeometry args={[0.35, 0.2, 0.3]} />}
+                        <meshStandardMaterial
+                            color={style.color}
+                            metalness={style.metalness}
+                            roughness={0.5}
+                            emissive={style.emissive ? style.color : '#000000'}
+                            emissiveIntensity={style.emissive ? 0.5 * node.capacity : 0}
+                        />
+                    </mesh>
+                );
+            })}
+        </group>
+    );
+};
+
 export const ResourceNodes = () => {
     const resourceNodes = useStore(s => s.resourceNodes);
 
@@ -116,6 +165,9 @@ export const ResourceNodes = () => {
                 if (node.type === 'energy_node') {
                     return <EnergyNode key={node.id} node={node} />;
                 }
+                if (node.type in MATERIAL_STYLES) {
+                    return <MaterialPile key={node.id} node={node} />;
+                }
                 // glowing_mushroom and vegetation use existing visuals
                 return null;
             })}
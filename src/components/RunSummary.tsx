@@ -0,0 +1,209 @@
+import { useMemo, useState } from 'react';
+import { Trophy, Medal, X, RotateCcw, Sparkles } from 'lucide-react';
+import clsx from 'clsx';
+import { useStore } from '../store';
+import {
+    END_CAUSE_LABELS,
+    getTimelineHighlights,
+    sortGameRecords,
+    TIMELINE_EVENT_TYPES,
+    type EndCause,
+    type GameRecord,
+    type GameRecordSortKey,
+} from '../lib/scoring';
+import { formatGameTime } from '../lib/world';
+import { generateWorldSeed } from '../lib/random';
+
+const END_STYLES: Record<EndCause, { icon: string; title: string; accent: string }> = {
+    victory: { icon: '🎉', title: 'Victory', accent: 'text-amber-500' },
+    robot_death: { icon: '🤖', title: 'Robot Lost', accent: 'text-gray-600' },
+    extinction: { icon: '🥀', title: 'Extinction', accent: 'text-rose-500' },
+    player_quit: { icon: '🏁', title: 'Run Ended', accent: 'text-gray-600' },
+};
+
+const SORT_OPTIONS: { key: GameRecordSortKey; label: string }[] = [
+    { key: 'score', label: 'Score' },
+    { key: 'days', label: 'Days' },
+    { key: 'population', label: 'Pop.' },
+    { key: 'recent', label: 'Recent' },
+];
+
+// Past runs, best first by default; the highlighted run is marked
+export const Leaderboard = ({ highlightId }: { highlightId?: string }) => {
+    const gameHistory = useStore(s => s.gameHistory);
+    const [sortKey, setSortKey] = useState<GameRecordSortKey>('score');
+    const records = useMemo(() => sortGameRecords(gameHistory, sortKey), [gameHistory, sortKey]);
+
+    return (
+        <div>
+            <div className="flex items-center gap-1 mb-2">
+                {SORT_OPTIONS.map(option => (
+                    <button
+                        key={option.key}
+                        onClick={() => setSortKey(option.key)}
+                        className={clsx(
+                            "px-2.5 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest transition-colors",
+                            sortKey === option.key ? "bg-gray-900 text-white" : "bg-gray-100 text-gray-500 hover:bg-gray-200"
+                        )}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+            {records.length === 0 ? (
+                <p className="text-xs text-gray-400 py-4 text-center">まだ記録がありません</p>
+            ) : (
+                <div className="space-y-1">
+                    {records.map((record, index) => (
+                        <LeaderboardRow key={record.id} record={record} place={index + 1} highlighted={record.id === highlightId} />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const LeaderboardRow = ({ record, place, highlighted }: { record: GameRecord; place: number; highlighted: boolean }) => (
+    <div className={clsx(
+        "flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs",
+        highlighted ? "bg-amber-50 border border-amber-200" : "bg-gray-50"
+    )}>
+        <span className="w-5 font-mono font-bold text-gray-400">{place}</span>
+        <span className="w-6 font-black text-gray-700">{record.score.rank.current}</span>
+        <span className="w-14 font-mono font-bold text-gray-900 text-right">{record.score.current.total.toLocaleString()}</span>
+        <span className="w-12 font-mono text-gray-500 text-right">{record.daysSurvived}日</span>
+        <span className="w-10 font-mono text-gray-500 text-right">{record.finalPopulation}体</span>
+        <span className="flex-1 truncate text-gray-500">{END_CAUSE_LABELS[record.causeOfEnd]}</span>
+        <span className="text-[10px] text-gray-400 font-mono">{new Date(record.endedAt).toLocaleDateString()}</span>
+    </div>
+);
+
+// Leaderboard on its own, from the top-right buttons
+export const LeaderboardPanel = ({ onClose }: { onClose: () => void }) => (
+    <div className="pointer-events-auto absolute inset-0 z-[60] flex items-center justify-center bg-black/20 backdrop-blur-sm">
+        <div className="bg-white p-6 rounded-2xl shadow-xl w-full max-w-lg mx-4 animate-fade-in-up max-h-[90vh] flex flex-col">
+            <h2 className="text-xl font-bold mb-4 text-gray-800 flex justify-between items-center">
+                <span className="flex items-center gap-2">
+                    <Medal size={20} className="text-amber-500" />
+                    記録
+                </span>
+                <button onClick={onClose}><X size={20} className="text-gray-500 hover:text-gray-800" /></button>
+            </h2>
+            <div className="overflow-y-auto scrollbar-thin scrollbar-thumb-gray-200">
+                <Leaderboard />
+            </div>
+        </div>
+    </div>
+);
+
+// Shown once the run is over: final score, highlights, achievements and the way to a new world
+export const RunSummary = () => {
+    const runEnd = useStore(s => s.runEnd);
+    const score = useStore(s => s.realtimeScore);
+    const timeline = useStore(s => s.timeline);
+    const achievements = useStore(s => s.achievements);
+    const worldSeed = useStore(s => s.worldSeed);
+    const latestRecordId = useStore(s => s.gameHistory[s.gameHistory.length - 1]?.id);
+    const startNewWorld = useStore(s => s.startNewWorld);
+
+    const highlights = useMemo(() => getTimelineHighlights(timeline, 8), [timeline]);
+
+    if (!runEnd) return null;
+    const style = END_STYLES[runEnd.cause];
+
+    return (
+        <div className="pointer-events-auto absolute inset-0 z-[70] flex items-center justify-center bg-black/30 backdrop-blur-sm">
+            <div className="bg-white p-6 rounded-2xl shadow-xl w-full max-w-2xl mx-4 animate-fade-in-up max-h-[90vh] flex flex-col">
+                <div className="text-center mb-4">
+                    <div className="text-4xl mb-1">{style.icon}</div>
+                    <h2 className={clsx("text-2xl font-black uppercase tracking-widest", style.accent)}>{style.title}</h2>
+                    <p className="text-xs text-gray-500 mt-1">
+                        {END_CAUSE_LABELS[runEnd.cause]} — {runEnd.day}日目
+                    </p>
+                </div>
+
+                <div className="overflow-y-auto space-y-5 scrollbar-thin scrollbar-thumb-gray-200 pr-1">
+                    {/* Final Score */}
+                    <div className="flex items-center justify-center gap-4 p-4 bg-gray-50 rounded-xl border border-gray-200">
+                        <span className="w-14 h-14 rounded-2xl bg-gray-900 text-white flex items-center justify-center text-2xl font-black">
+                            {score.rank.current}
+                        </span>
+                        <div>
+                            <div className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Final Score</div>
+                            <div className="text-3xl font-mono font-black text-gray-900 tracking-tighter">{score.current.total.toLocaleString()}</div>
+                        </div>
+                        <div className="grid grid-cols-2 gap-x-4 gap-y-0.5 text-[10px] ml-4">
+                            <span className="font-bold text-gray-400 uppercase tracking-widest">Survival</span>
+                            <span className="font-mono font-bold text-gray-700 text-right">{score.current.survival.toLocaleString()}</span>
+                            <span className="font-bold text-gray-400 uppercase tracking-widest">Development</span>
+                            <span className="font-mono font-bold text-gray-700 text-right">{score.current.development.toLocaleString()}</span>
+                            <span className="font-bold text-gray-400 uppercase tracking-widest">Combat</span>
+                            <span className="font-mono font-bold text-gray-700 text-right">{score.current.combat.toLocaleString()}</span>
+                            <span className="font-bold text-gray-400 uppercase tracking-widest">Knowledge</span>
+                            <span className="font-mono font-bold text-gray-700 text-right">{score.current.knowledge.toLocaleString()}</span>
+                        </div>
+                    </div>
+
+                    {/* Timeline Highlights */}
+                    <section>
+                        <h3 className="text-sm font-bold text-gray-700 mb-2">ハイライト</h3>
+                        {highlights.length === 0 ? (
+                            <p className="text-xs text-gray-400">記録された出来事はありません</p>
+                        ) : (
+                            <ul className="space-y-1">
+                                {highlights.map((event, i) => (
+                                    <li key={i} className="flex items-center gap-2 text-xs">
+                                        <span>{TIMELINE_EVENT_TYPES[event.type].icon}</span>
+                                        <span className="font-mono text-[10px] text-gray-400 w-24 shrink-0">{formatGameTime(event.day, event.time)}</span>
+                                        <span className="text-gray-700">{event.description}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </section>
+
+                    {/* Achievements */}
+                    <section>
+                        <h3 className="text-sm font-bold text-gray-700 mb-2">実績 ({achievements.length})</h3>
+                        {achievements.length === 0 ? (
+                            <p className="text-xs text-gray-400">解除した実績はありません</p>
+                        ) : (
+                            <div className="flex flex-wrap gap-1.5">
+                                {achievements.map(achievement => (
+                                    <span key={achievement.id} className="flex items-center gap-1 px-2 py-1 bg-amber-50 text-amber-700 rounded-lg text-[11px] font-bold">
+                                        <Trophy size={11} />
+                                        {achievement.name}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                    </section>
+
+                    {/* Leaderboard */}
+                    <section>
+                        <h3 className="text-sm font-bold text-gray-700 mb-2">記録</h3>
+                        <Leaderboard highlightId={latestRecordId} />
+                    </section>
+                </div>
+
+                <div className="flex justify-end gap-2 mt-5">
+                    <button
+                        onClick={() => startNewWorld(worldSeed)}
+                        className="px-4 py-2 text-sm text-gray-600 bg-gray-100 rounded-xl hover:bg-gray-200 transition-colors flex items-center gap-1.5"
+                        title="Same Seed"
+                    >
+                        <RotateCcw size={14} />
+                        同じシードで再挑戦
+                    </button>
+                    <button
+                        onClick={() => startNewWorld(generateWorldSeed())}
+                        className="px-6 py-2 text-sm bg-gray-900 text-white rounded-xl hover:bg-gray-800 transition-colors flex items-center gap-1.5"
+                    >
+                        <Sparkles size={14} />
+                        新しい世界を始める
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,230 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { Wand2, X, Undo2, Eraser, HeartPulse, Thermometer, Skull } from 'lucide-react';
+import clsx from 'clsx';
+import { useStore } from '../store';
+import {
+    CATASTROPHE_TYPES,
+    PLACEABLE_RESOURCES,
+    SEASON_LABELS,
+    WEATHER_LABELS,
+    grantItem,
+    healEntity,
+    killEntity,
+    setDay,
+    setSeason,
+    setTimeOfDay,
+    setWeather,
+    sickenEntity,
+    triggerCatastrophe,
+    type SandboxTool,
+} from '../lib/sandbox';
+import { WILD_ANIMAL_DEFS } from '../lib/wildAnimals';
+import { WEATHER_EVENT_CONFIGS, type WeatherType } from '../lib/environment';
+import { INVENTORY_ITEMS } from '../lib/crafting';
+import type { Season } from '../lib/world';
+import { intervene, undoIntervention } from '../simulation';
+
+const ROBOT_NAME = 'Unit-01';
+const GRANT_AMOUNT = 5;
+
+const TOOLS: { tool: SandboxTool; label: string }[] = [
+    { tool: { kind: 'critter' }, label: 'クリッター' },
+    ...Object.values(WILD_ANIMAL_DEFS).map(def => ({ tool: { kind: 'animal', species: def.species } as SandboxTool, label: def.name })),
+    ...PLACEABLE_RESOURCES.map(resource => ({ tool: { kind: 'resource', type: resource.type } as SandboxTool, label: resource.name })),
+];
+
+function isSameTool(a: SandboxTool | null, b: SandboxTool): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+const Section = ({ title, children }: { title: string; children: ReactNode }) => (
+    <div className="pt-2.5 mt-2.5 border-t border-gray-100 first:border-t-0 first:mt-0">
+        <div className="text-[9px] font-bold text-gray-400 uppercase tracking-widest mb-1.5">{title}</div>
+        {children}
+    </div>
+);
+
+const Chip = ({ active, disabled, onClick, title, children }: {
+    active?: boolean;
+    disabled?: boolean;
+    onClick: () => void;
+    title?: string;
+    children: ReactNode;
+}) => (
+    <button
+        onClick={onClick}
+        disabled={disabled}
+        title={title}
+        className={clsx(
+            "px-1.5 py-0.5 rounded-md text-[10px] font-bold transition-colors flex items-center gap-1 disabled:opacity-30",
+            active ? "bg-gray-900 text-white" : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+        )}
+    >
+        {children}
+    </button>
+);
+
+// God-mode tools: place and remove things, bend the weather and the clock, and undo it all
+export const SandboxPanel = ({ onClose }: { onClose: () => void }) => {
+    const sandboxTool = useStore(s => s.sandboxTool);
+    const setSandboxTool = useStore(s => s.setSandboxTool);
+    const interventions = useStore(s => s.interventions);
+    const weather = useStore(s => s.weather);
+    const weatherEvent = useStore(s => s.weatherEvent);
+    const season = useStore(s => s.season);
+    const victoryDay = useStore(s => s.victoryDay);
+    const selectedId = useStore(s => s.selectedEntityId);
+    const selectedName = useStore(s => s.selectedEntityId === 'robot'
+        ? ROBOT_NAME
+        : s.critterRegistry.find(c => c.id === s.selectedEntityId)?.name ?? s.selectedEntityId);
+
+    const [hourInput, setHourInput] = useState(() => String(Math.floor(useStore.getState().time)));
+    const [dayInput, setDayInput] = useState(() => String(useStore.getState().day));
+
+    // Closing the panel puts the tool down
+    useEffect(() => () => useStore.getState().setSandboxTool(null), []);
+
+    const pickTool = (tool: SandboxTool) => setSandboxTool(isSameTool(sandboxTool, tool) ? null : tool);
+
+    return (
+        <div className="absolute top-20 right-[248px] pointer-events-auto z-40 w-[320px] max-h-[75vh] flex flex-col bg-white/90 backdrop-blur-lg rounded-2xl shadow-xl border border-white/40 animate-fade-in-up">
+            <div className="px-4 pt-3 pb-2 border-b border-gray-100 flex items-center justify-between">
+                <span className="flex items-center gap-1.5 text-[10px] font-bold text-gray-500 uppercase tracking-widest">
+                    <Wand2 size={14} />
+                    Sandbox
+                </span>
+                <button onClick={onClose}><X size={16} className="text-gray-400 hover:text-gray-800" /></button>
+            </div>
+
+            <div className="overflow-y-auto px-4 py-3 scrollbar-thin scrollbar-thumb-gray-200">
+                <Section title="Place">
+                    <div className="flex flex-wrap gap-1">
+                        {TOOLS.map(({ tool, label }) => (
+                            <Chip key={label} active={isSameTool(sandboxTool, tool)} onClick={() => pickTool(tool)}>
+                                {label}
+                            </Chip>
+                        ))}
+                        <Chip active={sandboxTool?.kind === 'erase'} onClick={() => pickTool({ kind: 'erase' })} title="動物や資源を取り除く">
+                            <Eraser size={10} />
+                            消去
+                        </Chip>
+                    </div>
+                    <div className="mt-1 text-[10px] text-gray-400">
+                        {sandboxTool ? '地面をクリックして配置' : 'ツールを選んで地面をクリック'}
+                    </div>
+                </Section>
+
+                <Section title="Weather">
+                    <div className="flex flex-wrap gap-1">
+                        {(Object.keys(WEATHER_LABELS) as WeatherType[]).map(type => (
+                            <Chip key={type} active={weather === type} onClick={() => intervene(world => setWeather(world, type))}>
+                                {WEATHER_LABELS[type]}
+                            </Chip>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                        {CATASTROPHE_TYPES.map(type => (
+                            <Chip
+                                key={type}
+                                disabled={!!weatherEvent}
+                                onClick={() => intervene(world => triggerCatastrophe(world, type))}
+                                title={weatherEvent ? '災害が進行中' : undefined}
+                            >
+                                ⚡ {WEATHER_EVENT_CONFIGS[type].name}
+                            </Chip>
+                        ))}
+                    </div>
+                </Section>
+
+                <Section title="Time">
+                    <div className="flex items-center gap-1.5 text-[10px] font-bold text-gray-500">
+                        <input
+                            type="number"
+                            min={0}
+                            max={23}
+                            value={hourInput}
+                            onChange={(e) => setHourInput(e.target.value)}
+                            className="w-12 px-1.5 py-0.5 rounded-md bg-gray-100 font-mono outline-none"
+                        />
+                        <Chip onClick={() => intervene(world => setTimeOfDay(world, Number(hourInput) || 0))}>時刻</Chip>
+                        <input
+                            type="number"
+                            min={1}
+                            max={victoryDay > 0 ? victoryDay - 1 : undefined}
+                            value={dayInput}
+                            onChange={(e) => setDayInput(e.target.value)}
+                            className="w-12 px-1.5 py-0.5 ml-2 rounded-md bg-gray-100 font-mono outline-none"
+                        />
+                        <Chip onClick={() => intervene(world => setDay(world, Number(dayInput) || 1))}>日</Chip>
+                    </div>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                        {(Object.keys(SEASON_LABELS) as Season[]).map(s => (
+                            <Chip key={s} active={season === s} onClick={() => intervene(world => setSeason(world, s))}>
+                                {SEASON_LABELS[s]}
+                            </Chip>
+                        ))}
+                    </div>
+                    <div className="mt-1 text-[10px] text-gray-400">
+                        時間は先へだけ進む{victoryDay > 0 && ` (Day ${victoryDay - 1}まで)`}。進めると、それまでの介入は取り消せない
+                    </div>
+                </Section>
+
+                <Section title="Entity">
+                    {selectedId ? (
+                        <div className="flex items-center gap-1">
+                            <span className="flex-1 min-w-0 truncate text-[11px] font-bold text-gray-700">{selectedName}</span>
+                            <Chip onClick={() => intervene(world => healEntity(world, selectedId))} title="回復">
+                                <HeartPulse size={10} />
+                                回復
+                            </Chip>
+                            <Chip onClick={() => intervene(world => sickenEntity(world, selectedId))} title={selectedId === 'robot' ? '故障させる' : '病気にする'}>
+                                <Thermometer size={10} />
+                                {selectedId === 'robot' ? '故障' : '病気'}
+                            </Chip>
+                            <Chip
+                                disabled={selectedId === 'robot'}
+                                onClick={() => intervene(world => killEntity(world, selectedId))}
+                                title={selectedId === 'robot' ? 'ロボットを倒すとランが終わる' : '倒す'}
+                            >
+                                <Skull size={10} />
+                                倒す
+                            </Chip>
+                        </div>
+                    ) : (
+                        <div className="text-[10px] text-gray-400">シーンかインスペクターで対象を選ぶ</div>
+                    )}
+                </Section>
+
+                <Section title="Inventory">
+                    <div className="flex flex-wrap gap-1">
+                        {INVENTORY_ITEMS.map(item => (
+                            <Chip key={item.key} onClick={() => intervene(world => grantItem(world, item.key, GRANT_AMOUNT))} title={item.label}>
+                                {item.icon} +{GRANT_AMOUNT}
+                            </Chip>
+                        ))}
+                    </div>
+                </Section>
+
+                <Section title="History">
+                    <button
+                        onClick={undoIntervention}
+                        disabled={interventions.length === 0}
+                        className="w-full flex items-center justify-center gap-1.5 py-1.5 rounded-lg bg-gray-900 text-white text-[10px] font-bold uppercase tracking-widest hover:bg-black transition-colors disabled:opacity-30"
+                    >
+                        <Undo2 size={12} />
+                        Undo
+                    </button>
+                    {interventions.length > 0 && (
+                        <ul className="mt-1.5 space-y-0.5">
+                            {[...interventions].reverse().slice(0, 8).map((intervention, i) => (
+                                <li key={interventions.length - i} className={clsx("text-[10px] truncate", i === 0 ? "text-gray-700 font-bold" : "text-gray-400")}>
+                                    🪄 {intervention.label}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </Section>
+            </div>
+        </div>
+    );
+};
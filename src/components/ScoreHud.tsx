@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import clsx from 'clsx';
+import { useStore } from '../store';
+import type { RealtimeScore, ScoreChange } from '../lib/scoring';
+
+const RANK_STYLES: Record<RealtimeScore['rank']['current'], { badge: string; bar: string }> = {
+    D: { badge: 'bg-gray-200 text-gray-600', bar: 'bg-gray-400' },
+    C: { badge: 'bg-green-100 text-green-700', bar: 'bg-green-400' },
+    B: { badge: 'bg-blue-100 text-blue-700', bar: 'bg-blue-400' },
+    A: { badge: 'bg-purple-100 text-purple-700', bar: 'bg-purple-400' },
+    S: { badge: 'bg-amber-100 text-amber-700', bar: 'bg-amber-400' },
+    SS: { badge: 'bg-gradient-to-br from-amber-300 to-rose-400 text-white', bar: 'bg-gradient-to-r from-amber-400 to-rose-400' },
+};
+
+const CATEGORIES: { key: ScoreChange['category']; label: string; color: string }[] = [
+    { key: 'survival', label: 'Survival', color: 'bg-emerald-400' },
+    { key: 'development', label: 'Development', color: 'bg-sky-400' },
+    { key: 'combat', label: 'Combat', color: 'bg-rose-400' },
+    { key: 'knowledge', label: 'Knowledge', color: 'bg-violet-400' },
+];
+
+const DELTA_DURATION_MS = 3000;
+
+interface FloatingDelta {
+    id: number;
+    change: ScoreChange;
+}
+
+// Rank, total and progress to the next rank; click for the category breakdown
+export const ScoreHud = () => {
+    const score = useStore(s => s.realtimeScore);
+    const [isExpanded, setIsExpanded] = useState(false);
+    const [deltas, setDeltas] = useState<FloatingDelta[]>([]);
+
+    // Float each new score change for a few seconds
+    useEffect(() => {
+        const timers: ReturnType<typeof setTimeout>[] = [];
+        let nextId = 0;
+        const unsubscribe = useStore.subscribe((state, prev) => {
+            const changes = state.realtimeScore.recentChanges;
+            if (changes === prev.realtimeScore.recentChanges) return;
+            const known = new Set(prev.realtimeScore.recentChanges);
+            const fresh = changes.filter(c => !known.has(c)).map(change => ({ id: nextId++, change }));
+            if (fresh.length === 0) return;
+            setDeltas(current => [...current, ...fresh]);
+            for (const delta of fresh) {
+                timers.push(setTimeout(() => {
+                    setDeltas(current => current.filter(d => d.id !== delta.id));
+                }, DELTA_DURATION_MS));
+            }
+        });
+        return () => {
+            unsubscribe();
+            timers.forEach(clearTimeout);
+        };
+    }, []);
+
+    const { current, rank } = score;
+    const style = RANK_STYLES[rank.current];
+    const categoryMax = Math.max(1, ...CATEGORIES.map(c => current[c.key]));
+
+    return (
+        <div className="absolute top-20 right-4 pointer-events-auto z-40 flex flex-col items-end gap-2 w-[220px]">
+            <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="w-full px-4 py-2.5 bg-white/85 backdrop-blur-lg rounded-2xl shadow-xl border border-white/40 text-left"
+                title="Score"
+            >
+                <div className="flex items-center gap-3">
+                    <span className={clsx("w-9 h-9 rounded-xl flex items-center justify-center text-sm font-black shrink-0", style.badge)}>
+                        {rank.current}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between">
+                            <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Score</span>
+                            {isExpanded ? <ChevronUp size={12} className="text-gray-400" /> : <ChevronDown size={12} className="text-gray-400" />}
+                        </div>
+                        <span className="text-lg font-mono font-black text-gray-900 tracking-tighter">{current.total.toLocaleString()}</span>
+                    </div>
+                </div>
+                <div className="mt-2 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                    <div className={clsx("h-full transition-all", style.bar)} style={{ width: `${rank.progress}%` }} />
+                </div>
+                <div className="mt-1 text-[9px] font-bold text-gray-400 uppercase tracking-widest">
+                    {rank.nextRank ? `${rank.pointsToNext.toLocaleString()} to ${rank.nextRank}` : 'Max rank'}
+                </div>
+
+                {isExpanded && (
+                    <div className="mt-2 pt-2 border-t border-gray-100 space-y-1.5">
+                        {CATEGORIES.map(category => (
+                            <div key={category.key}>
+                                <div className="flex items-center justify-between text-[10px]">
+                                    <span className="font-bold text-gray-500 uppercase tracking-widest">{category.label}</span>
+                                    <span className="font-mono font-bold text-gray-700">{current[category.key].toLocaleString()}</span>
+                                </div>
+                                <div className="h-1 bg-gray-100 rounded-full overflow-hidden">
+                                    <div
+                                        className={clsx("h-full transition-all", category.color)}
+                                        style={{ width: `${(current[category.key] / categoryMax) * 100}%` }}
+                                    />
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </button>
+
+            {deltas.map(({ id, change }) => (
+                <div
+                    key={id}
+                    className={clsx(
+                        "px-3 py-1 rounded-full shadow-lg text-[11px] font-bold backdrop-blur-md animate-fade-in-up pointer-events-none max-w-full truncate",
+                        change.type === 'gain' ? 'bg-emerald-50/90 text-emerald-700' : 'bg-red-50/90 text-red-600'
+                    )}
+                >
+                    {change.type === 'gain' ? '+' : '-'}{change.amount} {change.category}: {change.reason}
+                </div>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,17 @@
+import { useFrame } from "@react-three/fiber";
+import { useStore } from "../store";
+import { advanceSimClock, getSimDelta, SKIP_TO_DAWN_SCALE } from "../lib/simClock";
+import { stepSimulation } from "../simulation";
+
+// Advances the clock and steps the world before any entity renders the frame
+export const Simulation = () => {
+    useFrame((_, delta) => {
+        const { isPaused, isSkippingToDawn, timeScale } = useStore.getState();
+        advanceSimClock(delta, isPaused ? 0 : isSkippingToDawn ? SKIP_TO_DAWN_SCALE : timeScale);
+        if (!isPaused) {
+            stepSimulation(getSimDelta());
+        }
+    }, -1);
+
+    return null;
+};
@@ -0,0 +1,126 @@
+import { useMemo, useState } from 'react';
+import { History, X, MapPin } from 'lucide-react';
+import clsx from 'clsx';
+import { useStore } from '../store';
+import { TIMELINE_EVENT_TYPES, type TimelineEvent } from '../lib/scoring';
+import { formatClockTime } from '../lib/world';
+
+const EVENT_TYPES = Object.keys(TIMELINE_EVENT_TYPES) as TimelineEvent['type'][];
+
+const IMPORTANCE_FILTERS: { label: string; min: number }[] = [
+    { label: 'All', min: 0 },
+    { label: 'Notable', min: 0.5 },
+    { label: 'Major', min: 0.7 },
+];
+
+function displayName(id: string): string {
+    return id === 'robot' ? 'ロボット' : id;
+}
+
+// The world's history by day, newest first; events with a place fly the camera there
+export const TimelinePanel = ({ onClose }: { onClose: () => void }) => {
+    const timeline = useStore(s => s.timeline);
+    const setCameraTarget = useStore(s => s.setCameraTarget);
+    const [hiddenTypes, setHiddenTypes] = useState<Set<TimelineEvent['type']>>(new Set());
+    const [minImportance, setMinImportance] = useState(0);
+
+    const days = useMemo(() => {
+        const byDay = new Map<number, TimelineEvent[]>();
+        for (const event of timeline) {
+            if (hiddenTypes.has(event.type) || event.importance < minImportance) continue;
+            const list = byDay.get(event.day) ?? [];
+            list.push(event);
+            byDay.set(event.day, list);
+        }
+        return [...byDay.entries()].sort((a, b) => b[0] - a[0]);
+    }, [timeline, hiddenTypes, minImportance]);
+
+    const toggleType = (type: TimelineEvent['type']) => {
+        setHiddenTypes(current => {
+            const next = new Set(current);
+            if (next.has(type)) next.delete(type);
+            else next.add(type);
+            return next;
+        });
+    };
+
+    return (
+        <div className="absolute top-20 right-[248px] pointer-events-auto z-40 w-[340px] max-h-[70vh] flex flex-col bg-white/90 backdrop-blur-lg rounded-2xl shadow-xl border border-white/40 animate-fade-in-up">
+            <div className="px-4 pt-3 pb-2 border-b border-gray-100">
+                <div className="flex items-center justify-between mb-2">
+                    <span className="flex items-center gap-1.5 text-[10px] font-bold text-gray-500 uppercase tracking-widest">
+                        <History size={14} />
+                        Timeline
+                    </span>
+                    <button onClick={onClose}><X size={16} className="text-gray-400 hover:text-gray-800" /></button>
+                </div>
+                <div className="flex flex-wrap gap-1 mb-1.5">
+                    {EVENT_TYPES.map(type => (
+                        <button
+                            key={type}
+                            onClick={() => toggleType(type)}
+                            className={clsx(
+                                "px-2 py-0.5 rounded-full text-[10px] font-bold transition-colors",
+                                hiddenTypes.has(type) ? "bg-gray-100 text-gray-300" : "bg-gray-800 text-white"
+                            )}
+                        >
+                            {TIMELINE_EVENT_TYPES[type].icon} {TIMELINE_EVENT_TYPES[type].label}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex items-center gap-1">
+                    {IMPORTANCE_FILTERS.map(filter => (
+                        <button
+                            key={filter.label}
+                            onClick={() => setMinImportance(filter.min)}
+                            className={clsx(
+                                "px-2 py-0.5 rounded text-[9px] font-bold uppercase tracking-widest transition-colors",
+                                minImportance === filter.min ? "bg-amber-100 text-amber-700" : "text-gray-400 hover:bg-gray-100"
+                            )}
+                        >
+                            {filter.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="overflow-y-auto px-4 py-2 space-y-3 scrollbar-thin scrollbar-thumb-gray-200">
+                {days.length === 0 && (
+                    <p className="text-xs text-gray-400 py-4 text-center">該当する出来事はありません</p>
+                )}
+                {days.map(([day, events]) => (
+                    <div key={day}>
+                        <div className="text-[10px] font-mono font-bold text-gray-400 uppercase tracking-widest mb-1">Day {day}</div>
+                        <ul className="space-y-0.5">
+                            {events.map((event, i) => {
+                                const { position } = event;
+                                return (
+                                    <li key={i}>
+                                        <button
+                                            onClick={() => position && setCameraTarget({ x: position.x, y: 2, z: position.z })}
+                                            disabled={!position}
+                                            className="w-full flex items-start gap-2 px-2 py-1 rounded-lg text-left text-xs enabled:hover:bg-gray-100 transition-colors"
+                                            title={position ? 'Fly to Event' : undefined}
+                                        >
+                                            <span className="shrink-0">{TIMELINE_EVENT_TYPES[event.type].icon}</span>
+                                            <span className="flex-1 min-w-0">
+                                                <span className={clsx("block", event.importance >= 0.7 ? "font-bold text-gray-800" : "text-gray-600")}>
+                                                    {event.description}
+                                                </span>
+                                                <span className="block text-[10px] text-gray-400 font-mono truncate">
+                                                    {formatClockTime(event.time)}
+                                                    {event.entities && event.entities.length > 0 && ` · ${event.entities.map(displayName).join(', ')}`}
+                                                </span>
+                                            </span>
+                                            {position && <MapPin size={12} className="shrink-0 mt-0.5 text-orange-400" />}
+                                        </button>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
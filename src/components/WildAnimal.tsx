@@ -2,9 +2,11 @@ import { useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { Vector3, Quaternion } from 'three';
 import { RigidBody, type RapierRigidBody } from '@react-three/rapier';
-import { useStore, createMemory } from '../store';
+import { useStore } from '../store';
 import type { WildAnimalDef } from '../lib/wildAnimals';
 import { getTerrainHeight } from '../lib/terrain';
+import { getSimTime, getMovementScale, isSimPaused } from '../lib/simClock';
+import { reportBody, getMotion } from '../simulation';
 
 interface WildAnimalProps {
     def: WildAnimalDef;
@@ -12,25 +14,22 @@ interface WildAnimalProps {
     id: string;
 }
 
-type AnimalState = 'idle' | 'wander' | 'flee' | 'forage' | 'rest' | 'chase' | 'attack';
-
 export const WildAnimal = ({ def, position, id }: WildAnimalProps) => {
     const rigidRef = useRef<RapierRigidBody>(null!);
-    const stateRef = useRef<AnimalState>('idle');
-    const targetPos = useRef(new Vector3(position[0], position[1], position[2]));
-    const homePos = useRef(new Vector3(position[0], position[1], position[2]));
-    const nextDecision = useRef(Math.random() * 3);
     const wingAngle = useRef(0);
-    const chaseTargetId = useRef<string | null>(null);
-    const lastAttackTime = useRef(0);
 
-    useFrame((state) => {
-        const t = state.clock.getElapsedTime();
+    useFrame(() => {
         if (!rigidRef.current) return;
+        const t = getSimTime();
 
         const currentTranslation = rigidRef.current.translation();
         const currentPos = new Vector3(currentTranslation.x, currentTranslation.y, currentTranslation.z);
 
+        // Position reporting
+        reportBody(id, currentPos.x, currentPos.y, currentPos.z);
+
+        if (isSimPaused()) return;
+
         // Safety reset
         if (currentPos.y < -5) {
             rigidRef.current.setTranslation({ x: position[0], y: 5, z: position[2] }, true);
@@ -38,210 +37,36 @@ export const WildAnimal = ({ def, position, id }: WildAnimalProps) => {
             return;
         }
 
-        const store = useStore.getState();
-        const positions = store.entityPositions;
-
-        // --- Aggressive (wolf) behavior ---
-        if (def.aggressive && def.chaseDistance && def.attackRange && def.attackDamage) {
-            // Find nearest prey (critters, rabbits, deer - not other wolves or robot)
-            let nearestPreyId: string | null = null;
-            let nearestPreyDist = Infinity;
-            let nearestPreyPos: { x: number; z: number } | null = null;
-
-            for (const [entityId, pos] of Object.entries(positions)) {
-                if (entityId === id) continue;
-                if (entityId.startsWith('wolf-')) continue; // don't chase other wolves
-                if (entityId === 'robot') continue; // don't chase robot
-                // Only chase critters, rabbits, and deer
-                const isCritter = entityId.startsWith('Critter-');
-                const isRabbit = entityId.startsWith('rabbit-');
-                const isDeer = entityId.startsWith('deer-');
-                if (!isCritter && !isRabbit && !isDeer) continue;
-
-                const dx = pos.x - currentPos.x;
-                const dz = pos.z - currentPos.z;
-                const dist = Math.sqrt(dx * dx + dz * dz);
-                if (dist < def.chaseDistance && dist < nearestPreyDist) {
-                    nearestPreyDist = dist;
-                    nearestPreyId = entityId;
-                    nearestPreyPos = pos;
-                }
-            }
-
-            if (nearestPreyId && nearestPreyPos) {
-                if (nearestPreyDist < def.attackRange) {
-                    // Attack!
-                    stateRef.current = 'attack';
-                    chaseTargetId.current = nearestPreyId;
-                    rigidRef.current.setLinvel({ x: 0, y: rigidRef.current.linvel().y, z: 0 }, true);
-
-                    // Deal damage (throttled to every 2 seconds)
-                    if (t - lastAttackTime.current > 2.0) {
-                        lastAttackTime.current = t;
-
-                        if (nearestPreyId.startsWith('Critter-')) {
-                            // Damage critter lifecycle
-                            const lifecycle = store.entityLifecycles[nearestPreyId];
-                            if (lifecycle && lifecycle.healthStatus !== 'dead') {
-                                store.updateEntityLifecycle(nearestPreyId, {
-                                    ...lifecycle,
-                                    health: Math.max(0, lifecycle.health - def.attackDamage),
-                                    healthStatus: lifecycle.health - def.attackDamage <= 0 ? 'dead' : lifecycle.health - def.attackDamage < 0.2 ? 'dying' : lifecycle.healthStatus,
-                                });
-
-                                // Add memory for critter
-                                store.addCritterMemory(nearestPreyId, createMemory(
-                                    `狼に攻撃された！痛い！`,
-                                    'event',
-                                    [id, nearestPreyId],
-                                    0.9,
-                                    0.8
-                                ));
-
-                                // Add memory for robot if nearby
-                                const robotPos = positions['robot'];
-                                if (robotPos) {
-                                    const robotDist = Math.sqrt(
-                                        (robotPos.x - currentPos.x) ** 2 + (robotPos.z - currentPos.z) ** 2
-                                    );
-                                    if (robotDist < 30) {
-                                        store.addRobotMemory(createMemory(
-                                            `狼が${nearestPreyId}を攻撃している`,
-                                            'event',
-                                            [id, nearestPreyId],
-                                            0.7
-                                        ));
-                                    }
-                                }
-                            }
-                        }
-                        // For wild animals (rabbit, deer) we can't damage them since they don't have lifecycle
-                    }
-                } else {
-                    // Chase
-                    stateRef.current = 'chase';
-                    chaseTargetId.current = nearestPreyId;
-                    targetPos.current.set(nearestPreyPos.x, 0.5, nearestPreyPos.z);
-                }
-            } else {
-                chaseTargetId.current = null;
-                // No prey nearby - normal wander behavior
-                if (t > nextDecision.current) {
-                    const roll = Math.random();
-                    if (roll < 0.3) {
-                        stateRef.current = 'idle';
-                        nextDecision.current = t + 3 + Math.random() * 5;
-                    } else if (roll < 0.7) {
-                        stateRef.current = 'wander';
-                        const r = def.wanderRadius;
-                        targetPos.current.set(
-                            homePos.current.x + (Math.random() - 0.5) * r * 2,
-                            0.5,
-                            homePos.current.z + (Math.random() - 0.5) * r * 2
-                        );
-                        nextDecision.current = t + 5 + Math.random() * 8;
-                    } else {
-                        stateRef.current = 'rest';
-                        nextDecision.current = t + 8 + Math.random() * 12;
-                    }
-                }
-            }
-        } else {
-            // --- Non-aggressive animal behavior (deer, rabbit, bird) ---
-            let nearestThreatDist = Infinity;
-            const threatDir = new Vector3();
-
-            for (const [entityId, pos] of Object.entries(positions)) {
-                if (entityId === id) continue;
-                // Flee from wolves too
-                const isWolf = entityId.startsWith('wolf-');
-                const isOther = true;
-                if (!isWolf && !isOther) continue;
-
-                const dx = pos.x - currentPos.x;
-                const dz = pos.z - currentPos.z;
-                const dist = Math.sqrt(dx * dx + dz * dz);
-                // Flee from wolves at greater distance
-                const fleeDist = isWolf ? def.fleeDistance * 1.5 : def.fleeDistance;
-                if (dist < fleeDist && dist < nearestThreatDist) {
-                    nearestThreatDist = dist;
-                    threatDir.set(-dx, 0, -dz).normalize();
-                }
-            }
-
-            // State machine
-            if (nearestThreatDist < def.fleeDistance * 1.5) {
-                stateRef.current = 'flee';
-                targetPos.current.set(
-                    currentPos.x + threatDir.x * 15,
-                    def.flightHeight ? def.flightHeight[1] : 0.5,
-                    currentPos.z + threatDir.z * 15
-                );
-            } else if (t > nextDecision.current) {
-                const roll = Math.random();
-                if (roll < 0.3) {
-                    stateRef.current = 'idle';
-                    nextDecision.current = t + 3 + Math.random() * 5;
-                } else if (roll < 0.7) {
-                    stateRef.current = 'wander';
-                    const r = def.wanderRadius;
-                    targetPos.current.set(
-                        homePos.current.x + (Math.random() - 0.5) * r * 2,
-                        def.flightHeight ? def.flightHeight[0] + Math.random() * (def.flightHeight[1] - def.flightHeight[0]) : 0.5,
-                        homePos.current.z + (Math.random() - 0.5) * r * 2
-                    );
-                    nextDecision.current = t + 5 + Math.random() * 8;
-                } else {
-                    stateRef.current = 'rest';
-                    nextDecision.current = t + 8 + Math.random() * 12;
-                }
-            }
-        }
-
-        // Movement
-        const aState = stateRef.current;
-        if (aState === 'idle' || aState === 'rest' || aState === 'attack') {
+        // Movement (behavior is decided by the simulation kernel)
+        // Physics runs in real time, so scale velocity with the simulation speed
+        const motion = getMotion(id);
+        const scale = getMovementScale();
+        if (motion.x === 0 && motion.z === 0 && motion.y === 0) {
             rigidRef.current.setLinvel({ x: 0, y: rigidRef.current.linvel().y, z: 0 }, true);
         } else {
-            const dir = targetPos.current.clone().sub(currentPos).normalize();
-            const speed = (aState === 'flee' || aState === 'chase') ? def.speed * 1.5 : def.speed;
-            const dist = currentPos.distanceTo(targetPos.current);
-
-            if (dist < 1.0 && aState !== 'chase') {
-                stateRef.current = 'idle';
-                nextDecision.current = t + 2 + Math.random() * 3;
-                rigidRef.current.setLinvel({ x: 0, y: rigidRef.current.linvel().y, z: 0 }, true);
+            if (def.flightHeight) {
+                // Flying animal - set full 3D velocity
+                rigidRef.current.setLinvel({
+                    x: motion.x * scale,
+                    y: motion.y * scale,
+                    z: motion.z * scale
+                }, true);
             } else {
-                if (def.flightHeight) {
-                    // Flying animal - set full 3D velocity
-                    rigidRef.current.setLinvel({
-                        x: dir.x * speed,
-                        y: dir.y * speed * 0.3,
-                        z: dir.z * speed
-                    }, true);
-                } else if (def.species === 'rabbit') {
-                    // Hopping movement
-                    rigidRef.current.setLinvel({
-                        x: dir.x * speed,
-                        y: rigidRef.current.linvel().y,
-                        z: dir.z * speed
-                    }, true);
-                    if (Math.random() < 0.03) {
-                        rigidRef.current.applyImpulse({ x: 0, y: 0.4, z: 0 }, true);
-                    }
-                } else {
-                    rigidRef.current.setLinvel({
-                        x: dir.x * speed,
-                        y: rigidRef.current.linvel().y,
-                        z: dir.z * speed
-                    }, true);
+                rigidRef.current.setLinvel({
+                    x: motion.x * scale,
+                    y: rigidRef.current.linvel().y,
+                    z: motion.z * scale
+                }, true);
+                // Hopping movement
+                if (def.species === 'rabbit' && Math.random() < 0.03) {
+                    rigidRef.current.applyImpulse({ x: 0, y: 0.4, z: 0 }, true);
                 }
-
-                // Rotation
-                const angle = Math.atan2(dir.x, dir.z);
-                const q = new Quaternion().setFromAxisAngle(new Vector3(0, 1, 0), angle);
-                rigidRef.current.setRotation(q, true);
             }
+
+            // Rotation
+            const angle = Math.atan2(motion.x, motion.z);
+            const q = new Quaternion().setFromAxisAngle(new Vector3(0, 1, 0), angle);
+            rigidRef.current.setRotation(q, true);
         }
 
         // Wing animation for birds
@@ -260,9 +85,6 @@ export const WildAnimal = ({ def, position, id }: WildAnimalProps) => {
                 );
             }
         }
-
-        // Position reporting
-        store.updateEntityPosition(id, currentPos.x, currentPos.z);
     });
 
     return (
@@ -278,7 +100,13 @@ export const WildAnimal = ({ def, position, id }: WildAnimalProps) => {
             gravityScale={def.flightHeight ? 0 : 1}
             userData={{ type: 'wild_animal', name: id, species: def.species }}
         >
-            <group scale={[def.scale, def.scale, def.scale]}>
+            <group
+                scale={[def.scale, def.scale, def.scale]}
+                onClick={(e) => {
+                    e.stopPropagation();
+                    useStore.getState().selectEntity(id);
+                }}
+            >
                 {def.species === 'deer' && <DeerModel color={def.color} />}
                 {def.species === 'bird' && <BirdModel color={def.color} wingAngle={wingAngle.current} />}
                 {def.species === 'rabbit' && <RabbitModel color={def.color} />}
@@ -3,14 +3,25 @@ import { HeightfieldCollider, RigidBody } from "@react-three/rapier";
 import { useStore } from "../store";
 import { useMemo, useRef } from "react";
 import * as THREE from "three";
-import { useFrame } from "@react-three/fiber";
+import { useFrame, type ThreeEvent } from "@react-three/fiber";
 import { getBiomeParamsAt } from "../lib/biomes";
 import { getTerrainHeight } from "../lib/terrain";
+import { applySandboxTool } from "../lib/sandbox";
+import { intervene } from "../simulation";
 
 const TERRAIN_SIZE = 200;
 const TERRAIN_SEGMENTS = 128;
 const TERRAIN_VERTICES = TERRAIN_SEGMENTS + 1; // 129
 
+// While a sandbox tool is picked, clicking the ground uses it there
+function applySandboxToolAt(e: ThreeEvent<MouseEvent>): void {
+    const tool = useStore.getState().sandboxTool;
+    // A click that ends a camera drag is not a placement
+    if (!tool || e.delta > 4) return;
+    e.stopPropagation();
+    intervene(world => applySandboxTool(world, tool, e.point.x, e.point.z));
+}
+
 export const World = () => {
     const time = useStore((state) => state.time);
     const weather = useStore((state) => state.weather);
@@ -227,7 +238,7 @@ export const World = () => {
                         { x: TERRAIN_SIZE, y: 1, z: TERRAIN_SIZE }
                     ]}
                 />
-                <mesh receiveShadow rotation={[-Math.PI / 2, 0, 0]}>
+                <mesh receiveShadow rotation={[-Math.PI / 2, 0, 0]} onClick={applySandboxToolAt}>
                     <planeGeometry args={[TERRAIN_SIZE, TERRAIN_SIZE, TERRAIN_SEGMENTS, TERRAIN_SEGMENTS]} onUpdate={(self) => {
                         const pos = self.attributes.position;
 
@@ -4,17 +4,41 @@ import type { EmotionState } from './emotions';
 import { getAffinity, shouldApproach, type RelationshipMap } from './relationships';
 
 import type { Desire } from './needs';
+import { random } from './random';
+import { getGameMinutes } from './simClock';
 
-export type Activity = 'idle' | 'explore' | 'forage' | 'rest' | 'socialize' | 'flee' | 'patrol' | 'seek_resource';
+export type Activity = 'idle' | 'explore' | 'forage' | 'rest' | 'socialize' | 'flee' | 'patrol' | 'seek_resource' | 'build' | 'craft';
+
+// Where an LLM thought wants to go (ThoughtResult.target_direction)
+export const TARGET_DIRECTIONS = ['north', 'south', 'east', 'west', 'nearby_entity', 'resource', 'random'] as const;
+export type TargetDirection = typeof TARGET_DIRECTIONS[number];
+export type CompassDirection = 'north' | 'south' | 'east' | 'west';
 
 export interface ActivityState {
     current: Activity;
-    startedAt: number;
-    duration: number; // target duration in seconds
+    startedAt: number; // game minutes (simClock)
+    duration: number; // target duration in game minutes
     targetEntityId?: string; // for socialize/flee
     targetResourceId?: string; // for seek_resource
+    targetBuildingId?: string; // for build / craft (workshop)
+    recipeId?: string; // for craft
+    targetDirection?: TargetDirection; // spatial intent from the LLM, if any
+    targetPosition?: { x: number; z: number }; // where the entity actually headed
 }
 
+export const ACTIVITY_LABELS: Record<Activity, string> = {
+    idle: '待機',
+    explore: '探索',
+    forage: '採餌',
+    rest: '休息',
+    socialize: '交流',
+    flee: '逃走',
+    patrol: '巡回',
+    seek_resource: '資源探し',
+    build: '建設',
+    craft: '製作',
+};
+
 export interface MovementPattern {
     wanderRadius: number;
     speedMultiplier: number;
@@ -31,27 +55,58 @@ const ACTIVITY_PATTERNS: Record<Activity, MovementPattern> = {
     flee:          { wanderRadius: 0,  speedMultiplier: 1.8,  pauseChance: 0.0,  homeAffinity: 0.9 },
     patrol:        { wanderRadius: 35, speedMultiplier: 0.9,  pauseChance: 0.15, homeAffinity: 0.4 },
     seek_resource: { wanderRadius: 50, speedMultiplier: 1.1,  pauseChance: 0.05, homeAffinity: 0.0 },
+    build:         { wanderRadius: 0,  speedMultiplier: 1.0,  pauseChance: 1.0,  homeAffinity: 0.0 },
+    craft:         { wanderRadius: 0,  speedMultiplier: 1.0,  pauseChance: 1.0,  homeAffinity: 0.0 },
 };
 
 export function getActivityMovementPattern(activity: Activity): MovementPattern {
     return ACTIVITY_PATTERNS[activity];
 }
 
-// Default durations per activity (in seconds)
+// Compass headings in world space: the sun rises at +x (east), so north is -z
+const COMPASS_HEADINGS: Record<CompassDirection, { x: number; z: number }> = {
+    north: { x: 0, z: -1 },
+    south: { x: 0, z: 1 },
+    east:  { x: 1, z: 0 },
+    west:  { x: -1, z: 0 },
+};
+
+export function isCompassDirection(direction: TargetDirection): direction is CompassDirection {
+    return direction in COMPASS_HEADINGS;
+}
+
+// Wander target biased toward a compass heading: mostly forward, with some sideways jitter
+export function getDirectionalWanderTarget(
+    origin: { x: number; z: number },
+    direction: CompassDirection,
+    radius: number
+): { x: number; z: number } {
+    const heading = COMPASS_HEADINGS[direction];
+    const forward = radius * (0.5 + random() * 0.5);
+    const side = (random() - 0.5) * radius * 0.6;
+    return {
+        x: origin.x + heading.x * forward - heading.z * side,
+        z: origin.z + heading.z * forward + heading.x * side,
+    };
+}
+
+// Default durations per activity (in game minutes)
 const ACTIVITY_DURATIONS: Record<Activity, [number, number]> = {
-    idle:          [3, 8],
-    explore:       [10, 25],
-    forage:        [8, 20],
-    rest:          [15, 40],
-    socialize:     [8, 15],
-    flee:          [5, 10],
-    patrol:        [10, 20],
-    seek_resource: [10, 30],
+    idle:          [9, 24],
+    explore:       [30, 75],
+    forage:        [24, 60],
+    rest:          [45, 120],
+    socialize:     [24, 45],
+    flee:          [15, 30],
+    patrol:        [30, 60],
+    seek_resource: [30, 90],
+    build:         [90, 540],
+    craft:         [30, 120],
 };
 
 function randomDuration(activity: Activity): number {
     const [min, max] = ACTIVITY_DURATIONS[activity];
-    return min + Math.random() * (max - min);
+    return min + random() * (max - min);
 }
 
 export function selectNextActivity(
@@ -63,7 +118,7 @@ export function selectNextActivity(
     nearbyEntities: { id: string; distance: number }[],
     desires?: Desire[]
 ): ActivityState {
-    const now = Date.now() / 1000;
+    const now = getGameMinutes();
     const isNight = time < 5 || time > 21;
     const isRaining = weather === 'rainy';
 
@@ -82,14 +137,14 @@ export function selectNextActivity(
 
     // Night + low energy → rest (high probability)
     if (isNight && emotion.energy < 0.4) {
-        if (Math.random() < 0.85) {
+        if (random() < 0.85) {
             return { current: 'rest', startedAt: now, duration: randomDuration('rest') };
         }
     }
 
     // Rain + high fear → flee toward home
     if (isRaining && emotion.fear > 0.3) {
-        if (Math.random() < 0.5) {
+        if (random() < 0.5) {
             return { current: 'flee', startedAt: now, duration: randomDuration('flee') };
         }
     }
@@ -100,7 +155,7 @@ export function selectNextActivity(
         return shouldApproach(aff) && e.distance < 15;
     });
     if (friends.length > 0 && emotion.happiness > 0.3 && emotion.energy > 0.3) {
-        if (Math.random() < 0.4) {
+        if (random() < 0.4) {
             return {
                 current: 'socialize',
                 startedAt: now,
@@ -113,27 +168,27 @@ export function selectNextActivity(
     // Explore is common — curiosity or just feeling energetic
     if (!isNight && emotion.energy > 0.3) {
         const exploreChance = emotion.curiosity > 0.4 ? 0.45 : 0.25;
-        if (Math.random() < exploreChance) {
+        if (random() < exploreChance) {
             return { current: 'explore', startedAt: now, duration: randomDuration('explore') };
         }
     }
 
     // Territorial + angry → patrol
     if (emotion.anger > 0.25 && emotion.energy > 0.3) {
-        if (Math.random() < 0.25) {
+        if (random() < 0.25) {
             return { current: 'patrol', startedAt: now, duration: randomDuration('patrol') };
         }
     }
 
     // Low energy → rest
     if (emotion.energy < 0.25) {
-        if (Math.random() < 0.6) {
+        if (random() < 0.6) {
             return { current: 'rest', startedAt: now, duration: randomDuration('rest') };
         }
     }
 
     // Default: forage, explore, or idle (spread out)
-    const roll = Math.random();
+    const roll = random();
     if (roll < 0.4) {
         return { current: 'forage', startedAt: now, duration: randomDuration('forage') };
     } else if (roll < 0.65) {
@@ -146,6 +201,6 @@ export function selectNextActivity(
 // Check if it's time to switch activities
 export function shouldSwitchActivity(activity: ActivityState | undefined): boolean {
     if (!activity) return true;
-    const elapsed = Date.now() / 1000 - activity.startedAt;
+    const elapsed = getGameMinutes() - activity.startedAt;
     return elapsed >= activity.duration;
 }
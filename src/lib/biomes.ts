@@ -46,6 +46,14 @@ const BIOME_PARAMS: Record<BiomeType, BiomeParams> = {
 
 const BIOME_TYPES: BiomeType[] = ['plains', 'crystal_forest', 'mushroom_grove', 'rocky_desert', 'wetlands'];
 
+export const BIOME_LABELS: Record<BiomeType, string> = {
+    plains: '平原',
+    crystal_forest: '結晶の森',
+    mushroom_grove: 'キノコの森',
+    rocky_desert: '岩石砂漠',
+    wetlands: '湿地',
+};
+
 export function getBiomeAt(x: number, z: number): BiomeType {
     // Use noise at a large scale to create biome regions
     const n = noise2D(x * 0.015, z * 0.015);
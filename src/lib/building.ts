@@ -4,6 +4,7 @@
  */
 
 import type { ResourceNode } from './resources';
+import { random } from './random';
 
 // ========================================
 // Types
@@ -26,6 +27,7 @@ export interface Building {
     chargeRate?: number; // Battery % per second
     repairRate?: number; // Durability % per second
     temperatureControl?: number; // Temperature stabilization
+    craftingSpeed?: number; // Crafting speed multiplier
   };
   requiredMaterials: {
     fiber?: number;
@@ -119,6 +121,7 @@ export const BUILDING_TEMPLATES: Record<BuildingType, Omit<Building, 'id' | 'pos
     effects: {
       repairRate: 0.1, // 10% durability per second
       shelterProtection: 0.5,
+      craftingSpeed: 2,
     },
     requiredMaterials: {
       scrap_metal: 20,
@@ -140,7 +143,7 @@ export function createBuilding(
   const template = BUILDING_TEMPLATES[type];
   return {
     ...template,
-    id: `building_${type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    id: `building_${type}_${random().toString(36).slice(2, 11)}`,
     position,
     built: false,
     constructionProgress: 0,
@@ -168,6 +171,70 @@ export function canBuildHere(
   return true;
 }
 
+export function findBuildSite(
+  origin: { x: number; z: number },
+  existingBuildings: Building[],
+  resources: ResourceNode[] = [],
+  minDistance: number = 5
+): { x: number; z: number } | null {
+  // Spiral outward from the origin, trying 8 directions per ring
+  for (let ring = 1; ring <= 4; ring++) {
+    const dist = ring * 4;
+    for (let i = 0; i < 8; i++) {
+      const angle = (i / 8) * Math.PI * 2 + ring * 0.4;
+      const candidate = {
+        x: origin.x + Math.cos(angle) * dist,
+        z: origin.z + Math.sin(angle) * dist,
+      };
+      if (!canBuildHere(candidate, existingBuildings, minDistance)) continue;
+
+      // Keep resource nodes accessible
+      const blocksResource = resources.some(r => {
+        const dx = r.position.x - candidate.x;
+        const dz = r.position.z - candidate.z;
+        return Math.sqrt(dx * dx + dz * dz) < 4;
+      });
+      if (blocksResource) continue;
+
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Distance from the building centre where a worker stands while building
+ */
+export function getBuildStandoff(building: Building): number {
+  return Math.max(2, building.radius * 0.6);
+}
+
+const BUILD_DIRECTIVE_KEYWORDS: Record<BuildingType, string[]> = {
+  tent: ['テント', 'tent'],
+  storage: ['倉庫', 'storage'],
+  charging_station: ['充電ステーション', '充電所', 'charging'],
+  wooden_shelter: ['シェルター', '小屋', 'shelter'],
+  workshop: ['作業場', '工房', 'workshop'],
+};
+
+/**
+ * Parse a user directive like "テントを建てて" into a building type
+ */
+export function parseBuildDirective(directive: string): BuildingType | null {
+  const text = directive.toLowerCase();
+  const wantsBuild = ['建て', '建設', '作って', 'つくって', 'build', 'construct'].some(k => text.includes(k));
+  if (!wantsBuild) return null;
+
+  for (const [type, keywords] of Object.entries(BUILD_DIRECTIVE_KEYWORDS) as [BuildingType, string[]][]) {
+    if (keywords.some(k => text.includes(k.toLowerCase()))) {
+      return type;
+    }
+  }
+
+  return null;
+}
+
 export function hasRequiredMaterials(
   building: Building,
   inventory: Record<string, number>
@@ -319,6 +386,9 @@ export function getBuildingDescription(building: Building): string {
   if (building.effects.temperatureControl) {
     effectsDesc.push(`温度調整: ${(building.effects.temperatureControl * 100).toFixed(0)}%`);
   }
+  if (building.effects.craftingSpeed) {
+    effectsDesc.push(`製作速度: ×${building.effects.craftingSpeed}`);
+  }
 
   const materialsDesc = Object.entries(building.requiredMaterials)
     .map(([mat, amt]) => `${mat}×${amt}`)
@@ -0,0 +1,167 @@
+/**
+ * Camera Modes & Auto-Director
+ * The director turns what is happening in the world (dialogues, fights,
+ * births, catastrophes) into candidate shots, holds each shot for a while
+ * and cuts to whichever is most important.
+ */
+
+import type { TimelineEvent } from './scoring';
+
+// ========================================
+// Camera Modes
+// ========================================
+
+export type CameraMode = 'orbit' | 'follow' | 'first_person' | 'director';
+
+export const CAMERA_MODES: { mode: CameraMode; label: string; key: string }[] = [
+    { mode: 'orbit', label: '自由視点', key: '1' },
+    { mode: 'follow', label: '追従', key: '2' },
+    { mode: 'first_person', label: 'ロボット視点', key: '3' },
+    { mode: 'director', label: '自動演出', key: '4' },
+];
+
+// ========================================
+// Shots
+// ========================================
+
+export type ShotKind = 'birth' | 'death' | 'fight' | 'catastrophe' | 'dialogue' | 'idle';
+
+export interface DirectorShot {
+    key: string; // the same situation keeps the same key across evaluations
+    kind: ShotKind;
+    subjects: string[]; // entities to frame; the camera centres on those with a body
+    position: { x: number; z: number } | null; // where to look when no subject has a body
+    importance: number; // 0-1
+    label: string;
+}
+
+// Camera offset from the framed point, per kind of shot
+export const SHOT_FRAMING: Record<ShotKind, { height: number; distance: number }> = {
+    birth: { height: 4, distance: 6 },
+    death: { height: 5, distance: 8 },
+    fight: { height: 7, distance: 10 },
+    catastrophe: { height: 22, distance: 30 },
+    dialogue: { height: 4, distance: 7 },
+    idle: { height: 10, distance: 14 },
+};
+
+export const MIN_SHOT_SECONDS = 5;
+export const MAX_SHOT_SECONDS = 18;
+// A rival shot must beat the current one by this much to cut early
+const CUT_MARGIN = 0.15;
+// Timeline events stay worth a shot for this long (game minutes)
+const RECENT_EVENT_MINUTES = 30;
+
+export interface DirectorInput {
+    gameMinutes: number;
+    dialogues: { speakerId: string; targetId?: string }[];
+    fights: { attackerId: string; targetId: string | null; attacking: boolean }[];
+    timeline: TimelineEvent[];
+    catastrophe: string | null; // name of the active weather event
+    nameOf: (id: string) => string;
+}
+
+// Everything currently worth looking at
+export function collectShots(input: DirectorInput): DirectorShot[] {
+    const { nameOf } = input;
+    const shots: DirectorShot[] = [];
+
+    for (const event of input.timeline) {
+        if (input.gameMinutes - event.gameMinutes > RECENT_EVENT_MINUTES) continue;
+        if (event.type !== 'birth' && event.type !== 'death' && event.type !== 'catastrophe') continue;
+        shots.push({
+            key: `${event.type}:${event.gameMinutes}:${event.description}`,
+            kind: event.type,
+            subjects: event.type === 'catastrophe' ? ['robot'] : event.entities ?? [],
+            position: event.position ?? null,
+            // Fresh news outranks ongoing activity
+            importance: Math.min(1, event.importance + 0.3),
+            label: event.description,
+        });
+    }
+
+    for (const fight of input.fights) {
+        shots.push({
+            key: `fight:${fight.attackerId}`,
+            kind: 'fight',
+            subjects: fight.targetId ? [fight.attackerId, fight.targetId] : [fight.attackerId],
+            position: null,
+            importance: fight.attacking ? 0.8 : 0.55,
+            label: fight.targetId
+                ? `${nameOf(fight.attackerId)}が${nameOf(fight.targetId)}を${fight.attacking ? '攻撃中' : '追跡中'}`
+                : `${nameOf(fight.attackerId)}が獲物を探している`,
+        });
+    }
+
+    if (input.catastrophe) {
+        shots.push({
+            key: `catastrophe:${input.catastrophe}`,
+            kind: 'catastrophe',
+            subjects: ['robot'],
+            position: null,
+            importance: 0.6,
+            label: `${input.catastrophe}が襲来中`,
+        });
+    }
+
+    for (const dialogue of input.dialogues) {
+        const pair = dialogue.targetId ? [dialogue.speakerId, dialogue.targetId].sort() : [dialogue.speakerId];
+        const key = `dialogue:${pair.join(':')}`;
+        if (shots.some(shot => shot.key === key)) continue;
+        shots.push({
+            key,
+            kind: 'dialogue',
+            subjects: pair,
+            position: null,
+            importance: pair.includes('robot') ? 0.5 : 0.45,
+            label: pair.length > 1 ? `${nameOf(pair[0])}と${nameOf(pair[1])}の会話` : `${nameOf(pair[0])}の独り言`,
+        });
+    }
+
+    // Nothing going on: watch the robot go about its day
+    shots.push({ key: 'idle', kind: 'idle', subjects: ['robot'], position: null, importance: 0.1, label: `${nameOf('robot')}の様子` });
+
+    return shots;
+}
+
+// ========================================
+// Director
+// ========================================
+
+export interface DirectorState {
+    current: DirectorShot | null;
+    startedAt: number; // seconds (caller's clock)
+}
+
+export function createDirectorState(): DirectorState {
+    return { current: null, startedAt: 0 };
+}
+
+/**
+ * Choose the shot to show now. Shots are held for at least MIN_SHOT_SECONDS,
+ * then cut when something clearly more important happens or after
+ * MAX_SHOT_SECONDS when anything else is on. Mutates the state.
+ */
+export function directShot(state: DirectorState, shots: DirectorShot[], now: number): DirectorShot | null {
+    const ranked = [...shots].sort((a, b) => b.importance - a.importance);
+    const best = ranked[0] ?? null;
+    const current = state.current && ranked.find(shot => shot.key === state.current!.key);
+
+    if (!current) {
+        state.current = best;
+        state.startedAt = now;
+        return best;
+    }
+
+    state.current = current;
+    const held = now - state.startedAt;
+    if (held < MIN_SHOT_SECONDS) return current;
+
+    const rival = ranked.find(shot => shot.key !== current.key && shot.kind !== 'idle');
+    if (rival && (rival.importance > current.importance + CUT_MARGIN || held > MAX_SHOT_SECONDS)) {
+        state.current = rival;
+        state.startedAt = now;
+        return rival;
+    }
+    return current;
+}
@@ -0,0 +1,159 @@
+/**
+ * Crafting System - Turn gathered materials into tools and parts
+ * Phase 1: Recipes are crafted by the robot, faster inside a workshop
+ */
+
+import { getBuildingEffect, type Building } from './building';
+
+// ========================================
+// Types
+// ========================================
+
+export type RecipeId = 'tool' | 'high_quality_parts' | 'repair_kit';
+
+export interface Recipe {
+  id: RecipeId;
+  name: string;
+  inputs: Record<string, number>;
+  outputs: Record<string, number>;
+  craftTime: number; // seconds without a workshop
+  description: string;
+}
+
+// ========================================
+// Recipe Registry
+// ========================================
+
+export const RECIPES: Record<RecipeId, Recipe> = {
+  tool: {
+    id: 'tool',
+    name: '道具',
+    inputs: { scrap_metal: 2, fiber: 2 },
+    outputs: { tool: 1 },
+    craftTime: 20,
+    description: '道具が必要な資源（クリスタルなど）を採取できるようになる',
+  },
+  high_quality_parts: {
+    id: 'high_quality_parts',
+    name: '高品質パーツ',
+    inputs: { scrap_metal: 3 },
+    outputs: { high_quality_parts: 1 },
+    craftTime: 30,
+    description: 'スクラップを精錬して高品質な部品を作る',
+  },
+  repair_kit: {
+    id: 'repair_kit',
+    name: '修理キット',
+    inputs: { crystal: 1, high_quality_parts: 1 },
+    outputs: { repair_kit: 1 },
+    craftTime: 40,
+    description: '耐久性が下がったときに自己修復に使える',
+  },
+};
+
+// Inventory items shown in the HUD (tool only appears once owned)
+export const INVENTORY_ITEMS: { key: string; label: string; icon: string; alwaysShow: boolean }[] = [
+  { key: 'fiber', label: '繊維', icon: '🌿', alwaysShow: true },
+  { key: 'scrap_metal', label: 'スクラップ', icon: '🔩', alwaysShow: true },
+  { key: 'crystal', label: 'クリスタル', icon: '💎', alwaysShow: true },
+  { key: 'high_quality_parts', label: '高品質パーツ', icon: '⚙️', alwaysShow: true },
+  { key: 'tool', label: '道具', icon: '🛠️', alwaysShow: false },
+  { key: 'repair_kit', label: '修理キット', icon: '🧰', alwaysShow: false },
+];
+
+// ========================================
+// Crafting
+// ========================================
+
+export function canCraft(recipe: Recipe, inventory: Record<string, number>): boolean {
+  for (const [item, amount] of Object.entries(recipe.inputs)) {
+    if ((inventory[item] || 0) < amount) {
+      return false;
+    }
+  }
+  return true;
+}
+
+export function consumeIngredients(
+  recipe: Recipe,
+  inventory: Record<string, number>
+): Record<string, number> {
+  const newInventory = { ...inventory };
+
+  for (const [item, amount] of Object.entries(recipe.inputs)) {
+    newInventory[item] = (newInventory[item] || 0) - amount;
+  }
+
+  return newInventory;
+}
+
+export function addCraftOutputs(
+  recipe: Recipe,
+  inventory: Record<string, number>
+): Record<string, number> {
+  const newInventory = { ...inventory };
+
+  for (const [item, amount] of Object.entries(recipe.outputs)) {
+    newInventory[item] = (newInventory[item] || 0) + amount;
+  }
+
+  return newInventory;
+}
+
+export function getCraftableRecipes(inventory: Record<string, number>): RecipeId[] {
+  return (Object.keys(RECIPES) as RecipeId[]).filter(id => canCraft(RECIPES[id], inventory));
+}
+
+/**
+ * Crafting speed multiplier at a position (workshops speed crafting up)
+ */
+export function getCraftingSpeed(
+  buildings: Building[],
+  position: { x: number; z: number }
+): number {
+  return Math.max(1, getBuildingEffect(buildings, position, 'craftingSpeed'));
+}
+
+export function updateCraftProgress(
+  recipe: Recipe,
+  progress: number,
+  delta: number,
+  speed: number = 1
+): number {
+  return Math.min(1, progress + (delta / recipe.craftTime) * speed);
+}
+
+const CRAFT_DIRECTIVE_KEYWORDS: Record<RecipeId, string[]> = {
+  tool: ['道具', 'ツール', 'tool'],
+  high_quality_parts: ['パーツ', '部品', 'parts'],
+  repair_kit: ['修理キット', 'repair'],
+};
+
+/**
+ * Parse a user directive like "道具を作って" into a recipe
+ */
+export function parseCraftDirective(directive: string): RecipeId | null {
+  const text = directive.toLowerCase();
+  const wantsCraft = ['作って', 'つくって', '作る', 'クラフト', 'craft', 'make'].some(k => text.includes(k));
+  if (!wantsCraft) return null;
+
+  // Check the more specific recipes first ("修理キット" vs "部品")
+  for (const id of ['repair_kit', 'high_quality_parts', 'tool'] as RecipeId[]) {
+    if (CRAFT_DIRECTIVE_KEYWORDS[id].some(k => text.includes(k.toLowerCase()))) {
+      return id;
+    }
+  }
+
+  return null;
+}
+
+export function getRecipeDescription(recipe: Recipe): string {
+  const inputsDesc = Object.entries(recipe.inputs)
+    .map(([item, amt]) => `${item}×${amt}`)
+    .join(' + ');
+  const outputsDesc = Object.entries(recipe.outputs)
+    .map(([item, amt]) => `${item}×${amt}`)
+    .join(', ');
+
+  return `${recipe.name}: ${inputsDesc} → ${outputsDesc}`;
+}
@@ -87,6 +87,18 @@ function clampEmotion(state: EmotionState): EmotionState {
   };
 }
 
+// Critter personalities, indexed like PERSONALITY_EMOTIONS (used in dialogue and thought prompts)
+export const CRITTER_PERSONALITIES = [
+  "元気で好奇心旺盛。何でも気になる。",
+  "臆病で慎重。知らないものにはちょっと距離を置く。",
+  "のんびり屋。食べ物と昼寝が好き。",
+  "ちょっと生意気。自分のテリトリー意識が強い。",
+];
+
+export function getPersonalityIndex(name: string): number {
+  return name.charCodeAt(0) % CRITTER_PERSONALITIES.length;
+}
+
 export function createEmotionState(personalityIndex?: number): EmotionState {
   if (personalityIndex !== undefined && personalityIndex >= 0 && personalityIndex < PERSONALITY_EMOTIONS.length) {
     return { ...PERSONALITY_EMOTIONS[personalityIndex] };
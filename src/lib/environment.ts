@@ -4,7 +4,10 @@
  */
 
 import type { RobotStatus, CritterStatus } from './survival';
-import { applyEnvironmentalDamage as applyDamageToRobot, getEnvironmentalDamage } from './survival';
+import { damageCritter } from './survival';
+import { isBuildingFunctional, isEntityInBuilding, type Building, type BuildingType } from './building';
+import { random } from './random';
+import { GAME_MINUTES_PER_SECOND } from './simClock';
 
 // ========================================
 // Types
@@ -12,6 +15,14 @@ import { applyEnvironmentalDamage as applyDamageToRobot, getEnvironmentalDamage
 
 export type WeatherType = 'sunny' | 'rainy' | 'cloudy' | 'snowy';
 
+// ========================================
+// Game Clock
+// ========================================
+
+// 3x speed: one in-game day takes about 8 real minutes
+export const GAME_HOURS_PER_SECOND = GAME_MINUTES_PER_SECOND / 60;
+export const GAME_SECONDS_PER_SECOND = GAME_HOURS_PER_SECOND * 3600;
+
 export interface WeatherEvent {
   type: 'storm' | 'heatwave' | 'blizzard' | 'drought' | 'calm';
   name: string;
@@ -30,6 +41,8 @@ export interface WeatherEvent {
   };
 }
 
+export type WeatherEventPhase = 'warning' | 'active';
+
 export interface ShelterProtection {
   temperatureStabilization: number; // 0-1 (1 = perfect stabilization)
   weatherProtection: number; // 0-1 (1 = complete protection)
@@ -157,7 +170,7 @@ export function shouldTriggerWeatherEvent(
   season: string
 ): WeatherEvent['type'] | null {
   // Random weather events based on conditions
-  const roll = Math.random();
+  const roll = random();
 
   // Storms during rainy weather
   if (currentWeather === 'rainy' && roll < 0.05) {
@@ -169,14 +182,14 @@ export function shouldTriggerWeatherEvent(
     return 'blizzard';
   }
 
-  // Heatwaves during sunny summer
-  if (currentWeather === 'sunny' && season === 'summer' && temperature > 30 && roll < 0.03) {
+  // Heatwaves during sunny summer afternoons
+  if (currentWeather === 'sunny' && season === 'summer' && temperature > 25 && roll < 0.03) {
     return 'heatwave';
   }
 
-  // Drought in late summer/autumn
+  // Drought at the end of summer/autumn (each season lasts 5 days)
   if (season === 'summer' || season === 'autumn') {
-    if (day % 20 === 0 && roll < 0.1) {
+    if (day % 5 === 0 && roll < 0.1) {
       return 'drought';
     }
   }
@@ -214,21 +227,78 @@ export function applyWeatherDamage(
   // Apply damage to robot
   const newRobotDurability = Math.max(0, robotStatus.durability - effectiveDamage * delta);
 
-  // Apply damage to critter
-  const newCritterHealth = Math.max(0, critterStatus.health - effectiveDamage * delta);
-
   return {
     robot: {
       ...robotStatus,
       durability: newRobotDurability,
     },
-    critter: {
-      ...critterStatus,
-      health: newCritterHealth,
-    },
+    critter: damageCritter(critterStatus, effectiveDamage * delta, 'weather'),
   };
 }
 
+// Base weather shown while an event is active
+export const WEATHER_EVENT_BASE_WEATHER: Record<WeatherEvent['type'], WeatherType | null> = {
+  storm: 'rainy',
+  heatwave: 'sunny',
+  blizzard: 'snowy',
+  drought: 'sunny',
+  calm: null,
+};
+
+// ========================================
+// Shelter Lookup
+// ========================================
+
+const BUILDING_SHELTER_TYPES: Partial<Record<BuildingType, keyof typeof SHELTER_TYPES>> = {
+  tent: 'tent',
+  workshop: 'tent',
+  wooden_shelter: 'wooden_shelter',
+};
+
+function isShelterBuilding(building: Building): boolean {
+  return isBuildingFunctional(building) && BUILDING_SHELTER_TYPES[building.type] !== undefined;
+}
+
+export function getShelterTypeAt(
+  position: { x: number; z: number },
+  buildings: Building[]
+): keyof typeof SHELTER_TYPES {
+  let best: keyof typeof SHELTER_TYPES = 'none';
+
+  for (const building of buildings) {
+    if (!isShelterBuilding(building)) continue;
+    if (!isEntityInBuilding(position, building)) continue;
+
+    const type = BUILDING_SHELTER_TYPES[building.type]!;
+    if (SHELTER_TYPES[type].damageReduction > SHELTER_TYPES[best].damageReduction) {
+      best = type;
+    }
+  }
+
+  return best;
+}
+
+export function findNearestShelter(
+  position: { x: number; z: number },
+  buildings: Building[]
+): Building | null {
+  let nearest: Building | null = null;
+  let nearestDist = Infinity;
+
+  for (const building of buildings) {
+    if (!isShelterBuilding(building)) continue;
+    const dx = building.position.x - position.x;
+    const dz = building.position.z - position.z;
+    const dist = Math.sqrt(dx * dx + dz * dz);
+    if (dist < nearestDist) {
+      nearestDist = dist;
+      nearest = building;
+    }
+  }
+
+  return nearest;
+}
+
 export function getEffectiveTemperature(
   ambientTemp: number,
   event: WeatherEvent | null,
@@ -332,7 +402,7 @@ export function generateDailyWeather(
   season: 'spring' | 'summer' | 'autumn' | 'winter'
 ): DailyWeatherPattern {
   const seed = day * 7919; // Simple pseudo-random based on day
-  const random = (Math.sin(seed) + 1) / 2;
+  const dayRoll = (Math.sin(seed) + 1) / 2;
 
   const seasonalBaseTemp = {
     spring: 15,
@@ -345,27 +415,27 @@ export function generateDailyWeather(
 
   // Determine dominant weather for the day
   let dominantWeather: WeatherType;
-  if (random < 0.3) dominantWeather = 'sunny';
-  else if (random < 0.6) dominantWeather = 'cloudy';
+  if (dayRoll < 0.3) dominantWeather = 'sunny';
+  else if (dayRoll < 0.6) dominantWeather = 'cloudy';
   else if (season === 'winter') dominantWeather = 'snowy';
   else dominantWeather = 'rainy';
 
   return {
     morning: {
       weather: dominantWeather,
-      temperature: baseTemp - 3 + Math.random() * 2,
+      temperature: baseTemp - 3 + random() * 2,
     },
     afternoon: {
-      weather: dominantWeather === 'cloudy' && random > 0.7 ? 'sunny' : dominantWeather,
-      temperature: baseTemp + 5 + Math.random() * 3,
+      weather: dominantWeather === 'cloudy' && dayRoll > 0.7 ? 'sunny' : dominantWeather,
+      temperature: baseTemp + 5 + random() * 3,
     },
     evening: {
       weather: dominantWeather,
-      temperature: baseTemp + Math.random() * 2,
+      temperature: baseTemp + random() * 2,
     },
     night: {
       weather: dominantWeather === 'sunny' ? 'cloudy' : dominantWeather,
-      temperature: baseTemp - 5 + Math.random() * 2,
+      temperature: baseTemp - 5 + random() * 2,
     },
   };
 }
@@ -0,0 +1,349 @@
+/**
+ * Event Subscribers - What the world does with each event
+ * Memories for whoever perceived it, the activity log and timeline,
+ * score changes, and achievement checks.
+ */
+
+import type { EventBus, Position } from './events';
+import type { SimState } from './world';
+import { logActivity, remember, recordTimelineEvent, feelEmotion } from './world';
+import { createMemory } from './memory';
+import { CRITTER_DEATH_CAUSE_LABELS } from './survival';
+import { addScoreChange, createScoreChange, calculateWorldScore, checkAchievements, SCORE_WEIGHTS, END_CAUSE_LABELS, type ScoreChange, type Achievement } from './scoring';
+
+// How far an entity notices what happens around it
+export const PERCEPTION_RANGE = 20;
+
+function displayName(id: string): string {
+    return id === 'robot' ? 'ロボット' : id;
+}
+
+// Everyone with a mind: the robot and living critters (wild animals keep no memories)
+function minds(world: SimState): string[] {
+    return ['robot', ...world.critterRegistry.filter(c => c.isAlive).map(c => c.id)];
+}
+
+function witnesses(world: SimState, position: Position, exclude: string[]): string[] {
+    return minds(world).filter(id => {
+        if (exclude.includes(id)) return false;
+        const pos = world.entityPositions[id];
+        return !!pos && Math.hypot(pos.x - position.x, pos.z - position.z) < PERCEPTION_RANGE;
+    });
+}
+
+// ========================================
+// Memories
+// ========================================
+
+export function subscribeMemories(bus: EventBus): void {
+    bus.on('birth', (world, event) => {
+        const { entityId, parentId } = event;
+        if (parentId) {
+            remember(world, parentId, createMemory(`子供(${entityId})が生まれた！`, 'event', [parentId, entityId], 0.9, 0.5));
+            for (const id of witnesses(world, event.position, [parentId, entityId])) {
+                remember(world, id, createMemory(`${parentId}の近くに新しいクリッターが生まれた`, 'event', [parentId, entityId], 0.7));
+                feelEmotion(world, id, 'new_birth', 0.5);
+            }
+        } else {
+            for (const id of witnesses(world, event.position, [entityId])) {
+                remember(world, id, createMemory(`鉱石の近くで新しいクリッター(${entityId})が自然発生した`, 'event', [entityId, 'environment'], 0.6));
+            }
+        }
+    });
+
+    bus.on('death', (world, event) => {
+        if (!event.position) return;
+        const causeLabel = CRITTER_DEATH_CAUSE_LABELS[event.cause];
+        for (const id of witnesses(world, event.position, [event.entityId])) {
+            remember(world, id, createMemory(`${event.entityId}が死んでしまった (${causeLabel})`, 'event', [event.entityId], 0.9, 0.8));
+            feelEmotion(world, id, 'entity_died');
+        }
+    });
+
+    bus.on('attack', (world, event) => {
+        const { attackerId, targetId } = event;
+        remember(world, targetId, createMemory('狼に攻撃された！痛い！', 'event', [attackerId, targetId], 0.9, 0.8));
+        for (const id of witnesses(world, event.position, [targetId])) {
+            remember(world, id, createMemory(`狼が${targetId}を攻撃している`, 'event', [attackerId, targetId], 0.7));
+        }
+    });
+
+    bus.on('discovery', (world, event) => {
+        remember(world, event.entityId, createMemory(event.description, 'observation', ['environment'], 0.4));
+    });
+
+    bus.on('build', (world, event) => {
+        const { building, helperIds } = event;
+        remember(world, 'robot', createMemory(`${building.name}を完成させた`, 'event', ['self', ...helperIds], 0.8, 0.5));
+        for (const id of helperIds) {
+            remember(world, id, createMemory(`ロボットと一緒に${building.name}を建てた`, 'event', ['robot', id], 0.6, 0.4));
+        }
+    });
+
+    // Weather reaches everyone
+    bus.on('catastrophe', (world, event) => {
+        const { name } = event.weatherEvent;
+        if (event.phase === 'warning') {
+            for (const id of minds(world)) {
+                remember(world, id, createMemory(`${name}が近づいているという予兆を感じた`, 'event', ['environment'], 0.8));
+            }
+        } else if (event.phase === 'end') {
+            for (const id of minds(world)) {
+                remember(world, id, createMemory(`${name}を乗り越えた`, 'event', ['environment'], 0.8, 0.5));
+            }
+        }
+    });
+
+    // Participants remember their own words; bystanders only that a conversation happened
+    bus.on('dialogue', (world, event) => {
+        const { speakerId, listenerId } = event;
+        const position = world.entityPositions[speakerId];
+        if (!position) return;
+        const verb = event.quarrel ? 'けんかしている' : '話している';
+        for (const id of witnesses(world, position, [speakerId, listenerId])) {
+            remember(world, id, createMemory(`${displayName(speakerId)}が${displayName(listenerId)}と${verb}のを見た`, 'observation', [speakerId, listenerId], 0.3));
+        }
+    });
+}
+
+// ========================================
+// Activity Log & Timeline
+// ========================================
+
+const ACHIEVEMENT_IMPORTANCE: Record<Achievement['rarity'], number> = {
+    common: 0.4,
+    uncommon: 0.5,
+    rare: 0.7,
+    epic: 0.8,
+    legendary: 0.9,
+};
+
+export function subscribeActivityLog(bus: EventBus): void {
+    bus.on('birth', (world, event) => {
+        const { entityId, parentId } = event;
+        logActivity(world, {
+            category: 'event',
+            importance: 'normal',
+            entityId,
+            content: parentId ? `${parentId}に子供(${entityId})が生まれた` : `鉱石の近くで${entityId}が自然発生した`,
+            icon: parentId ? '🐣' : '✨',
+            relatedEntities: parentId ? [parentId] : undefined,
+        });
+        recordTimelineEvent(world, {
+            type: 'birth',
+            description: parentId ? `${entityId}が誕生 (第${event.generation}世代)` : `${entityId}が自然発生`,
+            importance: parentId ? 0.5 : 0.4,
+            position: event.position,
+            entities: parentId ? [entityId, parentId] : [entityId],
+        });
+    });
+
+    bus.on('death', (world, event) => {
+        const causeLabel = CRITTER_DEATH_CAUSE_LABELS[event.cause];
+        logActivity(world, {
+            category: 'death',
+            importance: 'high',
+            entityId: event.entityId,
+            content: `${event.entityId}が死亡した (${causeLabel})`,
+            icon: '💀',
+        });
+        recordTimelineEvent(world, {
+            type: 'death',
+            description: `${event.entityId}が死亡 (${causeLabel})`,
+            importance: 0.6,
+            position: event.position ?? undefined,
+            entities: [event.entityId],
+        });
+    });
+
+    bus.on('attack', (world, event) => {
+        logActivity(world, {
+            category: 'combat',
+            importance: 'normal',
+            entityId: event.targetId,
+            content: `狼(${event.attackerId})が${event.targetId}を攻撃した (-${Math.round(event.damage)})`,
+            icon: '🐺',
+            relatedEntities: [event.attackerId],
+        });
+    });
+
+    // Only the robot's discoveries are news; every critter sees the same flowers
+    bus.on('discovery', (world, event) => {
+        if (event.entityId !== 'robot') return;
+        logActivity(world, {
+            category: 'discovery',
+            importance: 'low',
+            entityId: 'robot',
+            content: event.description,
+            icon: '🔍',
+        });
+        recordTimelineEvent(world, {
+            type: 'discovery',
+            description: event.description,
+            importance: 0.3,
+            position: event.position,
+            entities: ['robot'],
+        });
+    });
+
+    bus.on('build', (world, event) => {
+        const { building, helperIds } = event;
+        const helperNote = helperIds.length > 0 ? ` (${helperIds.join(', ')}が手伝ってくれた)` : '';
+        logActivity(world, {
+            category: 'build',
+            importance: 'high',
+            entityId: 'robot',
+            content: `${building.name}が完成した${helperNote}`,
+            icon: '🏠',
+            relatedEntities: helperIds.length > 0 ? helperIds : undefined,
+        });
+        recordTimelineEvent(world, {
+            type: 'build',
+            description: `${building.name}が完成`,
+            importance: 0.7,
+            position: { x: building.position.x, z: building.position.z },
+            entities: ['robot', ...helperIds],
+        });
+    });
+
+    bus.on('catastrophe', (world, event) => {
+        const { name } = event.weatherEvent;
+        if (event.phase === 'warning') {
+            logActivity(world, {
+                category: 'warning',
+                importance: 'high',
+                entityId: 'environment',
+                content: event.message ?? event.weatherEvent.warning.message,
+                icon: '⚠️',
+            });
+        } else if (event.phase === 'start') {
+            logActivity(world, {
+                category: 'warning',
+                importance: 'critical',
+                entityId: 'environment',
+                content: `${name}が発生した！`,
+                icon: '🌪️',
+            });
+            recordTimelineEvent(world, {
+                type: 'catastrophe',
+                description: `${name}が発生`,
+                importance: 0.8,
+            });
+        } else {
+            logActivity(world, {
+                category: 'event',
+                importance: 'high',
+                entityId: 'environment',
+                content: `${name}が過ぎ去った。災害を乗り越えた`,
+                icon: '🌈',
+            });
+            recordTimelineEvent(world, {
+                type: 'catastrophe',
+                description: `${name}を乗り越えた`,
+                importance: 0.7,
+            });
+        }
+    });
+
+    bus.on('achievement', (world, { achievement }) => {
+        logActivity(world, {
+            category: 'event',
+            importance: 'high',
+            entityId: 'environment',
+            content: `実績「${achievement.name}」を解除した (${achievement.description})`,
+            icon: '🏆',
+        });
+        recordTimelineEvent(world, {
+            type: 'milestone',
+            description: `実績「${achievement.name}」を達成`,
+            importance: ACHIEVEMENT_IMPORTANCE[achievement.rarity],
+        });
+    });
+
+    bus.on('runEnd', (world, { cause }) => {
+        logActivity(world, {
+            category: 'event',
+            importance: 'critical',
+            entityId: 'environment',
+            content: `${world.day}日目で世界の記録が終わった (${END_CAUSE_LABELS[cause]})`,
+            icon: cause === 'victory' ? '🎉' : '🏁',
+        });
+        recordTimelineEvent(world, {
+            type: 'milestone',
+            description: `${END_CAUSE_LABELS[cause]}で終了`,
+            importance: 1,
+        });
+    });
+
+    bus.on('dialogue', (world, event) => {
+        logActivity(world, {
+            category: 'dialogue',
+            importance: 'low',
+            entityId: event.speakerId,
+            content: `${displayName(event.speakerId)} → ${displayName(event.listenerId)}: ${event.text}`,
+            icon: event.quarrel ? '💢' : '💬',
+            relatedEntities: [event.listenerId],
+        });
+    });
+}
+
+// ========================================
+// Score Changes
+// ========================================
+
+function recordScoreChange(world: SimState, type: ScoreChange['type'], amount: number, reason: string, category: ScoreChange['category']): void {
+    world.realtimeScore = addScoreChange(world.realtimeScore, createScoreChange(type, amount, reason, category));
+}
+
+export function subscribeScore(bus: EventBus): void {
+    bus.on('birth', (world, event) => {
+        recordScoreChange(world, 'gain', SCORE_WEIGHTS.population, `${event.entityId}が誕生`, 'survival');
+    });
+    bus.on('death', (world, event) => {
+        recordScoreChange(world, 'loss', SCORE_WEIGHTS.population + SCORE_WEIGHTS.death, `${event.entityId}が死亡`, 'survival');
+    });
+    bus.on('discovery', (world, event) => {
+        if (event.entityId !== 'robot') return;
+        recordScoreChange(world, 'gain', SCORE_WEIGHTS.knowledge, `発見: ${event.description}`, 'knowledge');
+    });
+    bus.on('build', (world, event) => {
+        recordScoreChange(world, 'gain', SCORE_WEIGHTS.structure, `${event.building.name}を建設`, 'development');
+    });
+    bus.on('catastrophe', (world, event) => {
+        if (event.phase !== 'end') return;
+        recordScoreChange(world, 'gain', SCORE_WEIGHTS.catastrophe, `${event.weatherEvent.name}を乗り越えた`, 'combat');
+    });
+}
+
+// ========================================
+// Achievements
+// ========================================
+
+// Unlock whatever the world has earned and announce each new achievement on the bus
+export function evaluateAchievements(world: SimState, bus: EventBus): void {
+    const unlocked = checkAchievements(calculateWorldScore(world), world.buildings, world.achievements);
+    if (unlocked.length === world.achievements.length) return;
+    const fresh = unlocked.slice(world.achievements.length);
+    world.achievements = unlocked;
+    for (const achievement of fresh) {
+        bus.emit(world, { type: 'achievement', achievement });
+    }
+}
+
+// Events that can move an achievement threshold (the kernel also checks on a timer for day milestones)
+export function subscribeAchievements(bus: EventBus): void {
+    const check = (world: SimState) => evaluateAchievements(world, bus);
+    bus.on('birth', check);
+    bus.on('death', check);
+    bus.on('discovery', check);
+    bus.on('build', check);
+    bus.on('catastrophe', check);
+}
+
+// The standard wiring, in the order effects should land
+export function subscribeWorldEffects(bus: EventBus): void {
+    subscribeMemories(bus);
+    subscribeActivityLog(bus);
+    subscribeScore(bus);
+    subscribeAchievements(bus);
+}
@@ -0,0 +1,137 @@
+/**
+ * World Events - Typed domain events and the bus that fans them out
+ * The kernel (and dialogue in the browser) emits what happened; subscribers
+ * decide who remembers it, what gets logged and how it counts toward the score.
+ */
+
+import type { SimState } from './world';
+import type { CritterDeathCause } from './survival';
+import type { Building } from './building';
+import type { WeatherEvent } from './environment';
+import type { Achievement, EndCause } from './scoring';
+
+// ========================================
+// Events
+// ========================================
+
+export interface Position {
+    x: number;
+    z: number;
+}
+
+export interface BirthEvent {
+    type: 'birth';
+    entityId: string;
+    parentId: string | null; // null: spawned from ore
+    generation: number;
+    position: Position;
+}
+
+export interface DeathEvent {
+    type: 'death';
+    entityId: string;
+    cause: CritterDeathCause;
+    position: Position | null;
+}
+
+export interface AttackEvent {
+    type: 'attack';
+    attackerId: string;
+    targetId: string;
+    damage: number;
+    position: Position;
+}
+
+export interface DiscoveryEvent {
+    type: 'discovery';
+    entityId: string;
+    elementId: string;
+    description: string;
+    position: Position;
+}
+
+export interface BuildEvent {
+    type: 'build';
+    building: Building;
+    helperIds: string[];
+}
+
+export interface CatastropheEvent {
+    type: 'catastrophe';
+    phase: 'warning' | 'start' | 'end';
+    weatherEvent: WeatherEvent;
+    message?: string; // warning text shown to the player
+}
+
+export interface DialogueEvent {
+    type: 'dialogue';
+    speakerId: string;
+    listenerId: string;
+    text: string;
+    quarrel: boolean;
+}
+
+export interface AchievementEvent {
+    type: 'achievement';
+    achievement: Achievement;
+}
+
+export interface RunEndEvent {
+    type: 'runEnd';
+    cause: EndCause;
+}
+
+export type WorldEvent =
+    | BirthEvent
+    | DeathEvent
+    | AttackEvent
+    | DiscoveryEvent
+    | BuildEvent
+    | CatastropheEvent
+    | DialogueEvent
+    | AchievementEvent
+    | RunEndEvent;
+
+export type WorldEventType = WorldEvent['type'];
+export type WorldEventOf<T extends WorldEventType> = Extract<WorldEvent, { type: T }>;
+
+// Subscribers update the world in place, like the kernel (replace collections, never edit them)
+export type WorldEventHandler<T extends WorldEventType> = (world: SimState, event: WorldEventOf<T>) => void;
+
+// ========================================
+// Bus
+// ========================================
+
+export interface EventBus {
+    on<T extends WorldEventType>(type: T, handler: WorldEventHandler<T>): () => void;
+    emit(world: SimState, event: WorldEvent): void;
+}
+
+type AnyHandler = (world: SimState, event: WorldEvent) => void;
+
+export function createEventBus(): EventBus {
+    const handlers = new Map<WorldEventType, AnyHandler[]>();
+
+    return {
+        // Returns an unsubscribe function
+        on(type, handler) {
+            const list = handlers.get(type) ?? [];
+            handlers.set(type, list);
+            list.push(handler as AnyHandler);
+            return () => {
+                const index = list.indexOf(handler as AnyHandler);
+                if (index >= 0) list.splice(index, 1);
+            };
+        },
+        // Handlers run in subscription order; a failing one does not stop the rest
+        emit(world, event) {
+            for (const handler of [...(handlers.get(event.type) ?? [])]) {
+                try {
+                    handler(world, event);
+                } catch (error) {
+                    console.error(`World event handler failed (${event.type}):`, error);
+                }
+            }
+        },
+    };
+}
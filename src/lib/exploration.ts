@@ -0,0 +1,59 @@
+/**
+ * Exploration - Which parts of the world the robot has seen
+ * The world is split into a coarse grid; cells within the robot's sight
+ * are revealed as it moves. The minimap's fog of war is drawn from this.
+ */
+
+// The world spans ±WORLD_EXTENT on both axes
+export const WORLD_EXTENT = 90;
+export const EXPLORATION_CELL_SIZE = 6;
+export const EXPLORATION_GRID_SIZE = Math.ceil((WORLD_EXTENT * 2) / EXPLORATION_CELL_SIZE);
+
+// How far the robot can see when revealing cells
+export const ROBOT_SIGHT_RADIUS = 16;
+
+function cellCoord(value: number): number {
+    const clamped = Math.max(-WORLD_EXTENT, Math.min(WORLD_EXTENT - 0.001, value));
+    return Math.floor((clamped + WORLD_EXTENT) / EXPLORATION_CELL_SIZE);
+}
+
+export function getCellIndex(x: number, z: number): number {
+    return cellCoord(z) * EXPLORATION_GRID_SIZE + cellCoord(x);
+}
+
+// World-space bounds of a cell (minimum corner)
+export function getCellOrigin(index: number): { x: number; z: number } {
+    return {
+        x: (index % EXPLORATION_GRID_SIZE) * EXPLORATION_CELL_SIZE - WORLD_EXTENT,
+        z: Math.floor(index / EXPLORATION_GRID_SIZE) * EXPLORATION_CELL_SIZE - WORLD_EXTENT,
+    };
+}
+
+/**
+ * Reveal every cell whose centre is within radius of (x, z).
+ * Returns the same array when nothing new was seen, so callers can skip publishing.
+ */
+export function revealAround(explored: number[], x: number, z: number, radius: number = ROBOT_SIGHT_RADIUS): number[] {
+    const known = new Set(explored);
+    const added: number[] = [];
+    const half = EXPLORATION_CELL_SIZE / 2;
+    const minX = cellCoord(x - radius), maxX = cellCoord(x + radius);
+    const minZ = cellCoord(z - radius), maxZ = cellCoord(z + radius);
+
+    for (let cz = minZ; cz <= maxZ; cz++) {
+        for (let cx = minX; cx <= maxX; cx++) {
+            const index = cz * EXPLORATION_GRID_SIZE + cx;
+            if (known.has(index)) continue;
+            const origin = getCellOrigin(index);
+            if (Math.hypot(origin.x + half - x, origin.z + half - z) <= radius) {
+                added.push(index);
+            }
+        }
+    }
+    return added.length > 0 ? [...explored, ...added] : explored;
+}
+
+// 0-1 share of the world that has been seen
+export function getExploredRatio(explored: number[]): number {
+    return explored.length / (EXPLORATION_GRID_SIZE * EXPLORATION_GRID_SIZE);
+}
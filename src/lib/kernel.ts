@@ -0,0 +1,2160 @@
+/**
+ * Simulation Kernel - One headless step of the whole world
+ * tick(world, dt) runs the environment, the robot, critters and wild animals.
+ * The 3D scene only renders the result; the CLI runs it without a renderer.
+ */
+
+import type { ThoughtResult, CritterThoughtResult } from './llm';
+import { applyEmotionEvent, decayEmotions, emotionToSpeedMultiplier, emotionToDialogueContext, emotionChanged, createEmotionState, getPersonalityIndex, CRITTER_PERSONALITIES, DEFAULT_EMOTION, type EmotionState } from './emotions';
+import { getAffinity, shouldApproach, shouldAvoid } from './relationships';
+import { createMemory, selectRelevantMemories, memoriesToPromptContext } from './memory';
+import { selectNextActivity, shouldSwitchActivity, getActivityMovementPattern, isCompassDirection, getDirectionalWanderTarget, type ActivityState, type TargetDirection } from './activities';
+import { getNearbyElements } from './worldElements';
+import { decayNeeds, satisfyNeed, syncNeedsWithVitals, computeDesires, needsToDialogueContext, createDefaultNeeds, type NeedsState } from './needs';
+import { tickLifecycle, isLifespanOver, checkReproduction, mutateColor, getSpeedMultiplier, createLifecycleState, REPRODUCTION_COOLDOWN_AFTER_BIRTH, MATURITY_AGE, getLifeStage, lifeStageToDialogueContext, LIFE_STAGE_TRAITS, type LifecycleState } from './lifecycle';
+import { updateRobotBattery, chargeRobotBattery, updateRobotTemperature, applyRobotWear, updateRobotMalfunction, repairRobot, isRobotFunctional, createDefaultCritterStatus, tickCritterVitals, feedCritter, killCritter, damageCritter, getCritterHealthStatus, ROBOT_CONSTANTS, CRITTER_CONSTANTS, type RobotStatus, type CritterStatus } from './survival';
+import { getNearbyResources, findBestResource, attemptGatherResource, getGatherYield, regenerateResources, MATERIAL_TYPES, type ResourceNode, type ResourceType } from './resources';
+import { BUILDING_TEMPLATES, createBuilding, findBuildSite, hasRequiredMaterials, consumeMaterials, updateConstructionProgress, getBuildStandoff, parseBuildDirective, getAvailableBuildings, isBuildingFunctional, isEntityInBuilding, type Building, type BuildingType } from './building';
+import { RECIPES, canCraft, consumeIngredients, addCraftOutputs, getCraftableRecipes, getCraftingSpeed, updateCraftProgress, parseCraftDirective, type RecipeId } from './crafting';
+import {
+    GAME_HOURS_PER_SECOND,
+    GAME_SECONDS_PER_SECOND,
+    WEATHER_EVENT_CONFIGS,
+    WEATHER_EVENT_BASE_WEATHER,
+    shouldTriggerWeatherEvent,
+    createWeatherEvent,
+    getWeatherWarning,
+    isWeatherEventActive,
+    applyWeatherDamage,
+    shouldBlockResourceRegen,
+    getEffectiveTemperature,
+    getShelterTypeAt,
+    findNearestShelter,
+    getMovementSpeed,
+    type WeatherType,
+    type WeatherEvent,
+} from './environment';
+import { WILD_ANIMAL_DEFS, type WildAnimalDef } from './wildAnimals';
+import { getTerrainHeight } from './terrain';
+import { revealAround } from './exploration';
+import { random } from './random';
+import { setGameMinutes, toGameMinutes, toSimSeconds } from './simClock';
+import { createEventBus, type EventBus, type WorldEvent } from './events';
+import { subscribeWorldEffects, evaluateAchievements } from './eventSubscribers';
+import { calculateWorldScore, detectRunEnd, DEFAULT_VICTORY_DAY } from './scoring';
+import {
+    formatGameTime,
+    logActivity,
+    remember,
+    appendRobotThought,
+    appendCritterThought,
+    registerCritter,
+    retireCritter,
+    WORLD_START_HOUR,
+    type SimState,
+    type Season,
+    type CritterRegistryEntry,
+} from './world';
+
+// ========================================
+// Types
+// ========================================
+
+export type MaybePromise<T> = T | Promise<T>;
+
+// What the robot knows when it stops to think (prompt for real models, fields for the mock)
+export interface RobotThoughtRequest {
+    prompt: string;
+    needs: NeedsState;
+    status: RobotStatus;
+    inventory: Record<string, number>;
+    buildable: BuildingType[];
+    craftable: RecipeId[];
+    isBuilding: boolean;
+    isCrafting: boolean;
+    directive: string | null;
+    weatherEvent: WeatherEvent | null;
+}
+
+export interface CritterThoughtRequest {
+    prompt: string;
+    critterId: string;
+    needs: NeedsState;
+    vitals: CritterStatus;
+    emotion: EmotionState;
+    isNight: boolean;
+}
+
+// Source of thoughts: the configured provider in the browser, a scripted mock in the CLI
+export interface KernelLlm {
+    isAvailable(): boolean;
+    robotThought(request: RobotThoughtRequest): MaybePromise<ThoughtResult>;
+    critterThought(request: CritterThoughtRequest): MaybePromise<CritterThoughtResult>;
+}
+
+export interface Vec3 {
+    x: number;
+    y: number;
+    z: number;
+}
+
+// Desired velocity in world units per simulated second (y is only used by flyers)
+export type Motion = Vec3;
+
+export type RobotMode = 'IDLE' | 'MOVING';
+
+// The player piloting the robot: a stick direction (length up to 1) and a pending interaction
+export interface ManualControl {
+    x: number;
+    z: number;
+    interact: boolean;
+}
+
+// A value the kernel owns that others may overwrite in the world (dialogue emotions, weather damage)
+interface Synced<T> {
+    value: T;
+    synced: T | undefined; // the copy last seen in / written to the world
+}
+
+interface RobotBrain {
+    mode: RobotMode;
+    target: { x: number; z: number } | null;
+    nextDecisionTime: number;
+    emotion: Synced<EmotionState>;
+    status: Synced<RobotStatus>;
+    needs: NeedsState;
+    lastEmotionSync: number;
+    lastStatusSync: number;
+    lastNeedsSync: number;
+    seekingShelter: boolean;
+    buildTargetId: string | null;
+    lastBuildTick: number;
+    isBuilding: boolean;
+    disabled: boolean;
+    craftJob: { recipeId: RecipeId; progress: number; workshopId: string | null } | null;
+    lastCraftTick: number;
+    lastGatherTime: number;
+    lastToolNotice: number;
+    lastThinkTime: number;
+    isThinking: boolean;
+    intent: ThoughtResult | null;
+    pendingThought: { result: ThoughtResult; directive: string | null } | null;
+}
+
+interface CritterBrain {
+    target: { x: number; z: number };
+    home: { x: number; z: number };
+    nextMoveTime: number;
+    emotion: Synced<EmotionState>;
+    needs: NeedsState;
+    personalityIndex: number;
+    lastEmotionSync: number;
+    lastNeedsSync: number;
+    lastLifecycleTick: number;
+    diedAt: number | null;
+    lastThinkTime: number;
+    isThinking: boolean;
+    intent: CritterThoughtResult | null;
+    pendingThought: CritterThoughtResult | null;
+}
+
+export type AnimalState = 'idle' | 'wander' | 'flee' | 'rest' | 'chase' | 'attack';
+
+interface WildAnimalBrain {
+    state: AnimalState;
+    target: Vec3;
+    home: Vec3;
+    nextDecision: number;
+    chaseTargetId: string | null;
+    lastAttackTime: number;
+}
+
+interface EnvironmentBrain {
+    targetWeather: WeatherType;
+    lastWeatherStep: number;
+    lastTargetReroll: number;
+    lastEventRoll: number;
+    lastEventTick: number;
+    lastTemperatureUpdate: number;
+    lastResourceRegen: number;
+    lastEmotionBroadcast: number;
+    lastCritterSpawnCheck: number;
+}
+
+export interface KernelRuntime {
+    llm: KernelLlm;
+    integrate: boolean; // move bodies along their motion (headless); in the browser physics does it
+    clock: number; // simulated seconds stepped by this runtime
+    lastGameMinutes: number;
+    lastPositionSync: number;
+    lastScoreUpdate: number;
+    victoryDay: number; // survive this many days to win (0: no victory)
+    lastCritterAliveAt: number | null; // game minutes, for extinction
+    environment: EnvironmentBrain | null;
+    robot: RobotBrain | null;
+    critters: Record<string, CritterBrain>;
+    animals: Record<string, WildAnimalBrain>;
+    bodies: Record<string, Vec3>; // latest body positions (reported by physics, or integrated)
+    motion: Record<string, Motion>;
+    conversing: Set<string>; // entities held still by a dialogue
+    manual: ManualControl | null; // set while the player drives the robot
+    events: EventBus; // births, deaths, attacks... fanned out to memories, log, score
+}
+
+export interface World extends SimState {
+    runtime: KernelRuntime;
+}
+
+// Without a model nobody thinks; behavior falls back to the activity rules
+const NO_LLM: KernelLlm = {
+    isAvailable: () => false,
+    robotThought: () => Promise.reject(new Error('No LLM configured')),
+    critterThought: () => Promise.reject(new Error('No LLM configured')),
+};
+
+export function createKernelRuntime(options: { llm?: KernelLlm; integrate?: boolean; victoryDay?: number } = {}): KernelRuntime {
+    const events = createEventBus();
+    subscribeWorldEffects(events);
+    return {
+        llm: options.llm ?? NO_LLM,
+        integrate: options.integrate ?? false,
+        clock: 0,
+        lastGameMinutes: 0,
+        lastPositionSync: 0,
+        lastScoreUpdate: 0,
+        victoryDay: options.victoryDay ?? DEFAULT_VICTORY_DAY,
+        lastCritterAliveAt: null,
+        environment: null,
+        robot: null,
+        critters: {},
+        animals: {},
+        bodies: {},
+        motion: {},
+        conversing: new Set(),
+        manual: null,
+        events,
+    };
+}
+
+// ========================================
+// Tick
+// ========================================
+
+// World bounds for wander targets and integrated bodies
+const WANDER_LIMIT = 90;
+const BODY_LIMIT = 95;
+
+const ROBOT_SPAWN: Vec3 = { x: 0, y: 1, z: 0 };
+const STILL: Motion = { x: 0, y: 0, z: 0 };
+
+// Piloted robot: top speed (before emotion and weather) and how far it can reach to interact
+const MANUAL_SPEED = 4.0;
+const MANUAL_REACH = 2.5;
+
+/**
+ * Advance the world by dt simulated seconds. Mutates the world in place,
+ * replacing (never editing) collections so callers can diff by reference.
+ */
+export function tick(world: World, dt: number): void {
+    if (dt <= 0 || world.runEnd) return;
+    const rt = world.runtime;
+
+    // The world was reset (or replaced by an older one): start every mind afresh
+    if (world.gameMinutes < rt.lastGameMinutes) {
+        resetBrains(rt);
+    }
+
+    rt.clock += dt;
+    world.gameMinutes += toGameMinutes(dt);
+    rt.lastGameMinutes = world.gameMinutes;
+    setGameMinutes(world.gameMinutes);
+
+    stepEnvironment(world, dt);
+    stepRobot(world, dt);
+    for (const critter of world.critterRegistry) {
+        if (critter.isAlive) stepCritter(world, critter, dt);
+    }
+    for (const spawn of world.wildAnimals) {
+        stepWildAnimal(world, spawn.id, WILD_ANIMAL_DEFS[spawn.species], spawn.position);
+    }
+
+    if (rt.integrate) {
+        integrateBodies(rt, dt);
+    }
+
+    // Position reporting and world element observation (every 0.5s)
+    if (rt.clock - rt.lastPositionSync > 0.5) {
+        rt.lastPositionSync = rt.clock;
+        syncPositions(world);
+        observeSurroundings(world);
+        exploreAroundRobot(world);
+    }
+
+    // Live score and achievements (every 2s; events check achievements sooner, this catches day milestones)
+    if (rt.clock - rt.lastScoreUpdate > 2.0) {
+        rt.lastScoreUpdate = rt.clock;
+        world.realtimeScore = calculateWorldScore(world);
+        evaluateAchievements(world, rt.events);
+    }
+
+    checkRunEnd(world);
+}
+
+// Hand the robot to the player, or back to its activity system
+export function setManualControl(rt: KernelRuntime, enabled: boolean): void {
+    if (enabled === (rt.manual !== null)) return;
+    rt.manual = enabled ? { x: 0, z: 0, interact: false } : null;
+    if (rt.robot) {
+        // Drop whatever it was walking to; autonomy picks a fresh plan on the next step
+        stopRobot(rt.robot);
+        rt.robot.nextDecisionTime = rt.clock;
+    }
+}
+
+export function steerRobot(rt: KernelRuntime, x: number, z: number): void {
+    if (!rt.manual) return;
+    const len = Math.sqrt(x * x + z * z);
+    const k = len > 1 ? 1 / len : 1;
+    rt.manual.x = x * k;
+    rt.manual.z = z * k;
+}
+
+// Gather from (or look at) the resource under the robot on the next step
+export function requestRobotInteract(rt: KernelRuntime): void {
+    if (rt.manual) rt.manual.interact = true;
+}
+
+/**
+ * Move the world clock (sandbox time travel). Day, time and season are
+ * derived from it, and the kernel's bookkeeping moves along so minds are kept.
+ */
+export function setWorldClock(world: World, gameMinutes: number): void {
+    const rt = world.runtime;
+    const hours = gameMinutes / 60 + WORLD_START_HOUR;
+    if (rt.lastCritterAliveAt !== null) rt.lastCritterAliveAt += gameMinutes - world.gameMinutes;
+    world.gameMinutes = gameMinutes;
+    world.day = 1 + Math.floor(hours / 24);
+    world.time = hours % 24;
+    world.season = getSeasonFromDay(world.day);
+    rt.lastGameMinutes = gameMinutes;
+    setGameMinutes(gameMinutes);
+}
+
+// Drop an entity's mind and body (it was removed from the world)
+export function forgetEntity(rt: KernelRuntime, id: string): void {
+    delete rt.critters[id];
+    delete rt.animals[id];
+    delete rt.bodies[id];
+    delete rt.motion[id];
+    rt.conversing.delete(id);
+}
+
+// Set the weather now and keep it as the target until the next reroll
+export function forceWeather(world: World, weather: WeatherType): void {
+    world.weather = weather;
+    const env = world.runtime.environment;
+    if (env) {
+        env.targetWeather = weather;
+        env.lastTargetReroll = world.runtime.clock;
+        env.lastWeatherStep = world.runtime.clock;
+    }
+}
+
+// Announce a catastrophe; it starts once its warning period is over
+export function scheduleWeatherEvent(world: World, type: WeatherEvent['type']): WeatherEvent {
+    const t = world.runtime.clock;
+    const event = createWeatherEvent(type, t + WEATHER_EVENT_CONFIGS[type].warning.timeBeforeStart);
+    const warning = getWeatherWarning(event, t);
+    world.weatherEvent = event;
+    world.weatherEventPhase = 'warning';
+    world.weatherWarning = warning;
+    emit(world, { type: 'catastrophe', phase: 'warning', weatherEvent: event, message: warning ?? undefined });
+    return event;
+}
+
+// The robot is gone for good, every critter has died, or the victory day has come
+function checkRunEnd(world: World): void {
+    const rt = world.runtime;
+    if (rt.lastCritterAliveAt === null || world.critterRegistry.some(c => c.isAlive)) {
+        rt.lastCritterAliveAt = world.gameMinutes;
+    }
+    const cause = detectRunEnd(world, rt.victoryDay, world.gameMinutes - rt.lastCritterAliveAt);
+    if (!cause) return;
+
+    world.realtimeScore = calculateWorldScore(world);
+    evaluateAchievements(world, rt.events);
+    world.runEnd = { cause, day: world.day, gameMinutes: world.gameMinutes };
+    rt.motion = {};
+    emit(world, { type: 'runEnd', cause });
+}
+
+function resetBrains(rt: KernelRuntime): void {
+    rt.environment = null;
+    rt.robot = null;
+    rt.critters = {};
+    rt.animals = {};
+    rt.motion = {};
+    rt.conversing = new Set();
+    rt.lastGameMinutes = 0;
+    rt.lastCritterAliveAt = null;
+}
+
+function integrateBodies(rt: KernelRuntime, dt: number): void {
+    for (const [id, motion] of Object.entries(rt.motion)) {
+        const body = rt.bodies[id];
+        if (!body) continue;
+        body.x = Math.max(-BODY_LIMIT, Math.min(BODY_LIMIT, body.x + motion.x * dt));
+        body.y += motion.y * dt;
+        body.z = Math.max(-BODY_LIMIT, Math.min(BODY_LIMIT, body.z + motion.z * dt));
+    }
+}
+
+function syncPositions(world: World): void {
+    const rt = world.runtime;
+    const alive = new Set(['robot', ...world.critterRegistry.filter(c => c.isAlive).map(c => c.id), ...world.wildAnimals.map(a => a.id)]);
+    const positions: Record<string, { x: number; z: number }> = {};
+    for (const [id, body] of Object.entries(rt.bodies)) {
+        if (alive.has(id)) positions[id] = { x: body.x, z: body.z };
+    }
+    world.entityPositions = positions;
+}
+
+function observeSurroundings(world: World): void {
+    const rt = world.runtime;
+    const observers: string[] = [];
+    if (rt.robot) observers.push('robot');
+    for (const [id, brain] of Object.entries(rt.critters)) {
+        if (brain.diedAt === null) observers.push(id);
+    }
+
+    // Kept in the world state so a reload does not discover everything again
+    for (const id of observers) {
+        const body = rt.bodies[id];
+        if (!body) continue;
+        const observed = world.observedElements[id] ?? [];
+        const found = getNearbyElements(body.x, body.z, 8, world.time).filter(elem => !observed.includes(elem.id));
+        if (found.length === 0) continue;
+        world.observedElements = { ...world.observedElements, [id]: [...observed, ...found.map(elem => elem.id)] };
+        for (const elem of found) {
+            emit(world, { type: 'discovery', entityId: id, elementId: elem.id, description: elem.description, position: elem.position });
+        }
+    }
+}
+
+// Reveal the map around the robot (the minimap's fog of war)
+function exploreAroundRobot(world: World): void {
+    const body = world.runtime.bodies['robot'];
+    if (!body || world.robotStatus.isDead) return;
+    world.exploredCells = revealAround(world.exploredCells, body.x, body.z);
+}
+
+// ========================================
+// Shared Helpers
+// ========================================
+
+function emit(world: World, event: WorldEvent): void {
+    world.runtime.events.emit(world, event);
+}
+
+function distance(a: { x: number; z: number }, b: { x: number; z: number }): number {
+    return Math.sqrt((a.x - b.x) ** 2 + (a.z - b.z) ** 2);
+}
+
+function isNightTime(time: number): boolean {
+    return time >= 18 || time < 6;
+}
+
+function activeWeatherEvent(world: SimState): WeatherEvent | null {
+    return world.weatherEventPhase === 'active' ? world.weatherEvent : null;
+}
+
+// Body position, created at the spawn point the first time an entity is stepped
+function bodyOf(rt: KernelRuntime, id: string, spawn: Vec3): Vec3 {
+    return rt.bodies[id] ??= { ...spawn };
+}
+
+function heading(from: { x: number; z: number }, to: { x: number; z: number }, speed: number): Motion {
+    const dx = to.x - from.x;
+    const dz = to.z - from.z;
+    const len = Math.sqrt(dx * dx + dz * dz);
+    if (len < 0.001) return STILL;
+    return { x: (dx / len) * speed, y: 0, z: (dz / len) * speed };
+}
+
+function clampToWorld(value: number): number {
+    return Math.max(-WANDER_LIMIT, Math.min(WANDER_LIMIT, value));
+}
+
+function nearbyEntitiesOf(world: SimState, id: string, range: number): { id: string; distance: number }[] {
+    const myPos = world.entityPositions[id];
+    return Object.entries(world.entityPositions)
+        .filter(([eid]) => eid !== id)
+        .map(([eid, pos]) => ({ id: eid, distance: myPos ? distance(pos, myPos) : 100 }))
+        .filter(e => e.distance < range);
+}
+
+function setActivity(world: SimState, id: string, activity: ActivityState): void {
+    world.entityActivities = { ...world.entityActivities, [id]: activity };
+}
+
+function updateResourceNode(world: SimState, id: string, partial: Partial<ResourceNode>): void {
+    world.resourceNodes = world.resourceNodes.map(n => n.id === id ? { ...n, ...partial } : n);
+}
+
+function updateBuilding(world: SimState, id: string, partial: Partial<Building>): void {
+    world.buildings = world.buildings.map(b => b.id === id ? { ...b, ...partial } : b);
+}
+
+function adopt<T>(synced: Synced<T>, stored: T | undefined): void {
+    if (stored !== undefined && stored !== synced.synced) {
+        synced.value = stored;
+        synced.synced = stored;
+    }
+}
+
+function publishEmotion(world: SimState, id: string, emotion: Synced<EmotionState>): void {
+    const stored = world.entityEmotions[id] || DEFAULT_EMOTION;
+    if (emotionChanged(stored, emotion.value)) {
+        const copy = { ...emotion.value };
+        world.entityEmotions = { ...world.entityEmotions, [id]: copy };
+        emotion.synced = copy;
+    }
+}
+
+// Deliver a thought from a sync (mock) or async (provider) model the same way
+function whenThought<T>(think: () => MaybePromise<T>, deliver: (result: T) => void, done: () => void, failure: string): void {
+    let result: MaybePromise<T>;
+    try {
+        result = think();
+    } catch (err) {
+        console.error(failure, err);
+        done();
+        return;
+    }
+    if (result instanceof Promise) {
+        result
+            .then(deliver)
+            .catch((err) => {
+                console.error(failure, err);
+            })
+            .finally(done);
+    } else {
+        deliver(result);
+        done();
+    }
+}
+
+// ========================================
+// Environment
+// ========================================
+
+// Season weather probabilities
+const SEASON_WEATHER: Record<Season, Record<WeatherType, number>> = {
+    spring: { sunny: 0.45, cloudy: 0.25, rainy: 0.20, snowy: 0.10 },
+    summer: { sunny: 0.55, cloudy: 0.25, rainy: 0.15, snowy: 0.05 },
+    autumn: { sunny: 0.30, cloudy: 0.30, rainy: 0.25, snowy: 0.15 },
+    winter: { sunny: 0.20, cloudy: 0.25, rainy: 0.15, snowy: 0.40 },
+};
+
+// Season temperature modifiers
+const SEASON_TEMP_MOD: Record<Season, number> = {
+    spring: 0,
+    summer: 5,
+    autumn: -2,
+    winter: -8,
+};
+
+export const CRITTER_BASE_COLORS = ['#ff6b6b', '#4ecdc4', '#ffe66d', '#a78bfa', '#f97316'];
+
+export function getSeasonFromDay(day: number): Season {
+    const cycleDay = ((day - 1) % 20);
+    if (cycleDay < 5) return 'spring';
+    if (cycleDay < 10) return 'summer';
+    if (cycleDay < 15) return 'autumn';
+    return 'winter';
+}
+
+function pickSeasonWeather(season: Season): WeatherType {
+    const probs = SEASON_WEATHER[season];
+    const rand = random();
+    let cumulative = 0;
+    for (const [weather, prob] of Object.entries(probs) as [WeatherType, number][]) {
+        cumulative += prob;
+        if (rand < cumulative) return weather;
+    }
+    return 'sunny';
+}
+
+// 天気遷移の順序を定義: 必ず曇りを経由する
+function getNextWeatherStep(current: WeatherType, target: WeatherType): WeatherType | null {
+    if (current === target) return null;
+    // sunny <-> cloudy <-> rainy/snowy
+    if (current === 'sunny') return 'cloudy';
+    if (current === 'cloudy') {
+        if (target === 'sunny') return 'sunny';
+        return target; // rainy or snowy
+    }
+    // rainy/snowy -> must go through cloudy first
+    if (current === 'rainy' || current === 'snowy') {
+        return 'cloudy';
+    }
+    return null;
+}
+
+// 気温の計算: 時刻 + 天気 + 季節で決定
+function calculateTemperature(time: number, weather: WeatherType, season: Season): number {
+    // 時刻ベースの基本気温 (14時にピーク22°C, 2時に最低6°C)
+    const base = 14 + 8 * Math.sin(((time - 8) / 24) * Math.PI * 2);
+
+    // 天気による補正
+    const weatherModifier: Record<WeatherType, number> = {
+        sunny: 3,
+        cloudy: -1,
+        rainy: -4,
+        snowy: -10,
+    };
+
+    return Math.round((base + weatherModifier[weather] + SEASON_TEMP_MOD[season]) * 10) / 10;
+}
+
+function stepEnvironment(world: World, dt: number): void {
+    const t = world.runtime.clock;
+    const env = world.runtime.environment ??= {
+        targetWeather: world.weather,
+        lastWeatherStep: t,
+        lastTargetReroll: t,
+        lastEventRoll: t,
+        lastEventTick: t,
+        lastTemperatureUpdate: t,
+        lastResourceRegen: t,
+        lastEmotionBroadcast: t,
+        lastCritterSpawnCheck: t,
+    };
+
+    // 時間の更新 (1x: 約8分で1日)
+    let nextTime = world.time + dt * GAME_HOURS_PER_SECOND;
+    if (nextTime >= 24) {
+        nextTime -= 24;
+        world.day += 1;
+        world.season = getSeasonFromDay(world.day);
+        // Pick new target weather based on season at start of each day
+        env.targetWeather = pickSeasonWeather(world.season);
+    }
+    world.time = nextTime;
+
+    // 目標天気の定期変更 (90秒ごとにターゲットを選ぶ、実際の遷移は段階的)
+    if (t - env.lastTargetReroll > 90.0) {
+        env.lastTargetReroll = t;
+        env.targetWeather = pickSeasonWeather(world.season);
+    }
+
+    // 天気の段階的遷移 (30秒ごとに1ステップ進む)
+    if (t - env.lastWeatherStep > 30.0) {
+        env.lastWeatherStep = t;
+        const nextStep = getNextWeatherStep(world.weather, env.targetWeather);
+        if (nextStep) {
+            world.weather = nextStep;
+        }
+    }
+
+    // 災害イベントの判定 (60秒ごと、進行中のイベントがなければ)
+    if (t - env.lastEventRoll > 60.0) {
+        env.lastEventRoll = t;
+        if (!world.weatherEvent) {
+            const type = shouldTriggerWeatherEvent(world.weather, world.temperature, world.day, world.season);
+            if (type) scheduleWeatherEvent(world, type);
+        }
+    }
+
+    // 災害イベントの進行 (1秒ごと)
+    if (t - env.lastEventTick > 1.0) {
+        const tickDelta = t - env.lastEventTick;
+        env.lastEventTick = t;
+        stepWeatherEvent(world, env, t, tickDelta);
+    }
+
+    // 気温の更新 (2秒ごと)
+    if (t - env.lastTemperatureUpdate > 2.0) {
+        env.lastTemperatureUpdate = t;
+        const baseTemp = calculateTemperature(world.time, world.weather, world.season);
+        world.temperature = Math.round(getEffectiveTemperature(baseTemp, activeWeatherEvent(world), false) * 10) / 10;
+    }
+
+    // Resource regeneration (every 2 seconds, blocked by some catastrophes)
+    if (t - env.lastResourceRegen > 2.0) {
+        const regenDelta = t - env.lastResourceRegen;
+        env.lastResourceRegen = t;
+        if (!shouldBlockResourceRegen(world.weatherEvent, t)) {
+            const updated = regenerateResources(world.resourceNodes, regenDelta);
+            // Only update if any changed
+            if (updated.some((r, i) => r.capacity !== world.resourceNodes[i].capacity)) {
+                world.resourceNodes = updated;
+            }
+        }
+    }
+
+    // 環境感情ブロードキャスト (5秒ごと)
+    if (t - env.lastEmotionBroadcast > 5.0) {
+        env.lastEmotionBroadcast = t;
+        world.entityEmotions = broadcastEnvironmentEmotions(world.entityEmotions, world.time, world.weather);
+    }
+
+    // Critter spawning from minerals (every 30 seconds)
+    if (t - env.lastCritterSpawnCheck > 30.0) {
+        env.lastCritterSpawnCheck = t;
+        spawnCritterFromOre(world);
+    }
+}
+
+function stepWeatherEvent(world: World, env: EnvironmentBrain, t: number, tickDelta: number): void {
+    const event = world.weatherEvent;
+    if (!event) return;
+
+    if (world.weatherEventPhase === 'warning') {
+        if (t >= event.startTime) {
+            // Warning period over → event begins
+            world.weatherEventPhase = 'active';
+            world.weatherWarning = null;
+            const baseWeather = WEATHER_EVENT_BASE_WEATHER[event.type];
+            if (baseWeather) env.targetWeather = baseWeather;
+            emit(world, { type: 'catastrophe', phase: 'start', weatherEvent: event });
+        } else {
+            world.weatherWarning = getWeatherWarning(event, t);
+        }
+    } else if (world.weatherEventPhase === 'active') {
+        if (isWeatherEventActive(event, t)) {
+            // Damage everyone outside shelter
+            const positions = world.entityPositions;
+            const robotPos = positions['robot'];
+            const robotShelter = robotPos ? getShelterTypeAt(robotPos, world.buildings) : 'none';
+            world.robotStatus = applyWeatherDamage(
+                event, world.robotStatus, createDefaultCritterStatus(), tickDelta,
+                robotShelter !== 'none', robotShelter
+            ).robot;
+
+            const statuses = { ...world.critterStatuses };
+            for (const critter of world.critterRegistry) {
+                if (!critter.isAlive) continue;
+                const vitals = statuses[critter.id];
+                if (!vitals || vitals.isDead) continue;
+                const pos = positions[critter.id];
+                const shelter = pos ? getShelterTypeAt(pos, world.buildings) : 'none';
+                statuses[critter.id] = applyWeatherDamage(
+                    event, world.robotStatus, vitals, tickDelta,
+                    shelter !== 'none', shelter
+                ).critter;
+            }
+            world.critterStatuses = statuses;
+        } else {
+            // Event has passed
+            world.weatherEvent = null;
+            world.weatherEventPhase = null;
+            world.weatherWarning = null;
+            world.combatStats = { ...world.combatStats, catastrophesSurvived: world.combatStats.catastrophesSurvived + 1 };
+            emit(world, { type: 'catastrophe', phase: 'end', weatherEvent: event });
+        }
+    }
+}
+
+function broadcastEnvironmentEmotions(
+    emotions: Record<string, EmotionState>,
+    time: number,
+    weather: WeatherType
+): Record<string, EmotionState> {
+    const result: Record<string, EmotionState> = {};
+    for (const [id, current] of Object.entries(emotions)) {
+        let emotion = current;
+
+        // Weather effects (low intensity)
+        if (weather === 'rainy') emotion = applyEmotionEvent(emotion, 'weather_rain', 0.3);
+        else if (weather === 'snowy') emotion = applyEmotionEvent(emotion, 'weather_snow', 0.3);
+        else if (weather === 'sunny') emotion = applyEmotionEvent(emotion, 'weather_sunny', 0.3);
+
+        // Time effects
+        if (time < 5 || time > 21) {
+            emotion = applyEmotionEvent(emotion, 'night_time', 0.3);
+        } else if (time >= 5 && time < 7) {
+            emotion = applyEmotionEvent(emotion, 'dawn', 0.3);
+        }
+
+        result[id] = emotion;
+    }
+    return result;
+}
+
+// Critters are numbered by the registry's length, skipping names already taken (a sandbox spawn may have been undone)
+function unusedCritterId(world: World, nameFor: (n: number) => string): string {
+    const taken = new Set(world.critterRegistry.map(c => c.id));
+    let n = world.critterRegistry.length;
+    while (taken.has(nameFor(n))) n++;
+    return nameFor(n);
+}
+
+function spawnCritterFromOre(world: World): void {
+    const aliveCount = world.critterRegistry.filter(c => c.isAlive).length;
+    if (aliveCount >= 3) return;
+
+    // Find mineral ores with enough capacity
+    const validOres = world.resourceNodes.filter(r => r.type === 'mineral_ore' && r.capacity > 0.3);
+    if (validOres.length === 0) return;
+
+    const ore = validOres[Math.floor(random() * validOres.length)];
+    const newId = unusedCritterId(world, n => `Critter-${String.fromCharCode(65 + n)}`);
+
+    // Random color mutation from base colors
+    const baseColor = CRITTER_BASE_COLORS[Math.floor(random() * CRITTER_BASE_COLORS.length)];
+    const entry: CritterRegistryEntry = {
+        id: newId,
+        name: newId,
+        color: mutateColor(baseColor),
+        spawnPosition: [
+            ore.position.x + (random() - 0.5) * 4,
+            0.5,
+            ore.position.z + (random() - 0.5) * 4,
+        ],
+        isAlive: true,
+        generation: 0,
+    };
+
+    Object.assign(world, registerCritter(world, entry));
+
+    // Consume ore capacity
+    updateResourceNode(world, ore.id, { capacity: ore.capacity - 0.3 });
+
+    emit(world, {
+        type: 'birth',
+        entityId: newId,
+        parentId: null,
+        generation: 0,
+        position: { x: entry.spawnPosition[0], z: entry.spawnPosition[2] },
+    });
+}
+
+// ========================================
+// Robot
+// ========================================
+
+function createRobotBrain(world: World, t: number): RobotBrain {
+    return {
+        mode: 'IDLE',
+        target: null,
+        nextDecisionTime: t + 0.5,
+        emotion: { value: { ...DEFAULT_EMOTION }, synced: undefined },
+        status: { value: world.robotStatus, synced: world.robotStatus },
+        needs: world.entityNeeds['robot'] ?? createDefaultNeeds('robot'),
+        lastEmotionSync: t,
+        lastStatusSync: t,
+        lastNeedsSync: t,
+        seekingShelter: false,
+        // Resume an unfinished site after reload
+        buildTargetId: world.buildings.find(b => !b.built)?.id ?? null,
+        lastBuildTick: t,
+        isBuilding: false,
+        disabled: !isRobotFunctional(world.robotStatus),
+        craftJob: null,
+        lastCraftTick: t,
+        lastGatherTime: t,
+        lastToolNotice: -Infinity,
+        lastThinkTime: t,
+        isThinking: false,
+        intent: null,
+        pendingThought: null,
+    };
+}
+
+function stepRobot(world: World, delta: number): void {
+    const rt = world.runtime;
+    const t = rt.clock;
+    const brain = rt.robot ??= createRobotBrain(world, t);
+    const body = bodyOf(rt, 'robot', ROBOT_SPAWN);
+    const conversing = rt.conversing.has('robot');
+
+    // A thought that arrived since the last step
+    if (brain.pendingThought) {
+        const { result, directive } = brain.pendingThought;
+        brain.pendingThought = null;
+        brain.intent = result;
+        Object.assign(world, appendRobotThought(world, {
+            thought: result.thought,
+            action: result.action,
+            timestamp: world.gameMinutes,
+            gameTime: formatGameTime(world.day, world.time),
+        }));
+        logActivity(world, {
+            category: 'thought',
+            importance: 'low',
+            entityId: 'robot',
+            title: result.action,
+            content: result.thought,
+            icon: '💭',
+        });
+        remember(world, 'robot', createMemory(`[思考] ${result.thought}`, 'observation', ['self'], 0.5));
+        // Clear user directive after consuming
+        if (directive && world.userDirective === directive) {
+            world.userDirective = null;
+        }
+    }
+
+    // Emotion decay (sync to the world every 1s; dialogue reactions arrive through the world)
+    adopt(brain.emotion, world.entityEmotions['robot']);
+    brain.emotion.value = decayEmotions(brain.emotion.value, delta);
+    if (t - brain.lastEmotionSync > 1.0) {
+        publishEmotion(world, 'robot', brain.emotion);
+        brain.lastEmotionSync = t;
+    }
+
+    // Needs decay
+    const isNight = isNightTime(world.time);
+    brain.needs = decayNeeds(brain.needs, delta, 'robot', isNight);
+
+    // --- Survival: battery drain/charge, temperature, wear ---
+    // Adopt external changes (weather damage etc.) written to the world since our last sync
+    adopt(brain.status, world.robotStatus);
+    if (!brain.status.value.isDead) {
+        tickRobotSurvival(world, brain, body, delta, isNight, conversing);
+    }
+
+    // --- Material gathering (every 3s while standing at a material node) ---
+    if (!brain.disabled && !brain.isBuilding && !conversing && t - brain.lastGatherTime > 3.0) {
+        brain.lastGatherTime = t;
+        gatherMaterials(world, brain, body, t);
+    }
+
+    // Needs sync (every 1s)
+    if (t - brain.lastNeedsSync > 1.0) {
+        world.entityNeeds = { ...world.entityNeeds, robot: { ...brain.needs } };
+        brain.lastNeedsSync = t;
+    }
+
+    // --- AI Thinking Loop (every 20 simulated seconds = 1 game hour) ---
+    if (rt.llm.isAvailable() && !brain.disabled && !brain.isThinking && t - brain.lastThinkTime > 20) {
+        brain.lastThinkTime = t;
+        brain.isThinking = true;
+        const request = buildRobotThoughtRequest(world, brain);
+        whenThought(
+            () => rt.llm.robotThought(request),
+            (result) => { brain.pendingThought = { result, directive: request.directive }; },
+            () => { brain.isThinking = false; },
+            'AI thinking failed:'
+        );
+    }
+
+    // --- Construction progress (while standing at the site) ---
+    brain.isBuilding = false;
+    if (brain.buildTargetId && !brain.disabled && !conversing) {
+        stepConstruction(world, brain, body, t);
+    }
+
+    // --- Crafting progress (at the workshop when one is used) ---
+    if (brain.craftJob && !brain.disabled && !brain.isBuilding && !conversing) {
+        stepCrafting(world, brain, body, t);
+    }
+
+    // --- Activity-Based AI Logic (the player decides while piloting) ---
+    if (rt.manual) {
+        if (rt.manual.interact) {
+            rt.manual.interact = false;
+            if (!brain.disabled && !conversing) interactWithResource(world, brain, body, t);
+        }
+    } else if (!brain.disabled && !conversing && t > brain.nextDecisionTime) {
+        decideRobotActivity(world, brain, t);
+    }
+
+    // --- Movement ---
+    let motion = STILL;
+    if (rt.manual) {
+        const steering = Math.sqrt(rt.manual.x ** 2 + rt.manual.z ** 2);
+        brain.mode = steering > 0 ? 'MOVING' : 'IDLE';
+        if (!brain.disabled && !conversing && steering > 0) {
+            const sheltered = getShelterTypeAt(body, world.buildings) !== 'none';
+            const speed = getMovementSpeed(MANUAL_SPEED * emotionToSpeedMultiplier(brain.emotion.value), activeWeatherEvent(world), sheltered);
+            motion = { x: rt.manual.x * speed, y: 0, z: rt.manual.z * speed };
+        }
+    } else if (!brain.disabled && !conversing && brain.mode === 'MOVING' && brain.target) {
+        if (distance(body, brain.target) < 1.0) {
+            brain.mode = 'IDLE';
+            brain.target = null;
+            brain.nextDecisionTime = t + 2 + random() * 2;
+        } else {
+            const activityPattern = getActivityMovementPattern(world.entityActivities['robot']?.current || 'forage');
+            const sheltered = getShelterTypeAt(body, world.buildings) !== 'none';
+            const speed = getMovementSpeed(
+                3.0 * emotionToSpeedMultiplier(brain.emotion.value) * activityPattern.speedMultiplier,
+                activeWeatherEvent(world),
+                sheltered
+            );
+            motion = heading(body, brain.target, speed);
+        }
+    }
+    rt.motion['robot'] = motion;
+}
+
+function tickRobotSurvival(world: World, brain: RobotBrain, body: Vec3, delta: number, isNight: boolean, conversing: boolean): void {
+    const t = world.runtime.clock;
+    const load = brain.disabled ? 'idle'
+        : brain.mode === 'MOVING' ? 'moving'
+        : (conversing || brain.isThinking || brain.isBuilding || brain.craftJob) ? 'working'
+        : 'idle';
+    let status = updateRobotBattery(brain.status.value, delta, load);
+
+    // Solar charging during day
+    if (!isNight && world.weather === 'sunny') {
+        status = chargeRobotBattery(status, delta, 'solar');
+    }
+
+    // Energy node charging: if near energy node, recharge
+    const energyNodes = getNearbyResources(world.resourceNodes, body.x, body.z, 2.5, ['energy_node']);
+    if (energyNodes.length > 0 && energyNodes[0].distance < 2.5) {
+        status = chargeRobotBattery(status, delta, 'energy_node');
+        updateResourceNode(world, energyNodes[0].id, { capacity: Math.max(0, energyNodes[0].capacity - 0.02 * delta) });
+    }
+
+    status = updateRobotTemperature(status, world.temperature, delta, getShelterTypeAt(body, world.buildings) !== 'none');
+    status = applyRobotWear(status, delta, load);
+    if (status.durability < ROBOT_CONSTANTS.SELF_REPAIR_THRESHOLD && status.repairParts <= 0 && (world.inventory.repair_kit ?? 0) > 0) {
+        // Unpack a crafted repair kit into a spare part
+        world.inventory = { ...world.inventory, repair_kit: world.inventory.repair_kit - 1 };
+        status = { ...status, repairParts: status.repairParts + 1 };
+    }
+    if (status.durability < ROBOT_CONSTANTS.SELF_REPAIR_THRESHOLD && status.repairParts > 0) {
+        status = repairRobot(status);
+        logActivity(world, {
+            category: 'event',
+            importance: 'normal',
+            entityId: 'robot',
+            content: `修理部品を使って自己修復した (残り${status.repairParts}個)`,
+            icon: '🔧',
+        });
+    }
+    status = updateRobotMalfunction(status, delta * GAME_SECONDS_PER_SECOND);
+    brain.status.value = status;
+
+    // Functional state transitions
+    const disabled = !isRobotFunctional(status);
+    if (disabled !== brain.disabled) {
+        brain.disabled = disabled;
+        if (disabled) {
+            brain.mode = 'IDLE';
+            brain.target = null;
+            brain.intent = null;
+            const wornOut = status.durability <= 0;
+            remember(world, 'robot', createMemory(wornOut ? '体が壊れて動けなくなった' : 'バッテリーが切れて動けなくなった', 'event', ['self'], 0.9, 0.6));
+            logActivity(world, {
+                category: 'warning',
+                importance: 'critical',
+                entityId: 'robot',
+                content: wornOut ? '耐久性が尽きて機能停止した' : 'バッテリー切れで機能停止した',
+                icon: '⚠️',
+            });
+        } else if (!status.isDead) {
+            remember(world, 'robot', createMemory('充電されて再起動した', 'event', ['self'], 0.7));
+            logActivity(world, {
+                category: 'event',
+                importance: 'high',
+                entityId: 'robot',
+                content: '再起動に成功した',
+                icon: '🔋',
+            });
+        }
+    }
+    if (status.isDead) {
+        logActivity(world, {
+            category: 'death',
+            importance: 'critical',
+            entityId: 'robot',
+            content: '長時間の機能停止により、Unit-01は完全に停止した',
+            icon: '💀',
+        });
+    }
+
+    // Battery is the robot's energy need
+    brain.needs = { ...brain.needs, energy: status.battery / 100 };
+
+    // Status sync (every 1s, and right away on death)
+    if (status.isDead || t - brain.lastStatusSync > 1.0) {
+        const copy = { ...status };
+        world.robotStatus = copy;
+        brain.status.synced = copy;
+        brain.lastStatusSync = t;
+    }
+}
+
+function gatherMaterials(world: World, brain: RobotBrain, body: Vec3, t: number): void {
+    const node = getNearbyResources(world.resourceNodes, body.x, body.z, 1.0, MATERIAL_TYPES)[0];
+    if (node) gatherFrom(world, brain, node, t);
+}
+
+// Piloted interaction: gather a material node, or take a look at anything else in reach
+function interactWithResource(world: World, brain: RobotBrain, body: Vec3, t: number): void {
+    const node = getNearbyResources(world.resourceNodes, body.x, body.z, MANUAL_REACH)[0];
+    if (!node) {
+        logActivity(world, { category: 'event', importance: 'low', entityId: 'robot', content: '近くに使える資源がない', icon: '🤷' });
+        return;
+    }
+    if (MATERIAL_TYPES.includes(node.type)) {
+        brain.lastGatherTime = t;
+        gatherFrom(world, brain, node, t);
+        return;
+    }
+    logActivity(world, {
+        category: 'event',
+        importance: 'low',
+        entityId: 'robot',
+        content: `${node.name}を調べた (残量${Math.round(node.capacity * 100)}%)`,
+        icon: '🔎',
+    });
+    remember(world, 'robot', createMemory(`${node.name}を調べた`, 'observation', ['self'], 0.3));
+}
+
+function gatherFrom(world: World, brain: RobotBrain, node: ResourceNode, t: number): void {
+    const hasTool = (world.inventory.tool ?? 0) > 0;
+    const result = attemptGatherResource(node, hasTool);
+    if (!result.success) {
+        if (t - brain.lastToolNotice > 60) {
+            brain.lastToolNotice = t;
+            logActivity(world, {
+                category: 'event',
+                importance: 'low',
+                entityId: 'robot',
+                content: `道具がないと${node.name}は採取できない`,
+                icon: '🔒',
+            });
+        }
+        return;
+    }
+
+    const units = getGatherYield(node, result.amount);
+    world.inventory = { ...world.inventory, [node.type]: (world.inventory[node.type] || 0) + units };
+    updateResourceNode(world, node.id, { capacity: Math.max(0, node.capacity - result.amount) });
+    logActivity(world, {
+        category: 'event',
+        importance: 'low',
+        entityId: 'robot',
+        content: `${node.name}を${units}個採取した`,
+        icon: '⛏️',
+    });
+    if (result.damaged) {
+        brain.status.value = {
+            ...brain.status.value,
+            durability: Math.max(0, brain.status.value.durability - ROBOT_CONSTANTS.GATHER_DAMAGE),
+        };
+        logActivity(world, {
+            category: 'warning',
+            importance: 'normal',
+            entityId: 'robot',
+            content: `${node.name}の採取中に損傷を受けた (耐久性 -${ROBOT_CONSTANTS.GATHER_DAMAGE})`,
+            icon: '⚠️',
+        });
+    }
+}
+
+function buildRobotThoughtRequest(world: World, brain: RobotBrain): RobotThoughtRequest {
+    const robotPos = world.entityPositions['robot'];
+    const nearbyEntities = nearbyEntitiesOf(world, 'robot', 30).slice(0, 5);
+
+    const relevantMemories = selectRelevantMemories(world.robotMemories, nearbyEntities.map(e => e.id), 5);
+    const memContext = memoriesToPromptContext(relevantMemories);
+    const emotionCtx = emotionToDialogueContext(brain.emotion.value);
+    const needsCtx = needsToDialogueContext(brain.needs, 'robot');
+    const timeStr = formatGameTime(world.day, world.time).split(', ')[1];
+
+    // Build previous thoughts context
+    const recentThoughts = world.robotThoughts.slice(-3);
+    const prevThoughtsCtx = recentThoughts.length > 0
+        ? recentThoughts.map(t => `[${t.gameTime}] 思考:「${t.thought}」→ 行動: ${t.action}`).join('\n')
+        : 'なし';
+
+    // Check for user directive
+    const userDirective = world.userDirective;
+    const buildable = getAvailableBuildings(world.inventory);
+    const craftable = getCraftableRecipes(world.inventory);
+
+    const prompt = `現在地: (${(robotPos?.x ?? 0).toFixed(0)}, ${(robotPos?.z ?? 0).toFixed(0)})
+時刻: ${timeStr} / Day ${world.day} / ${world.season}
+天気: ${world.weather} / 気温: ${world.temperature}°C
+${emotionCtx}
+${needsCtx ? needsCtx : ''}
+近くのエンティティ: ${nearbyEntities.length > 0 ? nearbyEntities.map(e => `${e.id}(距離${e.distance.toFixed(0)})`).join(', ') : 'なし'}
+所持素材: ${Object.entries(world.inventory).map(([item, n]) => `${item}×${n}`).join(', ') || 'なし'}
+建設可能: ${buildable.join(', ') || 'なし'}${brain.buildTargetId ? ' (建設中の建物あり)' : ''}
+製作可能: ${craftable.join(', ') || 'なし'}${brain.craftJob ? ` (${RECIPES[brain.craftJob.recipeId].name}を製作中)` : ''}
+前回の思考:
+${prevThoughtsCtx}
+${userDirective ? `\nユーザーからの指示: ${userDirective}` : ''}
+最近の記憶:
+${memContext}`;
+
+    return {
+        prompt,
+        needs: brain.needs,
+        status: brain.status.value,
+        inventory: world.inventory,
+        buildable,
+        craftable,
+        isBuilding: brain.buildTargetId !== null,
+        isCrafting: brain.craftJob !== null,
+        directive: userDirective,
+        weatherEvent: world.weatherEvent,
+    };
+}
+
+// Pick a site, pay for materials and register the construction site
+function startConstruction(world: World, brain: RobotBrain, type: BuildingType, reason: string): boolean {
+    const robotPos = world.entityPositions['robot'];
+    if (!robotPos) return false;
+    const template = BUILDING_TEMPLATES[type];
+
+    const site = findBuildSite(robotPos, world.buildings, world.resourceNodes);
+    if (!site) {
+        logActivity(world, {
+            category: 'build',
+            importance: 'low',
+            entityId: 'robot',
+            content: `${template.name}を建てられる場所が見つからない`,
+            icon: '🚧',
+        });
+        return false;
+    }
+
+    const building = createBuilding(type, { x: site.x, y: getTerrainHeight(site.x, site.z), z: site.z });
+    if (!hasRequiredMaterials(building, world.inventory)) {
+        logActivity(world, {
+            category: 'build',
+            importance: 'low',
+            entityId: 'robot',
+            content: `${template.name}を建てる素材が足りない`,
+            icon: '🚧',
+        });
+        remember(world, 'robot', createMemory(`${template.name}を建てようとしたが素材が足りなかった`, 'observation', ['self'], 0.4));
+        return false;
+    }
+
+    world.inventory = consumeMaterials(building, world.inventory);
+    world.buildings = [...world.buildings, building];
+    brain.buildTargetId = building.id;
+    setActivity(world, 'robot', { current: 'build', startedAt: world.gameMinutes, duration: toGameMinutes(building.constructionTime), targetBuildingId: building.id });
+    logActivity(world, {
+        category: 'build',
+        importance: 'normal',
+        entityId: 'robot',
+        content: `${template.name}の建設を開始した (${reason})`,
+        icon: '🏗️',
+    });
+    remember(world, 'robot', createMemory(`(${site.x.toFixed(0)}, ${site.z.toFixed(0)})で${template.name}の建設を始めた`, 'event', ['self'], 0.7));
+    return true;
+}
+
+// Pay for ingredients and start a crafting job, at the nearest workshop if there is one
+function startCrafting(world: World, brain: RobotBrain, recipeId: RecipeId, reason: string): boolean {
+    const recipe = RECIPES[recipeId];
+
+    if (!canCraft(recipe, world.inventory)) {
+        logActivity(world, {
+            category: 'event',
+            importance: 'low',
+            entityId: 'robot',
+            content: `${recipe.name}を作る素材が足りない`,
+            icon: '🔧',
+        });
+        remember(world, 'robot', createMemory(`${recipe.name}を作ろうとしたが素材が足りなかった`, 'observation', ['self'], 0.4));
+        return false;
+    }
+
+    const robotPos = world.entityPositions['robot'];
+    const workshop = robotPos
+        ? world.buildings
+            .filter(b => b.type === 'workshop' && isBuildingFunctional(b))
+            .map(b => ({ b, dist: distance(b.position, robotPos) }))
+            .filter(w => w.dist < 40)
+            .sort((a, b) => a.dist - b.dist)[0]?.b
+        : undefined;
+
+    world.inventory = consumeIngredients(recipe, world.inventory);
+    brain.craftJob = { recipeId, progress: 0, workshopId: workshop?.id ?? null };
+    world.craftingJob = { recipeId, progress: 0 };
+    setActivity(world, 'robot', { current: 'craft', startedAt: world.gameMinutes, duration: toGameMinutes(recipe.craftTime), recipeId, targetBuildingId: workshop?.id });
+    logActivity(world, {
+        category: 'event',
+        importance: 'normal',
+        entityId: 'robot',
+        content: `${recipe.name}の製作を開始した (${reason})${workshop ? ` — ${workshop.name}へ向かう` : ''}`,
+        icon: '🔧',
+    });
+    return true;
+}
+
+function stepConstruction(world: World, brain: RobotBrain, body: Vec3, t: number): void {
+    const site = world.buildings.find(b => b.id === brain.buildTargetId);
+    const siteDist = site ? distance(site.position, body) : Infinity;
+
+    if (!site || site.built || world.weatherEvent || siteDist > getBuildStandoff(site) + 1.5) {
+        brain.lastBuildTick = t;
+        return;
+    }
+
+    brain.isBuilding = true;
+    if (t - brain.lastBuildTick <= 1.0) return;
+    const buildDelta = Math.min(2.0, t - brain.lastBuildTick);
+    brain.lastBuildTick = t;
+
+    // Nearby friendly critters lend a hand
+    const helpers = world.critterRegistry.filter(c => {
+        if (!c.isAlive) return false;
+        const pos = world.entityPositions[c.id];
+        if (!pos) return false;
+        return distance(pos, site.position) < site.radius + 4 && shouldApproach(getAffinity(world.relationships, 'robot', c.id));
+    });
+
+    const updated = updateConstructionProgress(site, buildDelta, 1 + helpers.length);
+    updateBuilding(world, site.id, {
+        constructionProgress: updated.constructionProgress,
+        built: updated.built,
+    });
+
+    if (updated.built) {
+        brain.buildTargetId = null;
+        setActivity(world, 'robot', { current: 'idle', startedAt: world.gameMinutes, duration: 9 });
+        brain.nextDecisionTime = t + 1;
+        emit(world, {
+            type: 'build',
+            building: world.buildings.find(b => b.id === site.id) ?? site,
+            helperIds: helpers.map(h => h.id),
+        });
+    }
+}
+
+function stepCrafting(world: World, brain: RobotBrain, body: Vec3, t: number): void {
+    const job = brain.craftJob!;
+    const recipe = RECIPES[job.recipeId];
+    const workshop = job.workshopId ? world.buildings.find(b => b.id === job.workshopId) : undefined;
+    if (job.workshopId && (!workshop || !isBuildingFunctional(workshop))) {
+        // Workshop destroyed on the way: craft on the spot instead
+        job.workshopId = null;
+    }
+
+    if (job.workshopId && !(workshop && isEntityInBuilding(body, workshop))) {
+        brain.lastCraftTick = t;
+        return;
+    }
+    if (t - brain.lastCraftTick <= 1.0) return;
+
+    const craftDelta = Math.min(2.0, t - brain.lastCraftTick);
+    brain.lastCraftTick = t;
+    job.progress = updateCraftProgress(recipe, job.progress, craftDelta, getCraftingSpeed(world.buildings, body));
+
+    if (job.progress >= 1) {
+        brain.craftJob = null;
+        world.inventory = addCraftOutputs(recipe, world.inventory);
+        world.craftingJob = null;
+        setActivity(world, 'robot', { current: 'idle', startedAt: world.gameMinutes, duration: 9 });
+        brain.nextDecisionTime = t + 1;
+        logActivity(world, {
+            category: 'event',
+            importance: 'normal',
+            entityId: 'robot',
+            content: `${recipe.name}を製作した`,
+            icon: '🛠️',
+        });
+        remember(world, 'robot', createMemory(`${recipe.name}を製作した`, 'event', ['self'], 0.6, 0.3));
+    } else {
+        world.craftingJob = { recipeId: job.recipeId, progress: job.progress };
+    }
+}
+
+function moveRobotTo(brain: RobotBrain, x: number, z: number): void {
+    brain.target = { x, z };
+    brain.mode = 'MOVING';
+}
+
+function stopRobot(brain: RobotBrain): void {
+    brain.target = null;
+    brain.mode = 'IDLE';
+}
+
+function decideRobotActivity(world: World, brain: RobotBrain, t: number): void {
+    const currentActivity = world.entityActivities['robot'];
+    const robotNow = world.entityPositions['robot'];
+
+    // Build requests: user directive ("テントを建てて") or LLM "build" action
+    if (!brain.buildTargetId && world.userDirective) {
+        const directiveType = parseBuildDirective(world.userDirective);
+        if (directiveType) {
+            world.userDirective = null;
+            startConstruction(world, brain, directiveType, 'ユーザーの指示');
+        }
+    }
+    if (brain.intent?.action === 'build') {
+        const intent = brain.intent;
+        brain.intent = null;
+        const type = intent.building_type ?? getAvailableBuildings(world.inventory)[0];
+        if (!brain.buildTargetId && type) {
+            startConstruction(world, brain, type, intent.reason || '自分の判断');
+        }
+    }
+
+    // Craft requests: UI button, user directive ("道具を作って") or LLM "craft" action
+    if (!brain.craftJob && world.craftRequest) {
+        const recipeId = world.craftRequest;
+        world.craftRequest = null;
+        startCrafting(world, brain, recipeId, 'ユーザーの指示');
+    }
+    if (!brain.craftJob && world.userDirective) {
+        const recipeId = parseCraftDirective(world.userDirective);
+        if (recipeId) {
+            world.userDirective = null;
+            startCrafting(world, brain, recipeId, 'ユーザーの指示');
+        }
+    }
+    if (brain.intent?.action === 'craft') {
+        const intent = brain.intent;
+        brain.intent = null;
+        const recipeId = intent.recipe_id ?? getCraftableRecipes(world.inventory)[0];
+        if (!brain.craftJob && recipeId) {
+            startCrafting(world, brain, recipeId, intent.reason || '自分の判断');
+        }
+    }
+
+    if (world.weatherEvent && robotNow) {
+        // Catastrophe warning/active: take cover in the nearest shelter
+        if (!brain.seekingShelter) {
+            brain.seekingShelter = true;
+            remember(world, 'robot', createMemory(`${world.weatherEvent.name}に備えて避難した`, 'event', ['environment'], 0.7));
+            logActivity(world, {
+                category: 'event',
+                importance: 'normal',
+                entityId: 'robot',
+                content: `${world.weatherEvent.name}に備えて避難行動をとる`,
+                icon: '🏠',
+            });
+        }
+        const shelter = findNearestShelter(robotNow, world.buildings);
+        if (currentActivity?.current !== 'flee') {
+            setActivity(world, 'robot', { current: 'flee', startedAt: world.gameMinutes, duration: 90 });
+        }
+        if (shelter && getShelterTypeAt(robotNow, world.buildings) === 'none') {
+            moveRobotTo(brain, shelter.position.x, shelter.position.z);
+        } else {
+            // Already sheltered, or nowhere to go: hunker down
+            stopRobot(brain);
+        }
+        brain.nextDecisionTime = t + 3;
+    } else if (brain.buildTargetId && robotNow) {
+        // Construction: walk to the site and stand beside it
+        const site = world.buildings.find(b => b.id === brain.buildTargetId);
+        if (!site || site.built) {
+            brain.buildTargetId = null;
+            brain.nextDecisionTime = t;
+        } else {
+            const standoff = getBuildStandoff(site);
+            const dx = robotNow.x - site.position.x;
+            const dz = robotNow.z - site.position.z;
+            const dist = Math.sqrt(dx * dx + dz * dz);
+            if (dist > standoff + 1.5) {
+                const k = standoff / Math.max(dist, 0.001);
+                moveRobotTo(brain, site.position.x + dx * k, site.position.z + dz * k);
+            } else {
+                stopRobot(brain);
+            }
+            if (currentActivity?.current !== 'build') {
+                setActivity(world, 'robot', { current: 'build', startedAt: world.gameMinutes, duration: toGameMinutes(site.constructionTime), targetBuildingId: site.id });
+            }
+            brain.nextDecisionTime = t + 2;
+        }
+    } else if (brain.craftJob && robotNow) {
+        // Crafting: walk into the workshop if we are using one, otherwise work in place
+        const job = brain.craftJob;
+        const workshop = job.workshopId ? world.buildings.find(b => b.id === job.workshopId) : undefined;
+        if (workshop && !isEntityInBuilding(robotNow, workshop)) {
+            const standoff = getBuildStandoff(workshop);
+            const dx = robotNow.x - workshop.position.x;
+            const dz = robotNow.z - workshop.position.z;
+            const k = standoff / Math.max(Math.sqrt(dx * dx + dz * dz), 0.001);
+            moveRobotTo(brain, workshop.position.x + dx * k, workshop.position.z + dz * k);
+        } else {
+            stopRobot(brain);
+        }
+        if (currentActivity?.current !== 'craft') {
+            setActivity(world, 'robot', { current: 'craft', startedAt: world.gameMinutes, duration: toGameMinutes(RECIPES[job.recipeId].craftTime), recipeId: job.recipeId, targetBuildingId: job.workshopId ?? undefined });
+        }
+        brain.nextDecisionTime = t + 2;
+    } else if (shouldSwitchActivity(currentActivity)) {
+        brain.seekingShelter = false;
+        chooseRobotActivity(world, brain, t);
+    } else if (brain.mode === 'MOVING' && !brain.target) {
+        brain.mode = 'IDLE';
+        brain.nextDecisionTime = t + 2 + random() * 2;
+    } else if (brain.mode === 'IDLE') {
+        // Continue current activity with new wander target
+        const pattern = getActivityMovementPattern(currentActivity?.current || 'forage');
+        if (random() > pattern.pauseChance) {
+            const r = pattern.wanderRadius || 10;
+            const cx = robotNow?.x ?? 0;
+            const cz = robotNow?.z ?? 0;
+            moveRobotTo(brain, clampToWorld(cx + (random() - 0.5) * 2 * r), clampToWorld(cz + (random() - 0.5) * 2 * r));
+        }
+        brain.nextDecisionTime = t + 3 + random() * 3;
+    } else {
+        stopRobot(brain);
+        brain.nextDecisionTime = t + 2 + random() * 2;
+    }
+}
+
+function chooseRobotActivity(world: World, brain: RobotBrain, t: number): void {
+    const positions = world.entityPositions;
+    const robotPos = positions['robot'];
+    const nearbyEntities = nearbyEntitiesOf(world, 'robot', 30);
+    const desires = computeDesires(brain.needs, 'robot');
+    const newActivity = selectNextActivity(
+        brain.emotion.value,
+        world.time,
+        world.weather,
+        world.relationships,
+        'robot',
+        nearbyEntities,
+        desires
+    );
+
+    // Override activity with AI intent if available
+    let intentDirection: TargetDirection | null = null;
+    if (brain.intent) {
+        const intent = brain.intent;
+        intentDirection = intent.target_direction;
+        const validActivities: string[] = ['explore', 'forage', 'rest', 'socialize', 'seek_resource', 'patrol', 'idle'];
+        newActivity.current = (validActivities.includes(intent.action) ? intent.action : 'explore') as typeof newActivity.current;
+        brain.intent = null; // consumed
+    }
+
+    // If seeking resource (energy), find nearest energy node
+    if (newActivity.current === 'seek_resource' && robotPos) {
+        const nearbyRes = getNearbyResources(world.resourceNodes, robotPos.x, robotPos.z, 50, ['energy_node']);
+        if (nearbyRes.length > 0) {
+            newActivity.targetResourceId = nearbyRes[0].id;
+        }
+    }
+
+    // If foraging, head for the nearest material node we can actually gather
+    if (newActivity.current === 'forage' && robotPos) {
+        const hasTool = (world.inventory.tool ?? 0) > 0;
+        const materials = getNearbyResources(world.resourceNodes, robotPos.x, robotPos.z, 60, MATERIAL_TYPES)
+            .filter(r => hasTool || !r.requiresTool);
+        if (materials.length > 0) {
+            newActivity.targetResourceId = materials[0].id;
+        }
+    }
+
+    // LLM spatial intent: head for the nearest known entity or the best matching resource
+    if (intentDirection === 'nearby_entity' && robotPos) {
+        const nearest = nearbyEntitiesOf(world, 'robot', Infinity).sort((a, b) => a.distance - b.distance)[0];
+        if (nearest) {
+            newActivity.targetEntityId = nearest.id;
+        }
+    } else if (intentDirection === 'resource' && robotPos) {
+        const wantsEnergy = newActivity.current === 'seek_resource'
+            || (newActivity.current !== 'forage' && brain.status.value.battery < 50);
+        const best = findBestResource(
+            world.resourceNodes, robotPos.x, robotPos.z, 80,
+            wantsEnergy ? ['energy_node'] : MATERIAL_TYPES,
+            (world.inventory.tool ?? 0) > 0
+        );
+        if (best) {
+            newActivity.targetResourceId = best.id;
+        }
+    }
+    if (intentDirection) {
+        newActivity.targetDirection = intentDirection;
+    }
+
+    const pattern = getActivityMovementPattern(newActivity.current);
+    const resNode = newActivity.targetResourceId ? world.resourceNodes.find(r => r.id === newActivity.targetResourceId) : undefined;
+
+    if (newActivity.current === 'rest') {
+        stopRobot(brain);
+        brain.nextDecisionTime = t + toSimSeconds(newActivity.duration);
+    } else if (resNode) {
+        moveRobotTo(brain, resNode.position.x, resNode.position.z);
+        newActivity.targetPosition = { x: resNode.position.x, z: resNode.position.z };
+        brain.nextDecisionTime = t + 8 + random() * 5;
+    } else if ((newActivity.current === 'socialize' || intentDirection === 'nearby_entity') && newActivity.targetEntityId) {
+        const otherPos = positions[newActivity.targetEntityId];
+        const x = otherPos ? otherPos.x + (random() - 0.5) * 3 : (random() - 0.5) * 10;
+        const z = otherPos ? otherPos.z + (random() - 0.5) * 3 : (random() - 0.5) * 10;
+        moveRobotTo(brain, x, z);
+        newActivity.targetPosition = { x, z };
+        brain.nextDecisionTime = t + 5 + random() * 5;
+    } else {
+        const r = pattern.wanderRadius;
+        const homeWeight = pattern.homeAffinity;
+        // Use current position as base, blend toward origin based on homeAffinity
+        const curX = robotPos?.x ?? 0;
+        const curZ = robotPos?.z ?? 0;
+        let x: number;
+        let z: number;
+        if (intentDirection && isCompassDirection(intentDirection)) {
+            // Compass intent: wander out along the requested heading from where we are
+            const biased = getDirectionalWanderTarget({ x: curX, z: curZ }, intentDirection, Math.max(r, 10));
+            x = biased.x;
+            z = biased.z;
+        } else {
+            x = curX * (1 - homeWeight) + (random() - 0.5) * 2 * r; // blend toward origin
+            z = curZ * (1 - homeWeight) + (random() - 0.5) * 2 * r;
+        }
+        // Clamp to world bounds
+        x = clampToWorld(x);
+        z = clampToWorld(z);
+        moveRobotTo(brain, x, z);
+        newActivity.targetPosition = { x, z };
+        brain.nextDecisionTime = t + 4 + random() * 4;
+    }
+
+    setActivity(world, 'robot', newActivity);
+}
+
+// ========================================
+// Critters
+// ========================================
+
+const CRITTER_FOOD_TYPES: ResourceType[] = ['mineral_ore', 'glowing_mushroom'];
+
+// Dead critters linger this long (sim seconds) before they leave the world
+const CRITTER_DEATH_LINGER = 3;
+
+function createCritterBrain(entry: CritterRegistryEntry, t: number): CritterBrain {
+    const [hx, , hz] = entry.spawnPosition;
+    const personalityIndex = getPersonalityIndex(entry.name);
+    return {
+        target: { x: hx + (random() - 0.5) * 4, z: hz + (random() - 0.5) * 4 },
+        home: { x: hx, z: hz },
+        nextMoveTime: t + random() * 3,
+        emotion: { value: createEmotionState(personalityIndex), synced: undefined },
+        needs: createDefaultNeeds('critter'),
+        personalityIndex,
+        lastEmotionSync: t,
+        lastNeedsSync: t,
+        lastLifecycleTick: t,
+        diedAt: null,
+        lastThinkTime: t,
+        isThinking: false,
+        intent: null,
+        pendingThought: null,
+    };
+}
+
+// Resume the saved age; founders start grown up, newborns as juveniles
+function lifecycleOf(world: SimState, entry: CritterRegistryEntry): LifecycleState {
+    const saved = world.entityLifecycles[entry.id];
+    if (saved) return saved;
+    const created = createLifecycleState(entry.generation, entry.generation === 0 ? MATURITY_AGE : 0);
+    world.entityLifecycles = { ...world.entityLifecycles, [entry.id]: created };
+    return created;
+}
+
+function stepCritter(world: World, entry: CritterRegistryEntry, delta: number): void {
+    const rt = world.runtime;
+    const t = rt.clock;
+    const name = entry.id;
+    const [sx, sy, sz] = entry.spawnPosition;
+    const brain = rt.critters[name] ??= createCritterBrain(entry, t);
+    const body = bodyOf(rt, name, { x: sx, y: sy, z: sz });
+    const conversing = rt.conversing.has(name);
+    lifecycleOf(world, entry);
+
+    // Dead: stay still, then leave the world and let the neighbours grieve
+    if (brain.diedAt !== null) {
+        rt.motion[name] = STILL;
+        if (t - brain.diedAt > CRITTER_DEATH_LINGER) {
+            retireDeadCritter(world, name);
+        }
+        return;
+    }
+
+    // A thought that arrived since the last step
+    if (brain.pendingThought) {
+        const result = brain.pendingThought;
+        brain.pendingThought = null;
+        brain.intent = result;
+        Object.assign(world, appendCritterThought(world, name, {
+            thought: result.thought,
+            action: result.action,
+            timestamp: world.gameMinutes,
+            gameTime: formatGameTime(world.day, world.time),
+            critterName: name,
+            color: entry.color,
+        }));
+        logActivity(world, {
+            category: 'thought',
+            importance: 'low',
+            entityId: name,
+            title: result.action,
+            content: result.thought,
+            icon: '💭',
+        });
+        remember(world, name, createMemory(`[思考] ${result.thought}`, 'observation', ['self'], 0.3));
+    }
+
+    // Emotion decay
+    adopt(brain.emotion, world.entityEmotions[name]);
+    brain.emotion.value = decayEmotions(brain.emotion.value, delta);
+    if (t - brain.lastEmotionSync > 1.0) {
+        publishEmotion(world, name, brain.emotion);
+        brain.lastEmotionSync = t;
+    }
+
+    // Needs decay
+    const isNight = isNightTime(world.time);
+    brain.needs = decayNeeds(brain.needs, delta, 'critter', isNight);
+
+    // Needs sync to the world (every 1s)
+    if (t - brain.lastNeedsSync > 1.0) {
+        world.entityNeeds = { ...world.entityNeeds, [name]: { ...brain.needs } };
+        brain.lastNeedsSync = t;
+
+        // Low hunger → emotion effect
+        if (brain.needs.hunger < 0.25) {
+            brain.emotion.value = applyEmotionEvent(brain.emotion.value, 'hunger_low', 0.3);
+        }
+    }
+
+    // Lifecycle + vitals tick (every 1s)
+    if (t - brain.lastLifecycleTick > 1.0) {
+        const tickDelta = t - brain.lastLifecycleTick;
+        brain.lastLifecycleTick = t;
+        tickCritterLife(world, entry, brain, body, tickDelta, isNight, conversing);
+        if (brain.diedAt !== null) {
+            rt.motion[name] = STILL;
+            return;
+        }
+    }
+
+    // --- Critter AI Thinking Loop (30~45 second interval, staggered by personality) ---
+    const thinkInterval = 30 + (brain.personalityIndex * 5);
+    if (rt.llm.isAvailable() && !brain.isThinking && !conversing && t - brain.lastThinkTime > thinkInterval) {
+        brain.lastThinkTime = t;
+        brain.isThinking = true;
+        const request = buildCritterThoughtRequest(world, name, brain, isNight);
+        whenThought(
+            () => rt.llm.critterThought(request),
+            (result) => { brain.pendingThought = result; },
+            () => { brain.isThinking = false; },
+            `${name} thinking failed:`
+        );
+    }
+
+    rt.motion[name] = conversing ? STILL : moveCritter(world, entry, brain, body, t);
+}
+
+function tickCritterLife(
+    world: World,
+    entry: CritterRegistryEntry,
+    brain: CritterBrain,
+    body: Vec3,
+    tickDelta: number,
+    isNight: boolean,
+    conversing: boolean
+): void {
+    const name = entry.id;
+    const t = world.runtime.clock;
+    const tickMinutes = toGameMinutes(tickDelta);
+    const previous = lifecycleOf(world, entry);
+    let lifecycle = tickLifecycle(previous, tickMinutes);
+
+    const stage = getLifeStage(lifecycle);
+    if (stage !== getLifeStage(previous)) {
+        logActivity(world, {
+            category: 'event',
+            importance: 'low',
+            entityId: name,
+            content: `${name}が${LIFE_STAGE_TRAITS[stage].label}になった`,
+            icon: stage === 'adult' ? '🌱' : '🍂',
+        });
+    }
+
+    // Start from the world copy so damage dealt elsewhere is not lost
+    let vitals = world.critterStatuses[name] ?? createDefaultCritterStatus();
+    const activityNow = world.entityActivities[name]?.current;
+    vitals = tickCritterVitals(vitals, tickDelta, {
+        isNight,
+        ambientTemp: world.temperature,
+        activity: activityNow === 'rest' ? 'resting' : 'active',
+        inShelter: getShelterTypeAt(body, world.buildings) !== 'none',
+    });
+
+    // Eating: near a food resource restores hunger
+    if (!conversing && !vitals.isDead) {
+        const food = getNearbyResources(world.resourceNodes, body.x, body.z, 2.0, CRITTER_FOOD_TYPES)[0];
+        if (food && food.distance < 2.0 && vitals.hunger < 100) {
+            vitals = feedCritter(vitals, CRITTER_CONSTANTS.FOOD_VALUE);
+            brain.needs = satisfyNeed(brain.needs, 'comfort', 0.05);
+            updateResourceNode(world, food.id, { capacity: Math.max(0, food.capacity - 0.05) });
+        }
+    }
+
+    if (isLifespanOver(lifecycle)) {
+        vitals = killCritter(vitals, 'old_age');
+    }
+
+    world.critterStatuses = { ...world.critterStatuses, [name]: vitals };
+    brain.needs = syncNeedsWithVitals(brain.needs, vitals);
+
+    // Sickness → emotion
+    if (getCritterHealthStatus(vitals) === 'sick') {
+        brain.emotion.value = applyEmotionEvent(brain.emotion.value, 'sick', 0.2);
+    }
+
+    // Death
+    if (vitals.isDead) {
+        brain.diedAt = t;
+        world.entityLifecycles = { ...world.entityLifecycles, [name]: lifecycle };
+        emit(world, {
+            type: 'death',
+            entityId: name,
+            cause: vitals.causeOfDeath ?? 'sickness',
+            position: world.entityPositions[name] ?? { x: body.x, z: body.z },
+        });
+        return;
+    }
+
+    // Reproduction check
+    const aliveCount = world.critterRegistry.filter(c => c.isAlive).length;
+    if (checkReproduction(lifecycle, vitals, tickMinutes, aliveCount)) {
+        lifecycle = { ...lifecycle, reproductionCooldown: REPRODUCTION_COOLDOWN_AFTER_BIRTH };
+        if (aliveCount < 8) {
+            giveBirth(world, entry, brain, lifecycle.generation + 1);
+        }
+    }
+
+    world.entityLifecycles = { ...world.entityLifecycles, [name]: lifecycle };
+}
+
+function giveBirth(world: World, parent: CritterRegistryEntry, brain: CritterBrain, generation: number): void {
+    const name = parent.id;
+    const myPos = world.entityPositions[name] || { x: parent.spawnPosition[0], z: parent.spawnPosition[2] };
+    const childId = unusedCritterId(world, n => `Critter-${Math.floor(world.gameMinutes).toString(36)}-${n}`);
+    const spawnX = myPos.x + (random() - 0.5) * 4;
+    const spawnZ = myPos.z + (random() - 0.5) * 4;
+    Object.assign(world, registerCritter(world, {
+        id: childId,
+        name: childId,
+        color: mutateColor(parent.color),
+        spawnPosition: [spawnX, 0.5, spawnZ],
+        isAlive: true,
+        generation,
+        parentId: name,
+    }));
+
+    brain.emotion.value = applyEmotionEvent(brain.emotion.value, 'new_birth');
+    emit(world, { type: 'birth', entityId: childId, parentId: name, generation, position: { x: spawnX, z: spawnZ } });
+}
+
+function retireDeadCritter(world: World, name: string): void {
+    Object.assign(world, retireCritter(world, name));
+    forgetEntity(world.runtime, name);
+}
+
+function buildCritterThoughtRequest(world: World, name: string, brain: CritterBrain, isNight: boolean): CritterThoughtRequest {
+    const myPos = world.entityPositions[name];
+    const nearbyEntities = nearbyEntitiesOf(world, name, 25).slice(0, 4);
+
+    const relevantMemories = selectRelevantMemories(world.critterMemories[name] || [], nearbyEntities.map(e => e.id), 3);
+    const memContext = memoriesToPromptContext(relevantMemories);
+    const emotionCtx = emotionToDialogueContext(brain.emotion.value);
+    const needsCtx = needsToDialogueContext(brain.needs, 'critter');
+    const timeStr = formatGameTime(world.day, world.time).split(', ')[1];
+    const lifecycle = world.entityLifecycles[name];
+    const stageCtx = lifecycle ? lifeStageToDialogueContext(lifecycle) : '';
+
+    const prompt = `あなたは${name}。性格: ${CRITTER_PERSONALITIES[brain.personalityIndex]}${stageCtx ? `\n${stageCtx}` : ''}
+現在地: (${(myPos?.x ?? 0).toFixed(0)}, ${(myPos?.z ?? 0).toFixed(0)})
+時刻: ${timeStr} / ${world.weather}
+${emotionCtx}
+${needsCtx ? needsCtx : ''}
+近く: ${nearbyEntities.length > 0 ? nearbyEntities.map(e => `${e.id}(${e.distance.toFixed(0)}m)`).join(', ') : 'だれもいない'}
+記憶: ${memContext}`;
+
+    return {
+        prompt,
+        critterId: name,
+        needs: brain.needs,
+        vitals: world.critterStatuses[name] ?? createDefaultCritterStatus(),
+        emotion: brain.emotion.value,
+        isNight,
+    };
+}
+
+function moveCritter(world: World, entry: CritterRegistryEntry, brain: CritterBrain, body: Vec3, t: number): Motion {
+    const name = entry.id;
+
+    // Activity-based movement
+    const currentActivity = world.entityActivities[name];
+    if (world.weatherEvent && currentActivity?.current !== 'flee') {
+        // Catastrophe warning/active: run for cover
+        setActivity(world, name, { current: 'flee', startedAt: world.gameMinutes, duration: 90 });
+        brain.nextMoveTime = t;
+    } else if (shouldSwitchActivity(currentActivity)) {
+        const myPos = world.entityPositions[name];
+        const desires = computeDesires(brain.needs, 'critter');
+        const newActivity = selectNextActivity(
+            brain.emotion.value,
+            world.time,
+            world.weather,
+            world.relationships,
+            name,
+            nearbyEntitiesOf(world, name, 30),
+            desires
+        );
+
+        // Override with AI intent if available
+        if (brain.intent) {
+            const validActivities: string[] = ['explore', 'forage', 'rest', 'socialize', 'seek_resource', 'flee', 'idle'];
+            if (validActivities.includes(brain.intent.action)) {
+                newActivity.current = brain.intent.action as typeof newActivity.current;
+            }
+            brain.intent = null;
+        }
+
+        // If seeking resource, find nearest food resource and set target
+        if (newActivity.current === 'seek_resource' && myPos) {
+            const nearbyRes = getNearbyResources(world.resourceNodes, myPos.x, myPos.z, 50, CRITTER_FOOD_TYPES);
+            if (nearbyRes.length > 0) {
+                newActivity.targetResourceId = nearbyRes[0].id;
+            }
+        }
+
+        setActivity(world, name, newActivity);
+    }
+
+    const activityState = world.entityActivities[name];
+    const activity = activityState?.current || 'forage';
+    const pattern = getActivityMovementPattern(activity);
+
+    // Stay still during rest
+    if (activity === 'rest') return STILL;
+
+    if (activity === 'seek_resource') {
+        // Move toward target resource
+        const resId = activityState?.targetResourceId;
+        const resNode = resId ? world.resourceNodes.find(r => r.id === resId) : null;
+        if (resNode && resNode.capacity > 0.05) {
+            brain.target = { x: resNode.position.x, z: resNode.position.z };
+        } else {
+            // Resource depleted or not found, head for the nearest other food
+            const nearby = getNearbyResources(world.resourceNodes, body.x, body.z, 50, CRITTER_FOOD_TYPES)[0];
+            if (nearby) {
+                brain.target = { x: nearby.position.x, z: nearby.position.z };
+            }
+        }
+    } else if (distance(body, brain.target) < 0.5 || t > brain.nextMoveTime) {
+        pickCritterWanderTarget(world, name, brain, body, activity, activityState?.targetEntityId);
+        brain.nextMoveTime = t + 5 + random() * 8;
+    }
+
+    const lifecycle = world.entityLifecycles[name];
+    const vitals = world.critterStatuses[name] ?? createDefaultCritterStatus();
+    const lifecycleSpeedMult = lifecycle ? getSpeedMultiplier(lifecycle, vitals) : 1;
+    const sheltered = getShelterTypeAt(body, world.buildings) !== 'none';
+    const speed = getMovementSpeed(
+        2.0 * emotionToSpeedMultiplier(brain.emotion.value) * pattern.speedMultiplier * lifecycleSpeedMult,
+        activeWeatherEvent(world),
+        sheltered
+    );
+    return heading(body, brain.target, speed);
+}
+
+function pickCritterWanderTarget(
+    world: World,
+    name: string,
+    brain: CritterBrain,
+    body: Vec3,
+    activity: ActivityState['current'],
+    socialTarget: string | undefined
+): void {
+    const pattern = getActivityMovementPattern(activity);
+    const r = pattern.wanderRadius || 10;
+    const hw = pattern.homeAffinity;
+    const home = brain.home;
+
+    if (activity === 'socialize') {
+        const socialPos = socialTarget ? world.entityPositions[socialTarget] : null;
+        brain.target = socialPos
+            ? { x: socialPos.x + (random() - 0.5) * 4, z: socialPos.z + (random() - 0.5) * 4 }
+            : { x: home.x + (random() - 0.5) * r * 2, z: home.z + (random() - 0.5) * r * 2 };
+    } else if (activity === 'flee') {
+        // Flee toward the nearest shelter, or home if none
+        const shelter = findNearestShelter(body, world.buildings);
+        const refuge = shelter ? shelter.position : home;
+        brain.target = { x: refuge.x + (random() - 0.5) * 3, z: refuge.z + (random() - 0.5) * 3 };
+    } else {
+        // Normal activity wander: blend between random and home-biased
+        const randX = (random() - 0.5) * r * 2;
+        const randZ = (random() - 0.5) * r * 2;
+        brain.target = {
+            x: home.x * hw + randX * (1 - hw * 0.5),
+            z: home.z * hw + randZ * (1 - hw * 0.5),
+        };
+    }
+
+    // Relationship-based bias: drift away from rivals (and a scary robot), toward friends
+    for (const [entityId, pos] of Object.entries(world.entityPositions)) {
+        if (entityId === name) continue;
+        const dx = pos.x - body.x;
+        const dz = pos.z - body.z;
+        if (Math.sqrt(dx * dx + dz * dz) >= 15) continue;
+        const aff = getAffinity(world.relationships, name, entityId);
+        if (shouldAvoid(aff) || (entityId === 'robot' && brain.emotion.value.fear > 0.4)) {
+            brain.target.x -= dx * 0.3;
+            brain.target.z -= dz * 0.3;
+        } else if (shouldApproach(aff)) {
+            brain.target.x += dx * 0.2;
+            brain.target.z += dz * 0.2;
+        }
+    }
+}
+
+// ========================================
+// Wild Animals
+// ========================================
+
+function isPrey(entityId: string): boolean {
+    // Critters, rabbits and deer - not other wolves or the robot
+    return entityId.startsWith('Critter-') || entityId.startsWith('rabbit-') || entityId.startsWith('deer-');
+}
+
+function stepWildAnimal(world: World, id: string, def: WildAnimalDef, spawn: [number, number, number]): void {
+    const rt = world.runtime;
+    const t = rt.clock;
+    const spawnY = def.flightHeight ? def.flightHeight[0] : spawn[1];
+    const home: Vec3 = { x: spawn[0], y: spawnY, z: spawn[2] };
+    const brain = rt.animals[id] ??= {
+        state: 'idle',
+        target: { ...home },
+        home,
+        nextDecision: t + random() * 3,
+        chaseTargetId: null,
+        lastAttackTime: t,
+    };
+    const body = bodyOf(rt, id, home);
+    const positions = world.entityPositions;
+
+    if (def.aggressive && def.chaseDistance && def.attackRange && def.attackDamage) {
+        // --- Aggressive (wolf) behavior ---
+        let preyId: string | null = null;
+        let preyDist = Infinity;
+        for (const [entityId, pos] of Object.entries(positions)) {
+            if (entityId === id || !isPrey(entityId)) continue;
+            const dist = distance(pos, body);
+            if (dist < def.chaseDistance && dist < preyDist) {
+                preyDist = dist;
+                preyId = entityId;
+            }
+        }
+
+        if (preyId) {
+            brain.chaseTargetId = preyId;
+            if (preyDist < def.attackRange) {
+                brain.state = 'attack';
+                // Deal damage (throttled to every 2 seconds)
+                if (t - brain.lastAttackTime > 2.0) {
+                    brain.lastAttackTime = t;
+                    wolfAttack(world, id, preyId, body, def.attackDamage);
+                }
+            } else {
+                brain.state = 'chase';
+                brain.target = { x: positions[preyId].x, y: 0.5, z: positions[preyId].z };
+            }
+        } else {
+            brain.chaseTargetId = null;
+            if (t > brain.nextDecision) decideWildAnimal(brain, def, t);
+        }
+    } else {
+        // --- Non-aggressive animal behavior (deer, rabbit, bird) ---
+        let threatDist = Infinity;
+        let awayX = 0;
+        let awayZ = 0;
+        for (const [entityId, pos] of Object.entries(positions)) {
+            if (entityId === id) continue;
+            const dist = distance(pos, body);
+            // Flee from wolves at greater distance
+            const fleeDist = entityId.startsWith('wolf-') ? def.fleeDistance * 1.5 : def.fleeDistance;
+            if (dist < fleeDist && dist < threatDist) {
+                threatDist = dist;
+                awayX = (body.x - pos.x) / Math.max(dist, 0.001);
+                awayZ = (body.z - pos.z) / Math.max(dist, 0.001);
+            }
+        }
+
+        if (threatDist < Infinity) {
+            brain.state = 'flee';
+            brain.target = {
+                x: body.x + awayX * 15,
+                y: def.flightHeight ? def.flightHeight[1] : 0.5,
+                z: body.z + awayZ * 15,
+            };
+        } else if (t > brain.nextDecision) {
+            decideWildAnimal(brain, def, t);
+        }
+    }
+
+    // Catastrophe: head back to the den and wait it out
+    if (world.weatherEvent && brain.state !== 'flee') {
+        if (distance(brain.home, body) > 2.0) {
+            brain.state = 'wander';
+            brain.target = { ...brain.home };
+        } else {
+            brain.state = 'rest';
+        }
+        brain.chaseTargetId = null;
+        brain.nextDecision = t + 3;
+    }
+
+    // Movement
+    const state = brain.state;
+    if (state === 'idle' || state === 'rest' || state === 'attack') {
+        rt.motion[id] = STILL;
+        return;
+    }
+
+    const dx = brain.target.x - body.x;
+    const dy = def.flightHeight ? brain.target.y - body.y : 0;
+    const dz = brain.target.z - body.z;
+    const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    if (dist < 1.0 && state !== 'chase') {
+        brain.state = 'idle';
+        brain.nextDecision = t + 2 + random() * 3;
+        rt.motion[id] = STILL;
+        return;
+    }
+
+    const speed = getMovementSpeed((state === 'flee' || state === 'chase') ? def.speed * 1.5 : def.speed, activeWeatherEvent(world), false);
+    const k = speed / Math.max(dist, 0.001);
+    // Flying animals climb and dive gently
+    rt.motion[id] = { x: dx * k, y: dy * k * 0.3, z: dz * k };
+}
+
+function decideWildAnimal(brain: WildAnimalBrain, def: WildAnimalDef, t: number): void {
+    const roll = random();
+    if (roll < 0.3) {
+        brain.state = 'idle';
+        brain.nextDecision = t + 3 + random() * 5;
+    } else if (roll < 0.7) {
+        brain.state = 'wander';
+        const r = def.wanderRadius;
+        brain.target = {
+            x: brain.home.x + (random() - 0.5) * r * 2,
+            y: def.flightHeight ? def.flightHeight[0] + random() * (def.flightHeight[1] - def.flightHeight[0]) : 0.5,
+            z: brain.home.z + (random() - 0.5) * r * 2,
+        };
+        brain.nextDecision = t + 5 + random() * 8;
+    } else {
+        brain.state = 'rest';
+        brain.nextDecision = t + 8 + random() * 12;
+    }
+}
+
+function wolfAttack(world: World, wolfId: string, preyId: string, body: Vec3, damage: number): void {
+    // Rabbits and deer have no vitals; only critters take damage
+    if (!preyId.startsWith('Critter-')) return;
+    const vitals = world.critterStatuses[preyId];
+    if (!vitals || vitals.isDead) return;
+
+    world.critterStatuses = { ...world.critterStatuses, [preyId]: damageCritter(vitals, damage, 'attack') };
+    emit(world, { type: 'attack', attackerId: wolfId, targetId: preyId, damage, position: { x: body.x, z: body.z } });
+}
@@ -1,118 +1,125 @@
-// Lifecycle System - Birth, Sickness, Death
+// Lifecycle System - Birth, Aging, Reproduction
 
-import type { NeedsState } from './needs';
-
-export type HealthStatus = 'healthy' | 'sick' | 'dying' | 'dead';
+import { getCritterHealthStatus, type CritterStatus } from './survival';
+import { random } from './random';
+import { GAME_MINUTES_PER_DAY } from './simClock';
 
+// Health, sickness and death live in CritterStatus (survival.ts);
+// lifecycle only tracks age, reproduction and lineage.
+// All durations are in game minutes (simClock); tuning is expressed in game days.
 export interface LifecycleState {
-    age: number;             // in game-time minutes (real seconds)
-    maxAge: number;          // 60-120 game-time minutes
-    health: number;          // 0-1
-    healthStatus: HealthStatus;
-    sicknessDuration: number; // remaining sickness time in seconds
-    reproductionCooldown: number; // seconds until can reproduce again
+    age: number;             // game minutes
+    maxAge: number;          // game minutes (6-10 game days)
+    reproductionCooldown: number; // game minutes until can reproduce again
     generation: number;
 }
 
-export function createLifecycleState(generation: number = 0): LifecycleState {
+export type LifeStage = 'juvenile' | 'adult' | 'elder';
+
+export const LIFESPAN_DAYS: [number, number] = [6, 10];
+export const MATURITY_AGE = 1 * GAME_MINUTES_PER_DAY; // juvenile until one day old
+const ELDER_FRACTION = 0.75; // elder for the last quarter of the lifespan
+export const REPRODUCTION_COOLDOWN_INITIAL = 0.25 * GAME_MINUTES_PER_DAY;
+export const REPRODUCTION_COOLDOWN_AFTER_BIRTH = 2 * GAME_MINUTES_PER_DAY;
+
+// Expected births per game day for an eligible critter
+const REPRODUCTION_RATE_PER_DAY = 0.5;
+const EMERGENCY_REPRODUCTION_RATE_PER_DAY = 1.5;
+
+interface LifeStageTraits {
+    label: string;
+    speedMultiplier: number;
+    scale: number;
+    dialogueTone: string;
+}
+
+export const LIFE_STAGE_TRAITS: Record<LifeStage, LifeStageTraits> = {
+    juvenile: { label: '子供', speedMultiplier: 1.15, scale: 0.65, dialogueTone: 'まだ子供。無邪気で舌足らずな話し方' },
+    adult:    { label: '大人', speedMultiplier: 1.0,  scale: 1.0,  dialogueTone: '' },
+    elder:    { label: '老齢', speedMultiplier: 0.7,  scale: 1.05, dialogueTone: '年老いている。落ち着いてゆっくりした話し方' },
+};
+
+export function rollLifespan(): number {
+    const [min, max] = LIFESPAN_DAYS;
+    return (min + random() * (max - min)) * GAME_MINUTES_PER_DAY;
+}
+
+/**
+ * Newborns start at age 0; founders (spontaneous spawns) can start grown up
+ */
+export function createLifecycleState(generation: number = 0, age: number = 0): LifecycleState {
     return {
-        age: 0,
-        maxAge: 60 + Math.random() * 60, // 60-120 game minutes
-        health: 1.0,
-        healthStatus: 'healthy',
-        sicknessDuration: 0,
-        reproductionCooldown: 15, // 15s initial cooldown
+        age,
+        maxAge: rollLifespan(),
+        reproductionCooldown: REPRODUCTION_COOLDOWN_INITIAL,
         generation,
     };
 }
 
+export function getLifeStage(state: LifecycleState): LifeStage {
+    if (state.age < MATURITY_AGE) return 'juvenile';
+    if (state.age >= state.maxAge * ELDER_FRACTION) return 'elder';
+    return 'adult';
+}
+
+export function getAgeInDays(state: LifecycleState): number {
+    return state.age / GAME_MINUTES_PER_DAY;
+}
+
 export function tickLifecycle(
     state: LifecycleState,
-    deltaSeconds: number,
-    needs: NeedsState
+    deltaMinutes: number
 ): LifecycleState {
     const result = { ...state };
 
-    // Age (1 real second = 1 game minute)
-    result.age += deltaSeconds;
+    result.age += deltaMinutes;
 
     // Reproduction cooldown
     if (result.reproductionCooldown > 0) {
-        result.reproductionCooldown = Math.max(0, result.reproductionCooldown - deltaSeconds);
+        result.reproductionCooldown = Math.max(0, result.reproductionCooldown - deltaMinutes);
     }
 
-    // Sickness progression
-    if (result.healthStatus === 'sick') {
-        result.sicknessDuration -= deltaSeconds;
-        result.health -= 0.002 * deltaSeconds; // slow health drain while sick
-
-        // Eating helps recovery
-        if (needs.hunger > 0.6) {
-            result.health += 0.003 * deltaSeconds;
-        }
-
-        if (result.sicknessDuration <= 0) {
-            // Recovered
-            result.healthStatus = 'healthy';
-            result.sicknessDuration = 0;
-            result.health = Math.min(1, result.health + 0.2);
-        }
-    }
-
-    // Check for sickness onset
-    if (result.healthStatus === 'healthy') {
-        const sickChance = checkSickness(needs);
-        if (sickChance) {
-            result.healthStatus = 'sick';
-            result.sicknessDuration = 120 + Math.random() * 180; // 2-5 game minutes (real seconds)
-            result.health = Math.max(0.3, result.health - 0.15);
-        }
-    }
-
-    // Check death conditions
-    if (result.health <= 0 || result.age >= result.maxAge) {
-        result.healthStatus = 'dead';
-        result.health = 0;
-    } else if (result.health < 0.2 && result.healthStatus !== 'dead') {
-        result.healthStatus = 'dying';
-    }
-
-    result.health = Math.max(0, Math.min(1, result.health));
-
     return result;
 }
 
-function checkSickness(needs: NeedsState): boolean {
-    // Higher chance if very hungry
-    if (needs.hunger < 0.15) {
-        return Math.random() < 0.002; // ~0.2% per tick when starving
-    }
-    // Small random chance
-    return Math.random() < 0.0001; // ~0.01% per tick normally
+export function isLifespanOver(state: LifecycleState): boolean {
+    return state.age >= state.maxAge;
 }
 
+/**
+ * Roll for a birth over the elapsed game minutes. Rates are per game day,
+ * so the outcome does not depend on how often this is called.
+ */
 export function checkReproduction(
     state: LifecycleState,
-    needs: NeedsState,
+    vitals: CritterStatus,
+    deltaMinutes: number,
     aliveCount?: number
 ): boolean {
     if (state.reproductionCooldown > 0) return false;
-    if (state.age < 15) return false; // must be at least 15 game minutes old
+    if (getLifeStage(state) !== 'adult') return false;
+
+    const healthStatus = getCritterHealthStatus(vitals);
 
     // Emergency reproduction when population is critically low
     const isEmergency = aliveCount !== undefined && aliveCount <= 2;
 
     if (isEmergency) {
         // Relaxed conditions: even sick critters can reproduce
-        if (state.healthStatus === 'dead' || state.healthStatus === 'dying') return false;
-        if (needs.hunger < 0.2 || needs.energy < 0.2) return false;
-        return Math.random() < 0.003; // 0.3% per tick
+        if (healthStatus === 'dead' || healthStatus === 'dying') return false;
+        if (vitals.hunger < 20 || vitals.fatigue > 80) return false;
+        return random() < dailyChance(EMERGENCY_REPRODUCTION_RATE_PER_DAY, deltaMinutes);
     }
 
     // Normal reproduction
-    if (state.healthStatus !== 'healthy') return false;
-    if (needs.hunger < 0.4 || needs.energy < 0.35) return false;
-    return Math.random() < 0.001; // 0.1% per tick
+    if (healthStatus !== 'healthy') return false;
+    if (vitals.hunger < 40 || vitals.fatigue > 65) return false;
+    return random() < dailyChance(REPRODUCTION_RATE_PER_DAY, deltaMinutes);
+}
+
+// Probability of at least one event in deltaMinutes for a per-day rate
+function dailyChance(ratePerDay: number, deltaMinutes: number): number {
+    return 1 - Math.exp(-ratePerDay * deltaMinutes / GAME_MINUTES_PER_DAY);
 }
 
 export function mutateColor(parentColor: string): string {
@@ -120,7 +127,7 @@ export function mutateColor(parentColor: string): string {
     const g = parseInt(parentColor.slice(3, 5), 16);
     const b = parseInt(parentColor.slice(5, 7), 16);
 
-    const mutate = (v: number) => Math.max(0, Math.min(255, v + Math.floor((Math.random() - 0.5) * 60)));
+    const mutate = (v: number) => Math.max(0, Math.min(255, v + Math.floor((random() - 0.5) * 60)));
 
     const nr = mutate(r);
     const ng = mutate(g);
@@ -129,16 +136,21 @@ export function mutateColor(parentColor: string): string {
     return `#${nr.toString(16).padStart(2, '0')}${ng.toString(16).padStart(2, '0')}${nb.toString(16).padStart(2, '0')}`;
 }
 
-export function sicknessToDialogueContext(state: LifecycleState): string {
-    if (state.healthStatus === 'sick') return '具合が悪い...';
-    if (state.healthStatus === 'dying') return 'とても体調が悪い...';
+export function sicknessToDialogueContext(vitals: CritterStatus): string {
+    const healthStatus = getCritterHealthStatus(vitals);
+    if (healthStatus === 'sick') return '具合が悪い...';
+    if (healthStatus === 'dying') return 'とても体調が悪い...';
     return '';
 }
 
-export function getSpeedMultiplier(state: LifecycleState): number {
-    if (state.healthStatus === 'sick') return 0.3;
-    if (state.healthStatus === 'dying') return 0.15;
-    // Slight slowdown with age
-    const ageFactor = 1 - (state.age / state.maxAge) * 0.2;
-    return ageFactor;
+export function lifeStageToDialogueContext(state: LifecycleState): string {
+    return LIFE_STAGE_TRAITS[getLifeStage(state)].dialogueTone;
+}
+
+export function getSpeedMultiplier(state: LifecycleState, vitals: CritterStatus): number {
+    const healthStatus = getCritterHealthStatus(vitals);
+    const stageFactor = LIFE_STAGE_TRAITS[getLifeStage(state)].speedMultiplier;
+    if (healthStatus === 'sick') return 0.3 * stageFactor;
+    if (healthStatus === 'dying') return 0.15 * stageFactor;
+    return stageFactor;
 }
@@ -1,6 +1,9 @@
 import OpenAI from 'openai';
 import Anthropic from '@anthropic-ai/sdk';
 import type { Message } from '../store';
+import { BUILDING_TEMPLATES, type BuildingType } from './building';
+import { RECIPES, type RecipeId } from './crafting';
+import { TARGET_DIRECTIONS, type TargetDirection } from './activities';
 
 export const DEFAULT_ROBOT_SYSTEM_PROMPT = `
 あなたはこのデジタル世界で暮らす小さな探査ロボット「Unit-01」です。
@@ -116,15 +119,20 @@ ${relationSection}
 
 export interface ThoughtResult {
     thought: string;
-    action: 'explore' | 'forage' | 'rest' | 'socialize' | 'seek_resource' | 'patrol' | 'idle';
-    target_direction: 'north' | 'south' | 'east' | 'west' | 'nearby_entity' | 'resource' | 'random';
+    action: 'explore' | 'forage' | 'rest' | 'socialize' | 'seek_resource' | 'patrol' | 'idle' | 'build' | 'craft';
+    target_direction: TargetDirection;
     reason: string;
+    building_type?: BuildingType; // only for action "build"
+    recipe_id?: RecipeId; // only for action "craft"
 }
 
 const THOUGHT_SYSTEM_PROMPT = `あなたは探査ロボットUnit-01の内なる思考です。現在の状況を踏まえて、次にどうすべきか考えてください。
 
 出力は必ず以下のJSON形式で返してください（他の文章は不要）:
-{"thought":"内的独白（1〜2文）","action":"explore|forage|rest|socialize|seek_resource|patrol|idle","target_direction":"north|south|east|west|nearby_entity|resource|random","reason":"理由（短く）"}`;
+{"thought":"内的独白（1〜2文）","action":"explore|forage|rest|socialize|seek_resource|patrol|idle|build|craft","target_direction":"north|south|east|west|nearby_entity|resource|random","reason":"理由（短く）","building_type":"tent|storage|charging_station|wooden_shelter|workshop","recipe_id":"tool|high_quality_parts|repair_kit"}
+
+building_typeはactionがbuildのときだけ指定してください。建設できるのは「建設可能」に挙がっている建物だけです。
+recipe_idはactionがcraftのときだけ指定してください。製作できるのは「製作可能」に挙がっているものだけです。`;
 
 export async function generateThought(
     provider: 'openai' | 'anthropic',
@@ -167,8 +175,10 @@ export async function generateThought(
             return {
                 thought: parsed.thought || '...',
                 action: parsed.action || 'explore',
-                target_direction: parsed.target_direction || 'random',
+                target_direction: TARGET_DIRECTIONS.includes(parsed.target_direction) ? parsed.target_direction : 'random',
                 reason: parsed.reason || '',
+                building_type: parsed.building_type in BUILDING_TEMPLATES ? parsed.building_type : undefined,
+                recipe_id: parsed.recipe_id in RECIPES ? parsed.recipe_id : undefined,
             };
         }
     } catch {
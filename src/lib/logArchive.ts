@@ -0,0 +1,91 @@
+/**
+ * Activity Log Archive - Long-term log retention in IndexedDB
+ * The store keeps only the latest entries; everything logged is also
+ * archived here so the log panel can scroll back through the whole run.
+ */
+
+import type { ActivityLogEntry } from './world';
+
+const DB_NAME = 'parallel-life-agent';
+const DB_VERSION = 1;
+const STORE_NAME = 'activityLog';
+
+// Oldest entries are pruned past this
+export const ACTIVITY_ARCHIVE_LIMIT = 5000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                store.createIndex('timestamp', 'timestamp');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Let a later call retry (e.g. after the user allows storage)
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+export async function archiveActivityLog(entries: ActivityLogEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    const db = await openDb();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    for (const entry of entries) {
+        store.put(entry);
+    }
+
+    // Prune the oldest entries past the limit
+    const count = await requestToPromise(store.count());
+    let excess = count - ACTIVITY_ARCHIVE_LIMIT;
+    if (excess > 0) {
+        const cursorRequest = store.index('timestamp').openCursor();
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor || excess <= 0) return;
+            cursor.delete();
+            excess--;
+            cursor.continue();
+        };
+    }
+    await transactionDone(tx);
+}
+
+// Every archived entry, oldest first
+export async function loadActivityArchive(): Promise<ActivityLogEntry[]> {
+    const db = await openDb();
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    return requestToPromise(tx.objectStore(STORE_NAME).index('timestamp').getAll() as IDBRequest<ActivityLogEntry[]>);
+}
+
+export async function clearActivityArchive(): Promise<void> {
+    const db = await openDb();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).clear();
+    await transactionDone(tx);
+}
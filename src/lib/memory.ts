@@ -0,0 +1,84 @@
+// Memory System - Structured memories with importance weighting
+
+import { getGameMinutes, GAME_MINUTES_PER_DAY } from './simClock';
+
+export interface Memory {
+    content: string;
+    timestamp: number;        // game minutes (simClock)
+    importance: number;       // 0.0 to 1.0
+    emotionalWeight: number;  // How emotionally charged
+    entities: string[];       // Who was involved
+    type: 'dialogue' | 'observation' | 'event' | 'quarrel';
+}
+
+// Prune memories: keep top N by importance, but always retain last 5 most recent
+export function pruneMemories(memories: Memory[], maxCount: number): Memory[] {
+    if (memories.length <= maxCount) return memories;
+    // Always keep the 5 most recent
+    const recent = memories.slice(-5);
+    const rest = memories.slice(0, -5);
+    // Sort rest by importance descending, keep enough to fill maxCount
+    const sorted = rest.sort((a, b) => b.importance - a.importance);
+    const keep = sorted.slice(0, maxCount - 5);
+    // Reconstruct in chronological order
+    const kept = new Set(keep);
+    const result: Memory[] = [];
+    for (const m of memories) {
+        if (kept.has(m) || recent.includes(m)) {
+            result.push(m);
+        }
+    }
+    return result.slice(-maxCount);
+}
+
+// Helper to create a structured memory
+export function createMemory(
+    content: string,
+    type: Memory['type'],
+    entities: string[],
+    importance?: number,
+    emotionalWeight?: number
+): Memory {
+    const defaultImportance: Record<Memory['type'], number> = {
+        quarrel: 0.8,
+        event: 0.7,
+        dialogue: 0.3,
+        observation: 0.2,
+    };
+    return {
+        content,
+        timestamp: getGameMinutes(),
+        importance: importance ?? defaultImportance[type],
+        emotionalWeight: emotionalWeight ?? 0.1,
+        entities,
+        type,
+    };
+}
+
+// Select relevant memories based on context
+export function selectRelevantMemories(
+    memories: Memory[],
+    nearbyEntities: string[],
+    count: number = 5
+): Memory[] {
+    const now = getGameMinutes();
+    const maxAge = GAME_MINUTES_PER_DAY; // one game day
+    const nearbySet = new Set(nearbyEntities);
+
+    const scored = memories.map(m => {
+        const age = now - m.timestamp;
+        const recency = Math.max(0, 1.0 - age / maxAge);
+        const entityRelevance = m.entities.some(e => nearbySet.has(e)) ? 1.0 : 0.2;
+        const score = m.importance * 0.4 + recency * 0.3 + entityRelevance * 0.3;
+        return { memory: m, score };
+    });
+
+    scored.sort((a, b) => b.score - a.score);
+    return scored.slice(0, count).map(s => s.memory);
+}
+
+// Format memories for LLM prompt
+export function memoriesToPromptContext(memories: Memory[]): string {
+    if (memories.length === 0) return '特に記憶なし';
+    return memories.map(m => `- ${m.content}`).join('\n');
+}
@@ -0,0 +1,84 @@
+/**
+ * Mock LLM - Rule-based thoughts for headless runs
+ * Answers instantly and draws only from the world RNG, so a seed replays exactly.
+ */
+
+import type { ThoughtResult, CritterThoughtResult } from './llm';
+import type { KernelLlm, RobotThoughtRequest, CritterThoughtRequest } from './kernel';
+import type { TargetDirection } from './activities';
+import { parseBuildDirective } from './building';
+import { parseCraftDirective } from './crafting';
+import { random, randomPick } from './random';
+
+const WANDER_DIRECTIONS: TargetDirection[] = ['north', 'south', 'east', 'west', 'random'];
+
+function mockRobotThought(req: RobotThoughtRequest): ThoughtResult {
+    const { needs, status, inventory, buildable, craftable, directive } = req;
+
+    // Directives win, exactly as a cooperative model would obey them
+    if (directive) {
+        const building = parseBuildDirective(directive);
+        if (building && !req.isBuilding) {
+            return { thought: '指示どおりに建物を建てよう。', action: 'build', target_direction: 'random', reason: 'ユーザーの指示', building_type: building };
+        }
+        const recipe = parseCraftDirective(directive);
+        if (recipe && !req.isCrafting) {
+            return { thought: '指示どおりに製作しよう。', action: 'craft', target_direction: 'random', reason: 'ユーザーの指示', recipe_id: recipe };
+        }
+    }
+
+    if (req.weatherEvent) {
+        return { thought: '災害が来る。身を守らなければ。', action: 'rest', target_direction: 'random', reason: '災害への備え' };
+    }
+    if (status.battery < 30 || needs.energy < 0.3) {
+        return { thought: 'バッテリーが心もとない。エネルギーを探そう。', action: 'seek_resource', target_direction: 'resource', reason: 'バッテリー低下' };
+    }
+    if (!req.isBuilding && buildable.length > 0 && random() < 0.6) {
+        // Prefer shelters first: they keep everyone alive through catastrophes
+        const building = buildable.includes('wooden_shelter') ? 'wooden_shelter'
+            : buildable.includes('tent') ? 'tent'
+            : buildable[0];
+        return { thought: '素材が揃った。拠点を整えよう。', action: 'build', target_direction: 'random', reason: '素材が十分', building_type: building };
+    }
+    if (!req.isCrafting && craftable.length > 0 && random() < 0.4) {
+        const recipe = (inventory.tool ?? 0) === 0 && craftable.includes('tool') ? 'tool'
+            : status.repairParts === 0 && craftable.includes('repair_kit') ? 'repair_kit'
+            : craftable[0];
+        return { thought: '何か役に立つものを作ろう。', action: 'craft', target_direction: 'random', reason: '素材が十分', recipe_id: recipe };
+    }
+    if (needs.social < 0.3) {
+        return { thought: '誰かに会いたい。', action: 'socialize', target_direction: 'nearby_entity', reason: '孤独' };
+    }
+    if (random() < 0.5) {
+        return { thought: '素材を集めに行こう。', action: 'forage', target_direction: 'resource', reason: '素材集め' };
+    }
+    return { thought: 'この辺りを調べてみよう。', action: 'explore', target_direction: randomPick(WANDER_DIRECTIONS), reason: '探索' };
+}
+
+function mockCritterThought(req: CritterThoughtRequest): CritterThoughtResult {
+    const { needs, vitals, emotion, isNight } = req;
+
+    if (emotion.fear > 0.6) {
+        return { thought: 'こわい…にげなきゃ', action: 'flee', reason: '恐怖' };
+    }
+    if (vitals.hunger < 40 || needs.hunger < 0.3) {
+        return { thought: 'おなかすいた…', action: 'seek_resource', reason: '空腹' };
+    }
+    if (isNight || vitals.fatigue > 70) {
+        return { thought: 'ねむい…', action: 'rest', reason: '疲れ' };
+    }
+    if (needs.social < 0.4) {
+        return { thought: 'だれかとあそびたい！', action: 'socialize', reason: 'さみしい' };
+    }
+    return random() < 0.5
+        ? { thought: 'なにかおもしろいものないかな', action: 'explore', reason: '好奇心' }
+        : { thought: 'おいしいものさがそう', action: 'forage', reason: 'なんとなく' };
+}
+
+export function createMockLlm(): KernelLlm {
+    return {
+        isAvailable: () => true,
+        robotThought: mockRobotThought,
+        critterThought: mockCritterThought,
+    };
+}
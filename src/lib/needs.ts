@@ -1,6 +1,7 @@
 // Needs/Desires System - Gives entities motivation to act
 
 import type { EmotionState } from './emotions';
+import type { CritterStatus } from './survival';
 
 export type EntityKind = 'robot' | 'critter' | 'wild_animal';
 
@@ -31,8 +32,7 @@ export function decayNeeds(needs: NeedsState, deltaSeconds: number, kind: Entity
     const result = { ...needs };
 
     if (kind === 'critter') {
-        result.hunger = Math.max(0, result.hunger - 0.008 * deltaSeconds);
-        result.energy = Math.max(0, result.energy - (isNight ? 0.005 : 0.004) * deltaSeconds);
+        // Hunger and energy mirror CritterStatus vitals (see syncNeedsWithVitals)
         result.social = Math.max(0, result.social - 0.003 * deltaSeconds);
         result.comfort = Math.max(0, result.comfort - 0.002 * deltaSeconds);
     } else if (kind === 'robot') {
@@ -48,6 +48,14 @@ export function decayNeeds(needs: NeedsState, deltaSeconds: number, kind: Entity
     return result;
 }
 
+export function syncNeedsWithVitals(needs: NeedsState, vitals: CritterStatus): NeedsState {
+    return {
+        ...needs,
+        hunger: vitals.hunger / 100,
+        energy: 1 - vitals.fatigue / 100,
+    };
+}
+
 export function satisfyNeed(needs: NeedsState, need: keyof NeedsState, amount: number): NeedsState {
     return {
         ...needs,
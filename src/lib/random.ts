@@ -0,0 +1,74 @@
+/**
+ * Seeded Random - Deterministic PRNG shared by all simulation modules
+ * Same world seed + no LLM calls => identical populations and weather
+ */
+
+// ========================================
+// Generators
+// ========================================
+
+export type Rng = () => number;
+
+export const DEFAULT_WORLD_SEED = 42;
+
+// mulberry32: tiny, fast and well distributed enough for gameplay
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Derive a stable sub-seed from the world seed and a key (e.g. a node id),
+ * for values that must not depend on how often the shared stream was drawn
+ */
+export function hashSeed(seed: number, key: string): number {
+  let h = (2166136261 ^ seed) >>> 0;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+// ========================================
+// Shared World Stream
+// ========================================
+
+let worldSeed = DEFAULT_WORLD_SEED;
+let worldRng = createRng(worldSeed);
+
+export function seedRandom(seed: number): void {
+  worldSeed = seed;
+  worldRng = createRng(seed);
+}
+
+export function getWorldSeed(): number {
+  return worldSeed;
+}
+
+export function random(): number {
+  return worldRng();
+}
+
+export function randomRange(min: number, max: number): number {
+  return min + random() * (max - min);
+}
+
+export function randomInt(max: number): number {
+  return Math.floor(random() * max);
+}
+
+export function randomPick<T>(items: T[]): T {
+  return items[randomInt(items.length)];
+}
+
+// New worlds start from an unpredictable seed (the only non-seeded draw)
+export function generateWorldSeed(): number {
+  return Math.floor(Math.random() * 2147483647);
+}
@@ -1,6 +1,8 @@
 // Resource Nodes - Points in the world where entities can satisfy needs
 // Phase 1 Extension: Food, Water, Materials with quality and danger
 
+import { random } from './random';
+
 export type ResourceType =
     // Food sources
     | 'mineral_ore' | 'glowing_mushroom' | 'vegetation' | 'berry_bush' | 'prey_animal'
@@ -69,6 +71,9 @@ export function createInitialResources(): ResourceNode[] {
         // Crystal - rare, high quality, for advanced building
         { id: 'crystal-1', type: 'crystal', category: 'material', name: 'クリスタル', position: { x: 25, y: 0.8, z: -25 }, radius: 1.5, capacity: 1.0, regenRate: 0.001, maxCapacity: 1.0, quality: 1.5, dangerLevel: 0.15, requiresTool: true },
 
+        // High quality parts - salvage from an old wreck, dangerous and finite
+        { id: 'parts-1', type: 'high_quality_parts', category: 'material', name: '高品質パーツ', position: { x: -30, y: 0, z: -28 }, radius: 2, capacity: 1.0, regenRate: 0.0, maxCapacity: 1.0, quality: 1.3, dangerLevel: 0.25, requiresTool: false },
+
         // === WATER SOURCES ===
         // River - infinite water source
         { id: 'river-1', type: 'river', category: 'water', name: '川', position: { x: 0, y: 0, z: -10 }, radius: 5, capacity: 1.0, regenRate: 0.1, maxCapacity: 1.0, quality: 1.0, dangerLevel: 0.0, requiresTool: false },
@@ -139,10 +144,10 @@ export function attemptGatherResource(
     }
 
     // Check danger
-    const damaged = Math.random() < resource.dangerLevel;
+    const damaged = random() < resource.dangerLevel;
 
     // Gather amount (0.1-0.3 of capacity)
-    const gatherAmount = Math.min(resource.capacity, 0.1 + Math.random() * 0.2);
+    const gatherAmount = Math.min(resource.capacity, 0.1 + random() * 0.2);
 
     return {
         success: true,
@@ -151,6 +156,38 @@ export function attemptGatherResource(
     };
 }
 
+// Best node among the given types: plentiful, high quality and close by
+export function findBestResource(
+    resources: ResourceNode[],
+    x: number, z: number,
+    range: number,
+    typeFilter: ResourceType[],
+    hasTool: boolean = false
+): (ResourceNode & { distance: number }) | null {
+    const candidates = getNearbyResources(resources, x, z, range, typeFilter)
+        .filter(r => hasTool || !r.requiresTool);
+    let best: (ResourceNode & { distance: number }) | null = null;
+    let bestScore = -Infinity;
+    for (const r of candidates) {
+        const score = (r.capacity * r.quality) / (1 + r.distance / 20);
+        if (score > bestScore) {
+            bestScore = score;
+            best = r;
+        }
+    }
+    return best;
+}
+
+// Material nodes that can be gathered into the inventory
+export const MATERIAL_TYPES: ResourceType[] = ['scrap_metal', 'fiber', 'crystal', 'high_quality_parts'];
+
+// Inventory units obtained per 1.0 of node capacity (before quality)
+export const MATERIAL_UNITS_PER_CAPACITY = 10;
+
+export function getGatherYield(resource: ResourceNode, amount: number): number {
+    return Math.max(1, Math.round(getResourceValue(resource, amount) * MATERIAL_UNITS_PER_CAPACITY));
+}
+
 export function getResourceDescription(resource: ResourceNode): string {
     const qualityDesc = resource.quality > 1.2 ? '高品質' : resource.quality < 0.8 ? '低品質' : '標準';
     const dangerDesc = resource.dangerLevel > 0.2 ? '危険' : resource.dangerLevel > 0 ? 'やや危険' : '安全';
@@ -0,0 +1,412 @@
+/**
+ * Sandbox - The player's hand in the world
+ * Each intervention edits the world directly, outside the kernel's step,
+ * and returns how to put things back so the browser can keep an undo stack.
+ */
+
+import { CRITTER_BASE_COLORS, forceWeather, forgetEntity, getSeasonFromDay, scheduleWeatherEvent, setWorldClock, type World } from './kernel';
+import { createDefaultCritterStatus, damageCritter, killCritter, CRITTER_CONSTANTS } from './survival';
+import { createInitialResources, type ResourceNode, type ResourceType } from './resources';
+import { WEATHER_EVENT_CONFIGS, type WeatherEvent, type WeatherType } from './environment';
+import { WILD_ANIMAL_DEFS, type WildAnimalSpecies } from './wildAnimals';
+import { mutateColor } from './lifecycle';
+import { INVENTORY_ITEMS } from './crafting';
+import { random } from './random';
+import { GAME_MINUTES_PER_DAY } from './simClock';
+import { formatClockTime, registerCritter, unregisterCritter, type Season, type SimState } from './world';
+
+// ========================================
+// Types
+// ========================================
+
+// What clicking the ground does while the sandbox is open
+export type SandboxTool =
+    | { kind: 'critter' }
+    | { kind: 'animal'; species: WildAnimalSpecies }
+    | { kind: 'resource'; type: ResourceType }
+    | { kind: 'erase' };
+
+export interface Intervention {
+    label: string; // what was done, for the log and the undo list
+    entityId: string; // who it was done to ('environment' for the world itself)
+    undo: ((world: World) => void) | null; // null: cannot be taken back, and closes the history before it
+}
+
+// ========================================
+// Labels
+// ========================================
+
+export const WEATHER_LABELS: Record<WeatherType, string> = {
+    sunny: '晴れ',
+    cloudy: '曇り',
+    rainy: '雨',
+    snowy: '雪',
+};
+
+export const SEASON_LABELS: Record<Season, string> = {
+    spring: '春',
+    summer: '夏',
+    autumn: '秋',
+    winter: '冬',
+};
+
+// Weather events worth calling down (calm is the absence of one)
+export const CATASTROPHE_TYPES = (Object.keys(WEATHER_EVENT_CONFIGS) as WeatherEvent['type'][]).filter(type => type !== 'calm');
+
+// One node of each kind in the starting world serves as the template for placing more
+const RESOURCE_TEMPLATES = new Map<ResourceType, ResourceNode>();
+for (const node of createInitialResources()) {
+    if (!RESOURCE_TEMPLATES.has(node.type)) RESOURCE_TEMPLATES.set(node.type, node);
+}
+
+export const PLACEABLE_RESOURCES: { type: ResourceType; name: string }[] =
+    [...RESOURCE_TEMPLATES.values()].map(node => ({ type: node.type, name: node.name }));
+
+// How close to a click the eraser reaches (beyond a resource's own radius)
+const ERASE_REACH = 3;
+
+// ========================================
+// Helpers
+// ========================================
+
+function nameOf(world: SimState, id: string): string {
+    if (id === 'robot') return 'Unit-01';
+    const animal = world.wildAnimals.find(a => a.id === id);
+    if (animal) return WILD_ANIMAL_DEFS[animal.species].name;
+    return world.critterRegistry.find(c => c.id === id)?.name ?? id;
+}
+
+function freeId(prefix: string, taken: string[]): string {
+    let n = 1;
+    while (taken.includes(`${prefix}-${n}`)) n++;
+    return `${prefix}-${n}`;
+}
+
+function without<T>(record: Record<string, T>, id: string): Record<string, T> {
+    const next = { ...record };
+    delete next[id];
+    return next;
+}
+
+// ========================================
+// Population
+// ========================================
+
+// A new founder critter; ignores the population cap
+export function spawnCritter(world: World, x: number, z: number): Intervention {
+    const id = freeId('Critter', world.critterRegistry.map(c => c.id));
+    const baseColor = CRITTER_BASE_COLORS[Math.floor(random() * CRITTER_BASE_COLORS.length)];
+    Object.assign(world, registerCritter(world, {
+        id,
+        name: id,
+        color: mutateColor(baseColor),
+        spawnPosition: [x, 0.5, z],
+        isAlive: true,
+        generation: 0,
+    }, true));
+
+    return {
+        label: `${id}を出現させた`,
+        entityId: id,
+        undo: (w) => {
+            Object.assign(w, unregisterCritter(w, id));
+            forgetEntity(w.runtime, id);
+        },
+    };
+}
+
+export function spawnAnimal(world: World, species: WildAnimalSpecies, x: number, z: number): Intervention {
+    const def = WILD_ANIMAL_DEFS[species];
+    const id = freeId(species, world.wildAnimals.map(a => a.id));
+    const y = def.flightHeight ? def.flightHeight[0] : 0.5;
+    world.wildAnimals = [...world.wildAnimals, { id, species, position: [x, y, z] }];
+
+    return {
+        label: `${def.name}(${id})を放った`,
+        entityId: id,
+        undo: (w) => {
+            w.wildAnimals = w.wildAnimals.filter(a => a.id !== id);
+            w.entityPositions = without(w.entityPositions, id);
+            forgetEntity(w.runtime, id);
+        },
+    };
+}
+
+export function removeAnimal(world: World, id: string): Intervention | null {
+    const spawn = world.wildAnimals.find(a => a.id === id);
+    if (!spawn) return null;
+    world.wildAnimals = world.wildAnimals.filter(a => a.id !== id);
+    world.entityPositions = without(world.entityPositions, id);
+    forgetEntity(world.runtime, id);
+
+    return {
+        label: `${WILD_ANIMAL_DEFS[spawn.species].name}(${id})を取り除いた`,
+        entityId: id,
+        // It comes back at its home
+        undo: (w) => {
+            if (!w.wildAnimals.some(a => a.id === id)) w.wildAnimals = [...w.wildAnimals, spawn];
+        },
+    };
+}
+
+// ========================================
+// Resources
+// ========================================
+
+export function placeResource(world: World, type: ResourceType, x: number, z: number): Intervention | null {
+    const template = RESOURCE_TEMPLATES.get(type);
+    if (!template) return null;
+    const node: ResourceNode = {
+        ...template,
+        id: freeId(type, world.resourceNodes.map(r => r.id)),
+        position: { x, y: template.position.y, z },
+        capacity: template.maxCapacity,
+    };
+    world.resourceNodes = [...world.resourceNodes, node];
+
+    return {
+        label: `${node.name}を置いた`,
+        entityId: 'environment',
+        undo: (w) => {
+            w.resourceNodes = w.resourceNodes.filter(r => r.id !== node.id);
+        },
+    };
+}
+
+export function deleteResource(world: World, id: string): Intervention | null {
+    const index = world.resourceNodes.findIndex(r => r.id === id);
+    if (index < 0) return null;
+    const node = world.resourceNodes[index];
+    world.resourceNodes = world.resourceNodes.filter(r => r.id !== id);
+
+    return {
+        label: `${node.name}(${id})を取り除いた`,
+        entityId: 'environment',
+        undo: (w) => {
+            if (w.resourceNodes.some(r => r.id === id)) return;
+            const nodes = [...w.resourceNodes];
+            nodes.splice(Math.min(index, nodes.length), 0, node);
+            w.resourceNodes = nodes;
+        },
+    };
+}
+
+// Remove whichever wild animal or resource is nearest to the point
+export function eraseAt(world: World, x: number, z: number): Intervention | null {
+    let nearest: { kind: 'animal' | 'resource'; id: string } | null = null;
+    let best = Infinity;
+    for (const spawn of world.wildAnimals) {
+        const body = world.runtime.bodies[spawn.id];
+        const pos = body ?? { x: spawn.position[0], z: spawn.position[2] };
+        const dist = Math.hypot(pos.x - x, pos.z - z);
+        if (dist < ERASE_REACH && dist < best) {
+            best = dist;
+            nearest = { kind: 'animal', id: spawn.id };
+        }
+    }
+    for (const node of world.resourceNodes) {
+        const dist = Math.hypot(node.position.x - x, node.position.z - z) - node.radius;
+        if (dist < ERASE_REACH && dist < best) {
+            best = dist;
+            nearest = { kind: 'resource', id: node.id };
+        }
+    }
+    if (!nearest) return null;
+    return nearest.kind === 'animal' ? removeAnimal(world, nearest.id) : deleteResource(world, nearest.id);
+}
+
+// Place whatever the tool places at the clicked point
+export function applySandboxTool(world: World, tool: SandboxTool, x: number, z: number): Intervention | null {
+    switch (tool.kind) {
+        case 'critter': return spawnCritter(world, x, z);
+        case 'animal': return spawnAnimal(world, tool.species, x, z);
+        case 'resource': return placeResource(world, tool.type, x, z);
+        case 'erase': return eraseAt(world, x, z);
+    }
+}
+
+// ========================================
+// Weather and Time
+// ========================================
+
+export function setWeather(world: World, weather: WeatherType): Intervention | null {
+    const previous = world.weather;
+    if (weather === previous) return null;
+    forceWeather(world, weather);
+
+    return {
+        label: `天気を${WEATHER_LABELS[weather]}にした`,
+        entityId: 'environment',
+        undo: (w) => forceWeather(w, previous),
+    };
+}
+
+// One catastrophe at a time, as in the kernel
+export function triggerCatastrophe(world: World, type: WeatherEvent['type']): Intervention | null {
+    if (world.weatherEvent) return null;
+    const event = scheduleWeatherEvent(world, type);
+
+    return {
+        label: `${event.name}を呼び寄せた`,
+        entityId: 'environment',
+        undo: (w) => {
+            if (w.weatherEvent !== event) return;
+            w.weatherEvent = null;
+            w.weatherEventPhase = null;
+            w.weatherWarning = null;
+        },
+    };
+}
+
+// The last day the player may jump to: reaching the victory day would end the run
+function lastReachableDay(world: World): number {
+    const victoryDay = world.runtime.victoryDay;
+    return victoryDay > 0 ? victoryDay - 1 : Infinity;
+}
+
+/**
+ * Move the world clock forward; day, time and season follow it. There is no
+ * undo: rewinding would leave everything stamped since in the future.
+ */
+function travelTo(world: World, gameMinutes: number, label: string): Intervention {
+    setWorldClock(world, gameMinutes);
+    return { label, entityId: 'environment', undo: null };
+}
+
+// Forward to the next time the clock shows this hour
+export function setTimeOfDay(world: World, time: number): Intervention | null {
+    const hour = Math.max(0, Math.min(23.99, time));
+    const hoursAhead = (hour - world.time + 24) % 24;
+    if (hoursAhead === 0) return null;
+    if (world.day + Math.floor((world.time + hoursAhead) / 24) > lastReachableDay(world)) return null;
+    return travelTo(world, world.gameMinutes + hoursAhead * 60, `時刻を${formatClockTime(hour)}に進めた`);
+}
+
+// Forward to the same time on a later day
+export function setDay(world: World, day: number): Intervention | null {
+    const next = Math.min(Math.floor(day), lastReachableDay(world));
+    if (next <= world.day) return null;
+    return travelTo(world, world.gameMinutes + (next - world.day) * GAME_MINUTES_PER_DAY, `Day ${next}に進めた`);
+}
+
+// Forward to the first day of the next such season
+export function setSeason(world: World, season: Season): Intervention | null {
+    if (season === world.season) return null;
+    let day = world.day + 1;
+    while (getSeasonFromDay(day) !== season) day++;
+    if (day > lastReachableDay(world)) return null;
+    const intervention = setDay(world, day);
+    return intervention && { ...intervention, label: `季節を${SEASON_LABELS[season]}に進めた (Day ${day})` };
+}
+
+// ========================================
+// Entities
+// ========================================
+
+export function healEntity(world: World, id: string): Intervention | null {
+    if (id === 'robot') {
+        const previous = world.robotStatus;
+        if (previous.isDead) return null;
+        world.robotStatus = {
+            ...previous,
+            battery: 100,
+            durability: 100,
+            temperature: 20,
+            malfunctioning: false,
+            overheated: false,
+            frozen: false,
+            malfunctionTime: 0,
+        };
+        return {
+            label: 'Unit-01を修復した',
+            entityId: id,
+            undo: (w) => {
+                if (!w.robotStatus.isDead) w.robotStatus = previous;
+            },
+        };
+    }
+
+    const previous = world.critterStatuses[id];
+    if (!previous || previous.isDead) return null;
+    world.critterStatuses = { ...world.critterStatuses, [id]: createDefaultCritterStatus() };
+    return {
+        label: `${nameOf(world, id)}を回復させた`,
+        entityId: id,
+        undo: (w) => {
+            if (!w.critterStatuses[id]?.isDead) w.critterStatuses = { ...w.critterStatuses, [id]: previous };
+        },
+    };
+}
+
+// Critters fall ill as they would naturally; the robot takes damage instead
+export function sickenEntity(world: World, id: string): Intervention | null {
+    if (id === 'robot') {
+        const previous = world.robotStatus;
+        if (previous.isDead) return null;
+        world.robotStatus = { ...previous, durability: Math.max(0, previous.durability - 40) };
+        return {
+            label: 'Unit-01を故障させた',
+            entityId: id,
+            undo: (w) => {
+                if (!w.robotStatus.isDead) w.robotStatus = previous;
+            },
+        };
+    }
+
+    const previous = world.critterStatuses[id];
+    if (!previous || previous.isDead) return null;
+    world.critterStatuses = {
+        ...world.critterStatuses,
+        [id]: damageCritter({ ...previous, sicknessTimer: CRITTER_CONSTANTS.SICKNESS_DURATION_MAX }, 15, 'sickness'),
+    };
+    return {
+        label: `${nameOf(world, id)}を病気にした`,
+        entityId: id,
+        undo: (w) => {
+            if (!w.critterStatuses[id]?.isDead) w.critterStatuses = { ...w.critterStatuses, [id]: previous };
+        },
+    };
+}
+
+// Critters die (the kernel handles the death on its next step); wild animals are removed.
+// The robot cannot be killed here: that would end the run.
+export function killEntity(world: World, id: string): Intervention | null {
+    if (world.wildAnimals.some(a => a.id === id)) {
+        const name = nameOf(world, id);
+        const removal = removeAnimal(world, id);
+        return removal && { ...removal, label: `${name}(${id})を仕留めた` };
+    }
+
+    const previous = world.critterStatuses[id];
+    if (!previous || previous.isDead) return null;
+    world.critterStatuses = { ...world.critterStatuses, [id]: killCritter(previous, 'intervention') };
+    return {
+        label: `${nameOf(world, id)}の命を奪った`,
+        entityId: id,
+        // Brings it back to life; memories and score of the death remain
+        undo: (w) => {
+            if (!w.critterRegistry.some(c => c.id === id)) return;
+            w.critterRegistry = w.critterRegistry.map(c => c.id === id ? { ...c, isAlive: true } : c);
+            w.critterStatuses = { ...w.critterStatuses, [id]: previous };
+            forgetEntity(w.runtime, id);
+        },
+    };
+}
+
+// ========================================
+// Inventory
+// ========================================
+
+export function grantItem(world: World, item: string, amount: number): Intervention | null {
+    if (amount <= 0) return null;
+    world.inventory = { ...world.inventory, [item]: (world.inventory[item] ?? 0) + amount };
+    const label = INVENTORY_ITEMS.find(i => i.key === item)?.label ?? item;
+
+    return {
+        label: `${label}を${amount}個与えた`,
+        entityId: 'robot',
+        undo: (w) => {
+            w.inventory = { ...w.inventory, [item]: Math.max(0, (w.inventory[item] ?? 0) - amount) };
+        },
+    };
+}
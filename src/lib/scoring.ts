@@ -3,9 +3,11 @@
  * Phase 1: Foundation for game progress measurement
  */
 
-import type { Memory } from '../store';
+import type { Memory } from './memory';
 import type { Building } from './building';
-import type { CritterRegistryEntry } from '../store';
+import type { CritterRegistryEntry, SimState } from './world';
+import { isRobotFunctional } from './survival';
+import { getGameMinutes, GAME_MINUTES_PER_DAY } from './simClock';
 
 // ========================================
 // Types
@@ -52,7 +54,7 @@ export interface GameRecord {
   endedAt: number;
   score: RealtimeScore;
   finalPopulation: number;
-  daysS urvived: number;
+  daysSurvived: number;
   causeOfEnd: 'victory' | 'robot_death' | 'extinction' | 'player_quit';
   timeline: TimelineEvent[];
   achievements: Achievement[];
@@ -61,11 +63,23 @@ export interface GameRecord {
 export interface TimelineEvent {
   day: number;
   time: number; // 0-24
+  gameMinutes: number; // world clock (simClock)
   type: 'birth' | 'death' | 'discovery' | 'build' | 'catastrophe' | 'milestone';
   description: string;
   importance: number; // 0-1
+  position?: { x: number; z: number }; // where it happened, if anywhere in particular
+  entities?: string[]; // who was involved
 }
 
+export const TIMELINE_EVENT_TYPES: Record<TimelineEvent['type'], { label: string; icon: string }> = {
+  birth: { label: '誕生', icon: '🐣' },
+  death: { label: '死亡', icon: '💀' },
+  discovery: { label: '発見', icon: '🔍' },
+  build: { label: '建設', icon: '🏠' },
+  catastrophe: { label: '災害', icon: '🌪️' },
+  milestone: { label: '節目', icon: '⭐' },
+};
+
 export interface Achievement {
   id: string;
   name: string;
@@ -78,6 +92,53 @@ export interface Achievement {
 // Score Calculation
 // ========================================
 
+// Points per unit; shared by the score and the score changes recorded for events
+export const SCORE_WEIGHTS = {
+  day: 10,
+  population: 50,
+  robotFunctional: 500,
+  knowledge: 20, // counted in both development and knowledge
+  structure: 150,
+  generation: 100,
+  combatWin: 30,
+  catastrophe: 500,
+  highImportanceMemory: 50,
+  death: 50,
+};
+
+export function createInitialScore(): RealtimeScore {
+  return {
+    current: { survival: 0, development: 0, combat: 0, knowledge: 0, total: 0 },
+    rank: { current: 'D', nextRank: 'C', pointsToNext: 1000, progress: 0 },
+    stats: {
+      currentDay: 0,
+      population: 0,
+      knowledgeCount: 0,
+      structureCount: 0,
+      deathCount: 0,
+      combatWins: 0,
+      catastrophesSurvived: 0,
+      robotFunctional: true,
+    },
+    recentChanges: [],
+  };
+}
+
+// Score of a whole world, keeping its recent changes
+export function calculateWorldScore(state: SimState): RealtimeScore {
+  return {
+    ...calculateRealtimeScore(
+      state.day,
+      state.critterRegistry,
+      state.robotMemories,
+      state.buildings,
+      isRobotFunctional(state.robotStatus),
+      state.combatStats
+    ),
+    recentChanges: state.realtimeScore.recentChanges,
+  };
+}
+
 export function calculateRealtimeScore(
   day: number,
   critterRegistry: CritterRegistryEntry[],
@@ -98,9 +159,9 @@ export function calculateRealtimeScore(
   // Bonus: population alive × 50
   // Bonus: robot functional × 500
   const survivalScore =
-    day * 10 +
-    aliveCritters * 50 +
-    (robotFunctional ? 500 : 0);
+    day * SCORE_WEIGHTS.day +
+    aliveCritters * SCORE_WEIGHTS.population +
+    (robotFunctional ? SCORE_WEIGHTS.robotFunctional : 0);
 
   // === DEVELOPMENT SCORE ===
   // Knowledge discovered × 20
@@ -110,27 +171,27 @@ export function calculateRealtimeScore(
     ? critterRegistry.reduce((sum, c) => sum + c.generation, 0) / critterRegistry.length
     : 0;
   const developmentScore =
-    knowledgeCount * 20 +
-    builtStructures * 150 +
-    Math.floor(avgGeneration * 100);
+    knowledgeCount * SCORE_WEIGHTS.knowledge +
+    builtStructures * SCORE_WEIGHTS.structure +
+    Math.floor(avgGeneration * SCORE_WEIGHTS.generation);
 
   // === COMBAT SCORE ===
   // Enemies defeated × 30
   // Catastrophes survived × 500
   const combatScore =
-    combatStats.wins * 30 +
-    combatStats.catastrophesSurvived * 500;
+    combatStats.wins * SCORE_WEIGHTS.combatWin +
+    combatStats.catastrophesSurvived * SCORE_WEIGHTS.catastrophe;
 
   // === KNOWLEDGE SCORE ===
   // Unique discoveries × 20
   // High-importance memories × 50
   const highImportanceMemories = robotMemories.filter(m => m.importance > 0.7).length;
   const knowledgeScore =
-    knowledgeCount * 20 +
-    highImportanceMemories * 50;
+    knowledgeCount * SCORE_WEIGHTS.knowledge +
+    highImportanceMemories * SCORE_WEIGHTS.highImportanceMemory;
 
   // === PENALTIES ===
-  const deathPenalty = totalDeaths * 50;
+  const deathPenalty = totalDeaths * SCORE_WEIGHTS.death;
 
   // === TOTAL SCORE ===
   const totalScore = Math.max(0,
@@ -200,7 +261,7 @@ export function createScoreChange(
     amount,
     reason,
     category,
-    timestamp: Date.now(),
+    timestamp: getGameMinutes(),
   };
 }
 
@@ -305,6 +366,37 @@ export const ACHIEVEMENTS: Record<string, Omit<Achievement, 'unlockedAt'>> = {
   },
 };
 
+export interface AchievementProgress {
+  current: number;
+  target: number;
+  unit: string;
+}
+
+// What each achievement counts and where its threshold sits
+const ACHIEVEMENT_GOALS: Record<string, (score: RealtimeScore, builtCount: number) => AchievementProgress> = {
+  first_day: (score) => ({ current: score.stats.currentDay, target: 1, unit: '日' }),
+  week_survivor: (score) => ({ current: score.stats.currentDay, target: 7, unit: '日' }),
+  month_survivor: (score) => ({ current: score.stats.currentDay, target: 30, unit: '日' }),
+  hundred_days: (score) => ({ current: score.stats.currentDay, target: 100, unit: '日' }),
+  first_shelter: (_, builtCount) => ({ current: builtCount, target: 1, unit: '棟' }),
+  architect: (_, builtCount) => ({ current: builtCount, target: 10, unit: '棟' }),
+  metropolis: (_, builtCount) => ({ current: builtCount, target: 20, unit: '棟' }),
+  knowledge_seeker: (score) => ({ current: score.stats.knowledgeCount, target: 50, unit: '個' }),
+  omniscient: (score) => ({ current: score.stats.knowledgeCount, target: 100, unit: '個' }),
+  population_boom: (score) => ({ current: score.stats.population, target: 15, unit: '体' }),
+  survivor: (score) => ({ current: score.stats.catastrophesSurvived, target: 1, unit: '回' }),
+  disaster_master: (score) => ({ current: score.stats.catastrophesSurvived, target: 5, unit: '回' }),
+  perfect_score: (score) => ({ current: score.current.total, target: 15000, unit: 'pt' }),
+  // Any death resets the count
+  no_deaths: (score) => ({ current: score.stats.deathCount === 0 ? score.stats.currentDay : 0, target: 30, unit: '日' }),
+};
+
+export function getAchievementProgress(id: string, score: RealtimeScore, buildings: Building[]): AchievementProgress {
+  const goal = ACHIEVEMENT_GOALS[id];
+  if (!goal) return { current: 0, target: 1, unit: '' };
+  return goal(score, buildings.filter(b => b.built).length);
+}
+
 export function checkAchievements(
   score: RealtimeScore,
   buildings: Building[],
@@ -313,85 +405,66 @@ export function checkAchievements(
   const unlocked: Achievement[] = [...currentAchievements];
   const unlockedIds = new Set(unlocked.map(a => a.id));
 
-  // Day milestones
-  if (score.stats.currentDay >= 1 && !unlockedIds.has('first_day')) {
-    unlocked.push({ ...ACHIEVEMENTS.first_day, unlockedAt: Date.now() });
-  }
-  if (score.stats.currentDay >= 7 && !unlockedIds.has('week_survivor')) {
-    unlocked.push({ ...ACHIEVEMENTS.week_survivor, unlockedAt: Date.now() });
-  }
-  if (score.stats.currentDay >= 30 && !unlockedIds.has('month_survivor')) {
-    unlocked.push({ ...ACHIEVEMENTS.month_survivor, unlockedAt: Date.now() });
-  }
-  if (score.stats.currentDay >= 100 && !unlockedIds.has('hundred_days')) {
-    unlocked.push({ ...ACHIEVEMENTS.hundred_days, unlockedAt: Date.now() });
+  for (const achievement of Object.values(ACHIEVEMENTS)) {
+    if (unlockedIds.has(achievement.id)) continue;
+    const { current, target } = getAchievementProgress(achievement.id, score, buildings);
+    if (current >= target) {
+      unlocked.push({ ...achievement, unlockedAt: Date.now() });
+    }
   }
 
-  // Building achievements
-  const builtCount = buildings.filter(b => b.built).length;
-  if (builtCount >= 1 && !unlockedIds.has('first_shelter')) {
-    unlocked.push({ ...ACHIEVEMENTS.first_shelter, unlockedAt: Date.now() });
-  }
-  if (builtCount >= 10 && !unlockedIds.has('architect')) {
-    unlocked.push({ ...ACHIEVEMENTS.architect, unlockedAt: Date.now() });
-  }
-  if (builtCount >= 20 && !unlockedIds.has('metropolis')) {
-    unlocked.push({ ...ACHIEVEMENTS.metropolis, unlockedAt: Date.now() });
-  }
-
-  // Knowledge achievements
-  if (score.stats.knowledgeCount >= 50 && !unlockedIds.has('knowledge_seeker')) {
-    unlocked.push({ ...ACHIEVEMENTS.knowledge_seeker, unlockedAt: Date.now() });
-  }
-  if (score.stats.knowledgeCount >= 100 && !unlockedIds.has('omniscient')) {
-    unlocked.push({ ...ACHIEVEMENTS.omniscient, unlockedAt: Date.now() });
-  }
+  return unlocked;
+}
 
-  // Population
-  if (score.stats.population >= 15 && !unlockedIds.has('population_boom')) {
-    unlocked.push({ ...ACHIEVEMENTS.population_boom, unlockedAt: Date.now() });
-  }
+// ========================================
+// Game Records
+// ========================================
 
-  // Disasters
-  if (score.stats.catastrophesSurvived >= 1 && !unlockedIds.has('survivor')) {
-    unlocked.push({ ...ACHIEVEMENTS.survivor, unlockedAt: Date.now() });
-  }
-  if (score.stats.catastrophesSurvived >= 5 && !unlockedIds.has('disaster_master')) {
-    unlocked.push({ ...ACHIEVEMENTS.disaster_master, unlockedAt: Date.now() });
-  }
+export type EndCause = GameRecord['causeOfEnd'];
 
-  // Rank
-  if (score.rank.current === 'SS' && !unlockedIds.has('perfect_score')) {
-    unlocked.push({ ...ACHIEVEMENTS.perfect_score, unlockedAt: Date.now() });
-  }
+export const END_CAUSE_LABELS: Record<EndCause, string> = {
+  victory: '勝利',
+  robot_death: 'ロボットの永久停止',
+  extinction: 'クリッターの絶滅',
+  player_quit: '途中終了',
+};
 
-  // No deaths
-  if (score.stats.currentDay >= 30 && score.stats.deathCount === 0 && !unlockedIds.has('no_deaths')) {
-    unlocked.push({ ...ACHIEVEMENTS.no_deaths, unlockedAt: Date.now() });
-  }
+// Survive this many days to win (0 turns victory off)
+export const DEFAULT_VICTORY_DAY = 30;
 
-  return unlocked;
+// Why the run is over, if it is (player_quit is the player's call, never detected).
+// Ore can bring critters back, so the world is only extinct after a whole day without any.
+export function detectRunEnd(state: SimState, victoryDay: number, minutesWithoutCritters: number): EndCause | null {
+  if (state.robotStatus.isDead) return 'robot_death';
+  if (minutesWithoutCritters >= GAME_MINUTES_PER_DAY) return 'extinction';
+  if (victoryDay > 0 && state.day >= victoryDay) return 'victory';
+  return null;
 }
 
-// ========================================
-// Game Records
-// ========================================
+// The most important events of a run, in the order they happened
+export function getTimelineHighlights(timeline: TimelineEvent[], limit = 10): TimelineEvent[] {
+  return [...timeline]
+    .sort((a, b) => b.importance - a.importance)
+    .slice(0, limit)
+    .sort((a, b) => a.gameMinutes - b.gameMinutes);
+}
 
 export function createGameRecord(
   score: RealtimeScore,
   timeline: TimelineEvent[],
   achievements: Achievement[],
-  causeOfEnd: GameRecord['causeOfEnd']
+  causeOfEnd: EndCause,
+  startedAt: number
 ): GameRecord {
   return {
-    id: `game_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    playedAt: Date.now() - score.stats.currentDay * 24 * 60 * 60 * 1000, // Approximate start time
+    id: `game_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+    playedAt: startedAt,
     endedAt: Date.now(),
     score,
     finalPopulation: score.stats.population,
     daysSurvived: score.stats.currentDay,
     causeOfEnd,
-    timeline,
+    timeline: getTimelineHighlights(timeline),
     achievements,
   };
 }
@@ -399,3 +472,16 @@ export function createGameRecord(
 export function compareGameRecords(a: GameRecord, b: GameRecord): number {
   return b.score.current.total - a.score.current.total;
 }
+
+export type GameRecordSortKey = 'score' | 'days' | 'population' | 'recent';
+
+const GAME_RECORD_COMPARATORS: Record<GameRecordSortKey, (a: GameRecord, b: GameRecord) => number> = {
+  score: compareGameRecords,
+  days: (a, b) => b.daysSurvived - a.daysSurvived || compareGameRecords(a, b),
+  population: (a, b) => b.finalPopulation - a.finalPopulation || compareGameRecords(a, b),
+  recent: (a, b) => b.endedAt - a.endedAt,
+};
+
+export function sortGameRecords(records: GameRecord[], key: GameRecordSortKey): GameRecord[] {
+  return [...records].sort(GAME_RECORD_COMPARATORS[key]);
+}
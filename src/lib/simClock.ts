@@ -0,0 +1,93 @@
+/**
+ * Simulation Clock - Scaled time shared by every simulation system
+ * Real frame time × time scale, frozen while paused
+ */
+
+// ========================================
+// Time Scale
+// ========================================
+
+export const TIME_SCALES = [1, 3, 10] as const;
+export type TimeScale = typeof TIME_SCALES[number];
+
+// Fast-forward speed used by "skip to dawn"
+export const SKIP_TO_DAWN_SCALE = 30;
+export const DAWN_HOUR = 6;
+
+// Physics does not scale, so movement speed is multiplied instead; capped to keep bodies stable
+const MAX_MOVEMENT_SCALE = 10;
+
+// Long frames (tab switches, GC pauses) are clamped so one step stays reasonable
+const MAX_FRAME_DELTA = 0.1;
+
+// One simulated second advances the world clock by this many game minutes
+// (one in-game day takes 8 real minutes at 1x)
+export const GAME_MINUTES_PER_SECOND = 3;
+export const GAME_MINUTES_PER_DAY = 24 * 60;
+
+// ========================================
+// Clock State
+// ========================================
+
+let simTime = 0;
+let frameDelta = 0;
+let currentScale = 1;
+let gameMinutes = 0;
+
+/**
+ * Advance the clock by one rendered frame. Called once per frame,
+ * before any system reads the clock. The game-minute clock is advanced
+ * by the simulation kernel as it steps the world.
+ */
+export function advanceSimClock(realDelta: number, scale: number): number {
+  currentScale = scale;
+  frameDelta = Math.min(realDelta, MAX_FRAME_DELTA) * scale;
+  simTime += frameDelta;
+  return frameDelta;
+}
+
+/**
+ * Set the world clock (on load, world reset and every kernel step).
+ * The store mirrors this value so it survives reloads.
+ */
+export function setGameMinutes(minutes: number): void {
+  gameMinutes = minutes;
+}
+
+// Simulated seconds since the page loaded
+export function getSimTime(): number {
+  return simTime;
+}
+
+// Simulated seconds elapsed this frame (0 while paused)
+export function getSimDelta(): number {
+  return frameDelta;
+}
+
+/**
+ * Game minutes since the world started. Monotonic for the life of a world:
+ * ages, activity durations, memories, cooldowns and logs are measured on it.
+ */
+export function getGameMinutes(): number {
+  return gameMinutes;
+}
+
+export function toGameMinutes(simSeconds: number): number {
+  return simSeconds * GAME_MINUTES_PER_SECOND;
+}
+
+export function toSimSeconds(minutes: number): number {
+  return minutes / GAME_MINUTES_PER_SECOND;
+}
+
+export function getTimeScale(): number {
+  return currentScale;
+}
+
+export function isSimPaused(): boolean {
+  return currentScale === 0;
+}
+
+export function getMovementScale(): number {
+  return Math.min(currentScale, MAX_MOVEMENT_SCALE);
+}
@@ -3,6 +3,9 @@
  * Phase 1: Core survival mechanics for robots and critters
  */
 
+import { random } from './random';
+import { GAME_MINUTES_PER_DAY, toGameMinutes } from './simClock';
+
 // ========================================
 // Types
 // ========================================
@@ -15,8 +18,28 @@ export interface RobotStatus {
   overheated: boolean; // true if temp > 40°C
   frozen: boolean; // true if temp < -10°C
   repairParts: number; // Parts available for self-repair
+  malfunctionTime: number; // Game seconds spent malfunctioning
+  isDead: boolean; // Permanent shutdown after DEATH_TIMER
 }
 
+export type CritterDeathCause =
+  | 'starvation'
+  | 'cold'
+  | 'heat'
+  | 'exhaustion'
+  | 'sickness'
+  | 'attack'
+  | 'weather'
+  | 'old_age'
+  | 'intervention'; // killed by the player's hand (sandbox)
+
+export type HealthStatus = 'healthy' | 'sick' | 'dying' | 'dead';
+
+/**
+ * Authoritative critter vitals. Needs (hunger/energy) and lifecycle
+ * (speed, reproduction) read from this; every source of harm goes
+ * through damageCritter so death has a single resolution point.
+ */
 export interface CritterStatus {
   health: number; // 0-100
   hunger: number; // 0-100%
@@ -24,6 +47,10 @@ export interface CritterStatus {
   temperature: number; // Body temperature
   isDying: boolean; // true if health < 10
   starvationTimer: number; // Seconds until death from starvation
+  sicknessTimer: number; // Game minutes of sickness remaining (0 = healthy)
+  lastDamageCause: CritterDeathCause | null; // Most recent source of health loss
+  isDead: boolean;
+  causeOfDeath: CritterDeathCause | null;
 }
 
 export interface EnvironmentalDamage {
@@ -55,6 +82,11 @@ export const ROBOT_CONSTANTS = {
 
   OVERHEAT_DAMAGE: 0.5, // Durability loss per second
   FREEZE_DAMAGE: 0.3, // Durability loss per second
+
+  WEAR_MOVING: 0.05, // Durability loss per minute moving
+  WEAR_WORKING: 0.1, // Durability loss per minute working
+  SELF_REPAIR_THRESHOLD: 30, // Use a repair part below this durability
+  GATHER_DAMAGE: 5, // Durability lost when gathering from a dangerous node goes wrong
 };
 
 export const CRITTER_CONSTANTS = {
@@ -70,8 +102,34 @@ export const CRITTER_CONSTANTS = {
 
   TEMP_NORMAL_MIN: 10,
   TEMP_NORMAL_MAX: 30,
-  COLD_DAMAGE: 0.5, // HP per second in cold
-  HEAT_DAMAGE: 0.3, // HP per second in heat
+  COLD_DAMAGE: 0.05, // HP per second per degree below normal
+  HEAT_DAMAGE: 0.05, // HP per second per degree above normal
+  BODY_HEAT: 18, // Degrees a critter can warm itself above ambient
+  TEMP_COMFORT: 20, // Body temperature critters regulate toward
+
+  EXHAUSTION_DAMAGE: 0.2, // HP per second at 100% fatigue
+
+  SICKNESS_DAMAGE: 0.2, // HP per second while sick
+  SICKNESS_RECOVERY: 0.3, // HP per second while sick but well fed
+  SICKNESS_DURATION_MIN: 0.25 * GAME_MINUTES_PER_DAY, // Game minutes (a quarter day)
+  SICKNESS_DURATION_MAX: 0.5 * GAME_MINUTES_PER_DAY, // Game minutes (half a day)
+  SICKNESS_CHANCE_STARVING: 0.002, // Per second when hunger < 15%
+  SICKNESS_CHANCE: 0.0001, // Per second otherwise
+
+  HEALTH_REGEN: 0.05, // HP per second when fed, rested and healthy
+  FOOD_VALUE: 15, // Hunger % restored per second of eating
+};
+
+export const CRITTER_DEATH_CAUSE_LABELS: Record<CritterDeathCause, string> = {
+  starvation: '餓死',
+  cold: '凍死',
+  heat: '熱中症',
+  exhaustion: '衰弱死',
+  sickness: '病死',
+  attack: '捕食',
+  weather: '災害',
+  old_age: '老衰',
+  intervention: '介入',
 };
 
 // ========================================
@@ -87,6 +145,8 @@ export function createDefaultRobotStatus(): RobotStatus {
     overheated: false,
     frozen: false,
     repairParts: 3, // Start with 3 repair parts
+    malfunctionTime: 0,
+    isDead: false,
   };
 }
 
@@ -162,6 +222,38 @@ export function updateRobotTemperature(
   };
 }
 
+export function applyRobotWear(
+  status: RobotStatus,
+  delta: number,
+  activity: 'idle' | 'moving' | 'working'
+): RobotStatus {
+  if (activity === 'idle') return status;
+
+  const wearRate = activity === 'moving' ? ROBOT_CONSTANTS.WEAR_MOVING : ROBOT_CONSTANTS.WEAR_WORKING;
+
+  return {
+    ...status,
+    durability: Math.max(0, status.durability - (wearRate / 60) * delta),
+  };
+}
+
+export function updateRobotMalfunction(status: RobotStatus, gameDelta: number): RobotStatus {
+  if (status.isDead) return status;
+
+  // Broken (no battery or no durability) → count toward permanent death
+  if (status.malfunctioning || status.durability <= 0) {
+    const malfunctionTime = status.malfunctionTime + gameDelta;
+    return {
+      ...status,
+      malfunctionTime,
+      isDead: malfunctionTime >= ROBOT_CONSTANTS.DEATH_TIMER,
+    };
+  }
+
+  if (status.malfunctionTime === 0) return status;
+  return { ...status, malfunctionTime: 0 };
+}
+
 export function repairRobot(status: RobotStatus): RobotStatus {
   if (status.repairParts <= 0) return status;
 
@@ -184,9 +276,53 @@ export function createDefaultCritterStatus(): CritterStatus {
     temperature: 20,
     isDying: false,
     starvationTimer: 0,
+    sicknessTimer: 0,
+    lastDamageCause: null,
+    isDead: false,
+    causeOfDeath: null,
   };
 }
 
+/**
+ * Single death pipeline: every vitals change ends here.
+ */
+function resolveCritterDeath(status: CritterStatus): CritterStatus {
+  if (status.isDead) return status;
+
+  if (status.starvationTimer > CRITTER_CONSTANTS.STARVATION_DEATH_TIME) {
+    return { ...status, health: 0, isDying: true, isDead: true, causeOfDeath: 'starvation' };
+  }
+  if (status.health <= 0) {
+    return {
+      ...status,
+      health: 0,
+      isDying: true,
+      isDead: true,
+      causeOfDeath: status.lastDamageCause ?? 'sickness',
+    };
+  }
+
+  return { ...status, isDying: status.health < 10 };
+}
+
+export function damageCritter(
+  status: CritterStatus,
+  amount: number,
+  cause: CritterDeathCause
+): CritterStatus {
+  if (status.isDead || amount <= 0) return status;
+  return resolveCritterDeath({
+    ...status,
+    health: Math.max(0, status.health - amount),
+    lastDamageCause: cause,
+  });
+}
+
+export function killCritter(status: CritterStatus, cause: CritterDeathCause): CritterStatus {
+  if (status.isDead) return status;
+  return { ...status, health: 0, isDying: true, isDead: true, causeOfDeath: cause, lastDamageCause: cause };
+}
+
 export function updateCritterHunger(
   status: CritterStatus,
   delta: number,
@@ -200,26 +336,19 @@ export function updateCritterHunger(
   const newHunger = Math.max(0, status.hunger - drain);
 
   // Starvation damage
-  let newHealth = status.health;
-  let newStarvationTimer = status.starvationTimer;
-
   if (newHunger === 0) {
-    newStarvationTimer += delta;
-    newHealth = Math.max(0, newHealth - CRITTER_CONSTANTS.STARVATION_DAMAGE * delta);
-  } else {
-    newStarvationTimer = 0;
+    return damageCritter(
+      { ...status, hunger: newHunger, starvationTimer: status.starvationTimer + delta },
+      CRITTER_CONSTANTS.STARVATION_DAMAGE * delta,
+      'starvation'
+    );
   }
 
-  return {
-    ...status,
-    hunger: newHunger,
-    health: newHealth,
-    starvationTimer: newStarvationTimer,
-    isDying: newHealth < 10 || newStarvationTimer > CRITTER_CONSTANTS.STARVATION_DEATH_TIME,
-  };
+  return resolveCritterDeath({ ...status, hunger: newHunger, starvationTimer: 0 });
 }
 
 export function feedCritter(status: CritterStatus, foodValue: number): CritterStatus {
+  if (status.isDead) return status;
   return {
     ...status,
     hunger: Math.min(100, status.hunger + foodValue),
@@ -246,6 +375,11 @@ export function updateCritterFatigue(
 
   const newFatigue = Math.max(0, Math.min(100, status.fatigue + fatigueChange));
 
+  // Collapsing from exhaustion
+  if (newFatigue >= 100) {
+    return damageCritter({ ...status, fatigue: newFatigue }, CRITTER_CONSTANTS.EXHAUSTION_DAMAGE * delta, 'exhaustion');
+  }
+
   return {
     ...status,
     fatigue: newFatigue,
@@ -258,30 +392,89 @@ export function updateCritterTemperature(
   delta: number,
   inShelter: boolean = false
 ): CritterStatus {
-  // Body temperature regulation (critters are better at this than robots)
+  // Body temperature regulation (critters are better at this than robots):
+  // they can warm themselves toward TEMP_COMFORT but can't cool below ambient
+  const target = ambientTemp < CRITTER_CONSTANTS.TEMP_COMFORT
+    ? Math.min(CRITTER_CONSTANTS.TEMP_COMFORT, ambientTemp + CRITTER_CONSTANTS.BODY_HEAT)
+    : ambientTemp;
   const convergenceRate = inShelter ? 0.2 : 1.0;
-  const tempDiff = ambientTemp - status.temperature;
+  const tempDiff = target - status.temperature;
   const tempChange = (tempDiff * convergenceRate * delta) / 60;
 
-  let newTemp = status.temperature + tempChange;
-  let newHealth = status.health;
+  const newTemp = status.temperature + tempChange;
+  const next = { ...status, temperature: newTemp };
 
   // Temperature damage
   if (newTemp < CRITTER_CONSTANTS.TEMP_NORMAL_MIN) {
-    newHealth = Math.max(0, newHealth - CRITTER_CONSTANTS.COLD_DAMAGE * delta);
+    const degrees = CRITTER_CONSTANTS.TEMP_NORMAL_MIN - newTemp;
+    return damageCritter(next, CRITTER_CONSTANTS.COLD_DAMAGE * degrees * delta, 'cold');
   } else if (newTemp > CRITTER_CONSTANTS.TEMP_NORMAL_MAX) {
-    newHealth = Math.max(0, newHealth - CRITTER_CONSTANTS.HEAT_DAMAGE * delta);
+    const degrees = newTemp - CRITTER_CONSTANTS.TEMP_NORMAL_MAX;
+    return damageCritter(next, CRITTER_CONSTANTS.HEAT_DAMAGE * degrees * delta, 'heat');
   }
 
-  return {
-    ...status,
-    temperature: newTemp,
-    health: newHealth,
-    isDying: newHealth < 10,
-  };
+  return resolveCritterDeath(next);
+}
+
+export function updateCritterSickness(
+  status: CritterStatus,
+  delta: number
+): CritterStatus {
+  if (status.isDead) return status;
+
+  // Sickness onset (much more likely when starving)
+  if (status.sicknessTimer <= 0) {
+    const chance = status.hunger < 15
+      ? CRITTER_CONSTANTS.SICKNESS_CHANCE_STARVING
+      : CRITTER_CONSTANTS.SICKNESS_CHANCE;
+    if (random() < chance * delta) {
+      const duration = CRITTER_CONSTANTS.SICKNESS_DURATION_MIN
+        + random() * (CRITTER_CONSTANTS.SICKNESS_DURATION_MAX - CRITTER_CONSTANTS.SICKNESS_DURATION_MIN);
+      return damageCritter({ ...status, sicknessTimer: duration }, 15, 'sickness');
+    }
+    return status;
+  }
+
+  // Sickness progression; eating well helps recovery
+  const remaining = Math.max(0, status.sicknessTimer - toGameMinutes(delta));
+  let next = damageCritter({ ...status, sicknessTimer: remaining }, CRITTER_CONSTANTS.SICKNESS_DAMAGE * delta, 'sickness');
+  if (status.hunger > 60) {
+    next = { ...next, health: Math.min(100, next.health + CRITTER_CONSTANTS.SICKNESS_RECOVERY * delta) };
+  }
+  if (remaining === 0 && !next.isDead) {
+    // Recovered
+    next = { ...next, health: Math.min(100, next.health + 20) };
+  }
+  return resolveCritterDeath(next);
+}
+
+/**
+ * Advance all critter vitals by one tick (hunger, fatigue, body temperature,
+ * sickness, natural regeneration) and resolve death.
+ */
+export function tickCritterVitals(
+  status: CritterStatus,
+  delta: number,
+  env: { isNight: boolean; ambientTemp: number; activity: 'active' | 'resting'; inShelter?: boolean }
+): CritterStatus {
+  if (status.isDead) return status;
+
+  let next = updateCritterHunger(status, delta, env.isNight);
+  next = updateCritterFatigue(next, delta, env.activity, env.inShelter);
+  next = updateCritterTemperature(next, env.ambientTemp, delta, env.inShelter);
+  next = updateCritterSickness(next, delta);
+
+  // Natural regeneration when well
+  if (!next.isDead && next.sicknessTimer <= 0 && next.hunger > 50 && next.fatigue < 80
+    && next.temperature >= CRITTER_CONSTANTS.TEMP_NORMAL_MIN && next.temperature <= CRITTER_CONSTANTS.TEMP_NORMAL_MAX) {
+    next = resolveCritterDeath({ ...next, health: Math.min(100, next.health + CRITTER_CONSTANTS.HEALTH_REGEN * delta) });
+  }
+
+  return next;
 }
 
 export function healCritter(status: CritterStatus, healAmount: number): CritterStatus {
+  if (status.isDead) return status;
   return {
     ...status,
     health: Math.min(100, status.health + healAmount),
@@ -298,7 +491,7 @@ export function getEnvironmentalDamage(
   temperature: number
 ): EnvironmentalDamage | null {
   // Storm conditions (heavy rain + wind)
-  if (weather === 'rainy' && Math.random() < 0.1) {
+  if (weather === 'rainy' && random() < 0.1) {
     return {
       type: 'storm',
       damagePerSecond: 0.5,
@@ -358,17 +551,25 @@ export function applyEnvironmentalDamage(
 // ========================================
 
 export function isRobotFunctional(status: RobotStatus): boolean {
-  return !status.malfunctioning && status.durability > 0;
+  return !status.isDead && !status.malfunctioning && status.durability > 0;
 }
 
 export function isCritterAlive(status: CritterStatus): boolean {
-  return status.health > 0 && !status.isDying;
+  return !status.isDead && status.health > 0;
+}
+
+export function getCritterHealthStatus(status: CritterStatus): HealthStatus {
+  if (status.isDead) return 'dead';
+  if (status.isDying) return 'dying';
+  if (status.sicknessTimer > 0) return 'sick';
+  return 'healthy';
 }
 
 export function getRobotStatusWarnings(status: RobotStatus): string[] {
   const warnings: string[] = [];
 
   if (status.battery < 20) warnings.push('バッテリー低下');
+  if (status.isDead) warnings.push('💀 完全停止');
   if (status.battery === 0) warnings.push('⚠️ 機能停止');
   if (status.durability < 30) warnings.push('耐久性低下');
   if (status.overheated) warnings.push('🔥 オーバーヒート');
@@ -385,6 +586,7 @@ export function getCritterStatusWarnings(status: CritterStatus): string[] {
   if (status.hunger === 0) warnings.push('⚠️ 餓死寸前');
   if (status.fatigue > 80) warnings.push('疲労困憊');
   if (status.health < 30) warnings.push('瀕死');
+  if (status.sicknessTimer > 0) warnings.push('病気');
   if (status.isDying) warnings.push('🚨 危篤状態');
 
   return warnings;
@@ -14,7 +14,7 @@ export interface WildAnimalDef {
     aggressive?: boolean;
     chaseDistance?: number;
     attackRange?: number;
-    attackDamage?: number;
+    attackDamage?: number; // Critter HP per bite
 }
 
 export const WILD_ANIMAL_DEFS: Record<WildAnimalSpecies, WildAnimalDef> = {
@@ -57,6 +57,24 @@ export const WILD_ANIMAL_DEFS: Record<WildAnimalSpecies, WildAnimalDef> = {
         aggressive: true,
         chaseDistance: 20,
         attackRange: 2.0,
-        attackDamage: 0.15,
+        attackDamage: 15,
     },
 };
+
+export interface WildAnimalSpawn {
+    id: string;
+    species: WildAnimalSpecies;
+    position: [number, number, number];
+}
+
+export const WILD_ANIMAL_SPAWNS: WildAnimalSpawn[] = [
+    { id: 'deer-1', species: 'deer', position: [-18, 0.5, 18] },
+    { id: 'deer-2', species: 'deer', position: [22, 0.5, -15] },
+    { id: 'bird-1', species: 'bird', position: [5, 5, 12] },
+    { id: 'bird-2', species: 'bird', position: [-12, 6, -8] },
+    { id: 'rabbit-1', species: 'rabbit', position: [10, 0.5, 5] },
+    { id: 'rabbit-2', species: 'rabbit', position: [-8, 0.5, -12] },
+    { id: 'rabbit-3', species: 'rabbit', position: [15, 0.5, -3] },
+    { id: 'wolf-1', species: 'wolf', position: [-40, 0.5, 35] },
+    { id: 'wolf-2', species: 'wolf', position: [45, 0.5, -30] },
+];
@@ -0,0 +1,354 @@
+/**
+ * World State - Everything the simulation kernel reads and writes
+ * The store holds this state in the browser; the CLI holds it in memory
+ */
+
+import type { EmotionState, EmotionEvent } from './emotions';
+import { applyEmotionEvent, DEFAULT_EMOTION } from './emotions';
+import type { RelationshipMap } from './relationships';
+import type { NeedsState } from './needs';
+import type { ResourceNode } from './resources';
+import { createInitialResources } from './resources';
+import type { LifecycleState } from './lifecycle';
+import type { RobotStatus, CritterStatus } from './survival';
+import { createDefaultRobotStatus } from './survival';
+import type { Building } from './building';
+import type { RecipeId } from './crafting';
+import type { ActivityState } from './activities';
+import type { WeatherType, WeatherEvent, WeatherEventPhase } from './environment';
+import { createInitialScore, type TimelineEvent, type RealtimeScore, type Achievement, type EndCause } from './scoring';
+import { pruneMemories, type Memory } from './memory';
+import { getGameMinutes } from './simClock';
+import { WILD_ANIMAL_SPAWNS, type WildAnimalSpawn } from './wildAnimals';
+
+// ========================================
+// Types
+// ========================================
+
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+
+export interface ActivityLogEntry {
+  id: string;
+  timestamp: number; // game minutes (simClock)
+  gameTime: string; // "Day 5, 14:23"
+  category: 'thought' | 'event' | 'dialogue' | 'combat' | 'discovery' | 'death' | 'build' | 'warning';
+  importance: 'low' | 'normal' | 'high' | 'critical';
+  entityId: string; // 'robot' | critter ID
+  title?: string;
+  content: string;
+  icon?: string;
+  relatedEntities?: string[];
+}
+
+export type ActivityLogInput = Omit<ActivityLogEntry, 'id' | 'timestamp' | 'gameTime'>;
+
+// Entries kept in the world; the browser archives older ones (logArchive)
+export const ACTIVITY_LOG_LIMIT = 200;
+
+// Critter Registry for dynamic spawning
+export interface CritterRegistryEntry {
+  id: string;
+  name: string;
+  color: string;
+  spawnPosition: [number, number, number];
+  isAlive: boolean;
+  generation: number;
+  parentId?: string; // absent for the founders and critters spawned from ore
+}
+
+export interface RobotThought {
+  thought: string;
+  action: string;
+  timestamp: number; // game minutes
+  gameTime: string;
+}
+
+export interface CritterThought extends RobotThought {
+  critterName: string;
+  color: string;
+}
+
+export interface CraftingJob {
+  recipeId: RecipeId;
+  progress: number;
+}
+
+export interface CombatStats {
+  wins: number;
+  losses: number;
+  catastrophesSurvived: number;
+}
+
+export interface RunEnd {
+  cause: EndCause;
+  day: number;
+  gameMinutes: number;
+}
+
+export interface SimState {
+  // Clock and environment
+  gameMinutes: number; // monotonic world clock (game minutes since the world started)
+  time: number; // 0 to 24
+  day: number; // starts at 1
+  season: Season;
+  weather: WeatherType;
+  temperature: number; // Celsius
+  weatherEvent: WeatherEvent | null;
+  weatherEventPhase: WeatherEventPhase | null;
+  weatherWarning: string | null;
+
+  // Resources, buildings and crafting
+  resourceNodes: ResourceNode[];
+  buildings: Building[];
+  inventory: Record<string, number>;
+  craftRequest: RecipeId | null; // UI request, consumed by the robot
+  craftingJob: CraftingJob | null; // the robot's current job, for display
+  userDirective: string | null; // consumed by the robot's next thought or decision
+
+  // Entities
+  robotStatus: RobotStatus;
+  critterStatuses: Record<string, CritterStatus>;
+  critterRegistry: CritterRegistryEntry[];
+  entityLifecycles: Record<string, LifecycleState>;
+  entityNeeds: Record<string, NeedsState>;
+  entityEmotions: Record<string, EmotionState>;
+  entityActivities: Record<string, ActivityState>;
+  entityPositions: Record<string, { x: number; z: number }>;
+  wildAnimals: WildAnimalSpawn[];
+  relationships: RelationshipMap;
+  exploredCells: number[]; // exploration grid cells the robot has seen
+  observedElements: Record<string, string[]>; // world elements each entity has discovered
+
+  // Minds and history
+  robotMemories: Memory[];
+  critterMemories: Record<string, Memory[]>;
+  robotThoughts: RobotThought[];
+  critterThoughts: Record<string, CritterThought[]>;
+  activityLog: ActivityLogEntry[];
+  timeline: TimelineEvent[];
+  combatStats: CombatStats;
+
+  // Progress
+  realtimeScore: RealtimeScore;
+  achievements: Achievement[];
+  runEnd: RunEnd | null; // set once the run is over; the kernel stops stepping
+}
+
+// ========================================
+// Initial State
+// ========================================
+
+// A world starts at noon on day 1 (gameMinutes 0)
+export const WORLD_START_HOUR = 12;
+
+export function createInitialCritters(): CritterRegistryEntry[] {
+  return [
+    { id: 'Critter-A', name: 'Critter-A', color: '#ff6b6b', spawnPosition: [3, 0.5, 3], isAlive: true, generation: 0 },
+    { id: 'Critter-B', name: 'Critter-B', color: '#4ecdc4', spawnPosition: [-4, 0.5, 2], isAlive: true, generation: 0 },
+    { id: 'Critter-C', name: 'Critter-C', color: '#ffe66d', spawnPosition: [0, 0.5, -5], isAlive: true, generation: 0 },
+    { id: 'Critter-D', name: 'Critter-D', color: '#a78bfa', spawnPosition: [6, 0.5, -3], isAlive: true, generation: 0 },
+    { id: 'Critter-E', name: 'Critter-E', color: '#f97316', spawnPosition: [-6, 0.5, -4], isAlive: true, generation: 0 },
+  ];
+}
+
+export function createInitialWildAnimals(): WildAnimalSpawn[] {
+  return WILD_ANIMAL_SPAWNS.map(spawn => ({ ...spawn }));
+}
+
+export function createInitialSimState(): SimState {
+  return {
+    gameMinutes: 0,
+    time: WORLD_START_HOUR,
+    day: 1,
+    season: 'spring',
+    weather: 'sunny',
+    temperature: 15,
+    weatherEvent: null,
+    weatherEventPhase: null,
+    weatherWarning: null,
+
+    resourceNodes: createInitialResources(),
+    buildings: [],
+    inventory: { fiber: 0, scrap_metal: 0, crystal: 0, high_quality_parts: 0 },
+    craftRequest: null,
+    craftingJob: null,
+    userDirective: null,
+
+    robotStatus: createDefaultRobotStatus(),
+    critterStatuses: {},
+    critterRegistry: createInitialCritters(),
+    entityLifecycles: {},
+    entityNeeds: {},
+    entityEmotions: {},
+    entityActivities: {},
+    entityPositions: {},
+    wildAnimals: createInitialWildAnimals(),
+    relationships: {},
+    exploredCells: [],
+    observedElements: {},
+
+    robotMemories: [],
+    critterMemories: {},
+    robotThoughts: [],
+    critterThoughts: {},
+    activityLog: [],
+    timeline: [],
+    combatStats: { wins: 0, losses: 0, catastrophesSurvived: 0 },
+
+    realtimeScore: createInitialScore(),
+    achievements: [],
+    runEnd: null,
+  };
+}
+
+// Exhaustive so a new SimState field cannot be forgotten when copying state in and out
+const SIM_STATE_FIELDS: Record<keyof SimState, true> = {
+  gameMinutes: true, time: true, day: true, season: true, weather: true, temperature: true,
+  weatherEvent: true, weatherEventPhase: true, weatherWarning: true,
+  resourceNodes: true, buildings: true, inventory: true, craftRequest: true, craftingJob: true, userDirective: true,
+  robotStatus: true, critterStatuses: true, critterRegistry: true, entityLifecycles: true, entityNeeds: true,
+  entityEmotions: true, entityActivities: true, entityPositions: true, wildAnimals: true, relationships: true, exploredCells: true, observedElements: true,
+  robotMemories: true, critterMemories: true, robotThoughts: true, critterThoughts: true,
+  activityLog: true, timeline: true, combatStats: true,
+  realtimeScore: true, achievements: true, runEnd: true,
+};
+
+const SIM_STATE_KEYS = Object.keys(SIM_STATE_FIELDS) as (keyof SimState)[];
+
+// Shallow copy of the simulation fields of a larger state object (e.g. the store)
+export function pickSimState(source: SimState): SimState {
+  const state = {} as Record<keyof SimState, unknown>;
+  for (const key of SIM_STATE_KEYS) {
+    state[key] = source[key];
+  }
+  return state as SimState;
+}
+
+/**
+ * Fields whose value changed between two states. Collections are replaced,
+ * never edited in place, so a reference check is enough.
+ */
+export function diffSimState(before: SimState, after: SimState): Partial<SimState> {
+  const changed: Partial<Record<keyof SimState, unknown>> = {};
+  for (const key of SIM_STATE_KEYS) {
+    if (before[key] !== after[key]) {
+      changed[key] = after[key];
+    }
+  }
+  return changed as Partial<SimState>;
+}
+
+// ========================================
+// State Updates (shared by store actions and the kernel)
+// ========================================
+
+export function formatClockTime(time: number): string {
+  const hours = Math.floor(time);
+  const minutes = Math.floor((time % 1) * 60);
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+}
+
+export function formatGameTime(day: number, time: number): string {
+  return `Day ${day}, ${formatClockTime(time)}`;
+}
+
+export function appendActivityLog(state: SimState, entry: ActivityLogInput): Pick<SimState, 'activityLog'> {
+  const fullEntry: ActivityLogEntry = {
+    ...entry,
+    id: `log_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    timestamp: getGameMinutes(),
+    gameTime: formatGameTime(state.day, state.time),
+  };
+  return { activityLog: [...state.activityLog, fullEntry].slice(-ACTIVITY_LOG_LIMIT) };
+}
+
+export function appendRobotMemory(state: SimState, memory: Memory): Pick<SimState, 'robotMemories'> {
+  return { robotMemories: pruneMemories([...state.robotMemories, memory], 50) };
+}
+
+export function appendCritterMemory(state: SimState, name: string, memory: Memory): Pick<SimState, 'critterMemories'> {
+  const critterMems = state.critterMemories[name] || [];
+  return {
+    critterMemories: {
+      ...state.critterMemories,
+      [name]: pruneMemories([...critterMems, memory], 50),
+    },
+  };
+}
+
+export function appendTimelineEvent(
+  state: SimState,
+  event: Omit<TimelineEvent, 'day' | 'time' | 'gameMinutes'>
+): Pick<SimState, 'timeline'> {
+  const fullEvent: TimelineEvent = {
+    ...event,
+    day: state.day,
+    time: state.time,
+    gameMinutes: getGameMinutes(),
+  };
+  return { timeline: [...state.timeline, fullEvent] };
+}
+
+export function appendRobotThought(state: SimState, thought: RobotThought): Pick<SimState, 'robotThoughts'> {
+  return { robotThoughts: [...state.robotThoughts, thought].slice(-50) };
+}
+
+export function appendCritterThought(state: SimState, name: string, thought: CritterThought): Pick<SimState, 'critterThoughts'> {
+  const existing = state.critterThoughts[name] || [];
+  return {
+    critterThoughts: {
+      ...state.critterThoughts,
+      [name]: [...existing, thought].slice(-30),
+    },
+  };
+}
+
+// At most 8 critters are alive at once (unless the player puts one in by hand)
+export function registerCritter(state: SimState, entry: CritterRegistryEntry, ignoreCap = false): Partial<SimState> {
+  if (!ignoreCap && state.critterRegistry.filter(c => c.isAlive).length >= 8) return {};
+  return { critterRegistry: [...state.critterRegistry, entry] };
+}
+
+export function retireCritter(state: SimState, id: string): Pick<SimState, 'critterRegistry'> {
+  return { critterRegistry: state.critterRegistry.map(c => c.id === id ? { ...c, isAlive: false } : c) };
+}
+
+// Remove a critter and everything kept under its id, as if it never lived (sandbox undo)
+export function unregisterCritter(state: SimState, id: string): Partial<SimState> {
+  const omit = <T>(record: Record<string, T>) => Object.fromEntries(Object.entries(record).filter(([key]) => key !== id));
+  return {
+    critterRegistry: state.critterRegistry.filter(c => c.id !== id),
+    critterStatuses: omit(state.critterStatuses),
+    entityLifecycles: omit(state.entityLifecycles),
+    entityNeeds: omit(state.entityNeeds),
+    entityEmotions: omit(state.entityEmotions),
+    entityActivities: omit(state.entityActivities),
+    entityPositions: omit(state.entityPositions),
+    critterMemories: omit(state.critterMemories),
+    critterThoughts: omit(state.critterThoughts),
+    observedElements: omit(state.observedElements),
+    relationships: Object.fromEntries(Object.entries(state.relationships).filter(([pair]) => !pair.split(':').includes(id))),
+  };
+}
+
+// ========================================
+// In-place Updates (kernel)
+// ========================================
+
+export function logActivity(world: SimState, entry: ActivityLogInput): void {
+  Object.assign(world, appendActivityLog(world, entry));
+}
+
+// Memories go to the robot or to the critter with this id
+export function remember(world: SimState, entityId: string, memory: Memory): void {
+  Object.assign(world, entityId === 'robot' ? appendRobotMemory(world, memory) : appendCritterMemory(world, entityId, memory));
+}
+
+export function recordTimelineEvent(world: SimState, event: Omit<TimelineEvent, 'day' | 'time' | 'gameMinutes'>): void {
+  Object.assign(world, appendTimelineEvent(world, event));
+}
+
+export function feelEmotion(world: SimState, entityId: string, event: EmotionEvent, intensity?: number): void {
+  const emotion = world.entityEmotions[entityId] || DEFAULT_EMOTION;
+  world.entityEmotions = { ...world.entityEmotions, [entityId]: applyEmotionEvent(emotion, event, intensity) };
+}
@@ -1,3 +1,5 @@
+import { random } from './random';
+
 export interface WorldElement {
     id: string;
     type: 'creature' | 'plant' | 'water' | 'landmark' | 'resource';
@@ -74,7 +76,7 @@ export function getNearbyElements(x: number, z: number, range: number, time: num
 export function elementsToObservationContext(elements: WorldElement[]): string {
     if (elements.length === 0) return '';
     // Shuffle and pick up to 2 to avoid repetition
-    const shuffled = [...elements].sort(() => Math.random() - 0.5);
+    const shuffled = [...elements].sort(() => random() - 0.5);
     const picked = shuffled.slice(0, 2);
     return picked.map(e => e.description).join('。');
 }
@@ -84,11 +86,11 @@ export function generateThemeFromElements(elements: WorldElement[]): string {
     if (elements.length === 0) {
         // 何もなければ汎用テーマからランダム
         const fallbacks = ['天気のこと', '最近見たもの', '周りの様子', 'おなかの空き具合', '今日の過ごし方'];
-        return fallbacks[Math.floor(Math.random() * fallbacks.length)];
+        return fallbacks[Math.floor(random() * fallbacks.length)];
     }
 
     // ランダムに1つだけ選ぶ（同じ話題ばかりにならないように）
-    const elem = elements[Math.floor(Math.random() * elements.length)];
+    const elem = elements[Math.floor(random() * elements.length)];
     switch (elem.type) {
         case 'creature':
             return `近くの${elem.name}のこと`;
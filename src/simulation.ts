@@ -0,0 +1,168 @@
+/**
+ * Browser Simulation - Runs the kernel against the store once per frame
+ * Physics reports body positions in; the kernel's motion goes back out to the scene.
+ */
+
+import { useStore } from './store';
+import { generateThought, generateCritterThought } from './lib/llm';
+import { createKernelRuntime, tick, setManualControl, steerRobot as steerKernelRobot, requestRobotInteract, type AnimalState, type KernelLlm, type Motion, type RobotMode, type Vec3, type World } from './lib/kernel';
+import { pickSimState, diffSimState, logActivity, type SimState } from './lib/world';
+import type { Intervention } from './lib/sandbox';
+import type { WorldEvent } from './lib/events';
+import { DAWN_HOUR } from './lib/simClock';
+
+// Thoughts come from the provider configured in the settings panel
+const providerLlm: KernelLlm = {
+    isAvailable: () => !!useStore.getState().apiKey,
+    robotThought: (request) => {
+        const { provider, apiKey } = useStore.getState();
+        return generateThought(provider, apiKey, request.prompt);
+    },
+    critterThought: (request) => {
+        const { provider, apiKey } = useStore.getState();
+        return generateCritterThought(provider, apiKey, request.prompt);
+    },
+};
+
+const runtime = createKernelRuntime({ llm: providerLlm });
+
+const STILL: Motion = { x: 0, y: 0, z: 0 };
+
+// Undo steps kept for sandbox interventions
+const INTERVENTION_HISTORY_LIMIT = 30;
+
+function publish(before: SimState, world: World): void {
+    const changes = diffSimState(before, world);
+    if (Object.keys(changes).length > 0) {
+        useStore.setState(changes);
+    }
+}
+
+/**
+ * Step the world by dt simulated seconds and publish what changed.
+ * Called once per frame after the clock has advanced.
+ */
+export function stepSimulation(dt: number): void {
+    const store = useStore.getState();
+    const before = pickSimState(store);
+    const world: World = { ...before, runtime };
+
+    runtime.victoryDay = store.victoryDay;
+    setManualControl(runtime, store.isManualControl);
+    tick(world, dt);
+    publish(before, world);
+
+    // The run just ended: keep it for the leaderboard
+    if (!before.runEnd && world.runEnd) {
+        store.recordGame(world.runEnd.cause);
+    }
+
+    // Skip to dawn: stop fast-forwarding once the clock passes dawn
+    if (store.isSkippingToDawn && before.time < DAWN_HOUR && world.time >= DAWN_HOUR) {
+        store.setSkippingToDawn(false);
+    }
+}
+
+// Events from outside the kernel (dialogue) go through the same subscribers
+export function emitWorldEvent(event: WorldEvent): void {
+    const before = pickSimState(useStore.getState());
+    const world: World = { ...before, runtime };
+    runtime.events.emit(world, event);
+    publish(before, world);
+}
+
+// Physics bodies report where they actually are every frame
+export function reportBody(id: string, x: number, y: number, z: number): void {
+    const body = runtime.bodies[id];
+    if (body) {
+        body.x = x;
+        body.y = y;
+        body.z = z;
+    } else {
+        runtime.bodies[id] = { x, y, z };
+    }
+}
+
+// Desired velocity (per simulated second) for an entity's body
+export function getMotion(id: string): Motion {
+    return runtime.motion[id] ?? STILL;
+}
+
+// Dialogues hold an entity still and pause its AI
+export function setConversing(id: string, conversing: boolean): void {
+    if (conversing) runtime.conversing.add(id);
+    else runtime.conversing.delete(id);
+}
+
+export function getRobotMode(): RobotMode {
+    return runtime.robot?.mode ?? 'IDLE';
+}
+
+// Where a body is this frame (entityPositions only syncs twice a second)
+export function getBodyPosition(id: string): Vec3 | null {
+    return runtime.bodies[id] ?? null;
+}
+
+export function getAnimalState(id: string): AnimalState | null {
+    return runtime.animals[id]?.state ?? null;
+}
+
+// Who a wild animal is chasing or attacking, if anyone
+export function getAnimalTarget(id: string): string | null {
+    return runtime.animals[id]?.chaseTargetId ?? null;
+}
+
+// Direct control: stick or WASD direction in world axes (x east, z south)
+export function steerRobot(x: number, z: number): void {
+    steerKernelRobot(runtime, x, z);
+}
+
+export function interactWithResource(): void {
+    requestRobotInteract(runtime);
+}
+
+/**
+ * Apply a sandbox intervention to the world, log it and push it onto the
+ * undo stack. The action returns null when there was nothing to do.
+ */
+export function intervene(action: (world: World) => Intervention | null): void {
+    const store = useStore.getState();
+    const before = pickSimState(store);
+    const world: World = { ...before, runtime };
+    const intervention = action(world);
+    if (!intervention) return;
+
+    logActivity(world, {
+        category: 'warning',
+        importance: 'high',
+        entityId: intervention.entityId,
+        title: '介入',
+        content: intervention.label,
+        icon: '🪄',
+    });
+    publish(before, world);
+    // Past a clock jump nothing earlier can be undone either
+    useStore.setState({
+        interventions: intervention.undo ? [...store.interventions, intervention].slice(-INTERVENTION_HISTORY_LIMIT) : [],
+    });
+}
+
+export function undoIntervention(): void {
+    const store = useStore.getState();
+    const intervention = store.interventions[store.interventions.length - 1];
+    if (!intervention?.undo) return;
+    const before = pickSimState(store);
+    const world: World = { ...before, runtime };
+    intervention.undo(world);
+
+    logActivity(world, {
+        category: 'warning',
+        importance: 'normal',
+        entityId: intervention.entityId,
+        title: '介入',
+        content: `取り消した: ${intervention.label}`,
+        icon: '↩️',
+    });
+    publish(before, world);
+    useStore.setState({ interventions: store.interventions.slice(0, -1) });
+}
@@ -2,105 +2,45 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { EmotionState } from './lib/emotions';
 import { DEFAULT_EMOTION } from './lib/emotions';
-import { adjustAffinity, type RelationshipMap } from './lib/relationships';
+import { adjustAffinity } from './lib/relationships';
 import { DEFAULT_ROBOT_SYSTEM_PROMPT, DEFAULT_CRITTER_SYSTEM_PROMPT } from './lib/llm';
 import type { NeedsState } from './lib/needs';
 import { createDefaultNeeds } from './lib/needs';
 import type { ResourceNode } from './lib/resources';
-import { createInitialResources } from './lib/resources';
 import type { LifecycleState } from './lib/lifecycle';
+import { rollLifespan } from './lib/lifecycle';
 import type { RobotStatus, CritterStatus } from './lib/survival';
 import { createDefaultRobotStatus, createDefaultCritterStatus } from './lib/survival';
 import type { Building } from './lib/building';
-import type { RealtimeScore, ScoreChange, TimelineEvent, Achievement } from './lib/scoring';
-import { calculateRealtimeScore } from './lib/scoring';
-
-// === NEW PHASE 1 TYPES ===
-
-export interface ActivityLogEntry {
-  id: string;
-  timestamp: number;
-  gameTime: string; // "Day 5, 14:23"
-  category: 'thought' | 'event' | 'dialogue' | 'combat' | 'discovery' | 'death' | 'build' | 'warning';
-  importance: 'low' | 'normal' | 'high' | 'critical';
-  entityId: string; // 'robot' | critter ID
-  title?: string;
-  content: string;
-  icon?: string;
-  relatedEntities?: string[];
-}
-
-// Prune memories: keep top N by importance, but always retain last 5 most recent
-function pruneMemories(memories: Memory[], maxCount: number): Memory[] {
-    if (memories.length <= maxCount) return memories;
-    // Always keep the 5 most recent
-    const recent = memories.slice(-5);
-    const rest = memories.slice(0, -5);
-    // Sort rest by importance descending, keep enough to fill maxCount
-    const sorted = rest.sort((a, b) => b.importance - a.importance);
-    const keep = sorted.slice(0, maxCount - 5);
-    // Reconstruct in chronological order
-    const kept = new Set(keep);
-    const result: Memory[] = [];
-    for (const m of memories) {
-        if (kept.has(m) || recent.includes(m)) {
-            result.push(m);
-        }
-    }
-    return result.slice(-maxCount);
-}
-
-// Helper to create a structured memory
-export function createMemory(
-    content: string,
-    type: Memory['type'],
-    entities: string[],
-    importance?: number,
-    emotionalWeight?: number
-): Memory {
-    const defaultImportance: Record<Memory['type'], number> = {
-        quarrel: 0.8,
-        event: 0.7,
-        dialogue: 0.3,
-        observation: 0.2,
-    };
-    return {
-        content,
-        timestamp: Date.now(),
-        importance: importance ?? defaultImportance[type],
-        emotionalWeight: emotionalWeight ?? 0.1,
-        entities,
-        type,
-    };
-}
-
-// Select relevant memories based on context
-export function selectRelevantMemories(
-    memories: Memory[],
-    nearbyEntities: string[],
-    count: number = 5
-): Memory[] {
-    const now = Date.now();
-    const maxAge = 24 * 60 * 60 * 1000; // 24 hours
-    const nearbySet = new Set(nearbyEntities);
-
-    const scored = memories.map(m => {
-        const age = now - m.timestamp;
-        const recency = Math.max(0, 1.0 - age / maxAge);
-        const entityRelevance = m.entities.some(e => nearbySet.has(e)) ? 1.0 : 0.2;
-        const score = m.importance * 0.4 + recency * 0.3 + entityRelevance * 0.3;
-        return { memory: m, score };
-    });
-
-    scored.sort((a, b) => b.score - a.score);
-    return scored.slice(0, count).map(s => s.memory);
-}
-
-// Format memories for LLM prompt
-export function memoriesToPromptContext(memories: Memory[]): string {
-    if (memories.length === 0) return '特に記憶なし';
-    return memories.map(m => `- ${m.content}`).join('\n');
-}
+import type { RecipeId } from './lib/crafting';
+import type { ActivityState } from './lib/activities';
+import { DEFAULT_WORLD_SEED, seedRandom } from './lib/random';
+import type { TimeScale } from './lib/simClock';
+import { setGameMinutes, GAME_MINUTES_PER_DAY, GAME_MINUTES_PER_SECOND } from './lib/simClock';
+import type { WeatherEvent, WeatherEventPhase } from './lib/environment';
+import type { ScoreChange, TimelineEvent, GameRecord, EndCause } from './lib/scoring';
+import { calculateWorldScore, addScoreChange, createScoreChange, createGameRecord, ACHIEVEMENTS, DEFAULT_VICTORY_DAY } from './lib/scoring';
+import type { Memory } from './lib/memory';
+import { archiveActivityLog, clearActivityArchive } from './lib/logArchive';
+import type { CameraMode } from './lib/cameraDirector';
+import type { Intervention, SandboxTool } from './lib/sandbox';
+import type { SimState, RobotThought, CritterThought, CritterRegistryEntry, ActivityLogInput } from './lib/world';
+import {
+    createInitialSimState,
+    appendActivityLog,
+    appendRobotMemory,
+    appendCritterMemory,
+    appendTimelineEvent,
+    appendRobotThought,
+    appendCritterThought,
+    registerCritter,
+    retireCritter,
+} from './lib/world';
+
+// Simulation types and helpers live in lib/; re-exported for existing importers
+export { createMemory, selectRelevantMemories, memoriesToPromptContext, type Memory } from './lib/memory';
+export type { Activity, ActivityState } from './lib/activities';
+export type { ActivityLogEntry, CritterRegistryEntry } from './lib/world';
 
 export interface Message {
     role: 'user' | 'assistant' | 'system';
@@ -117,38 +57,7 @@ export interface Dialogue {
     timestamp: number;
 }
 
-// Structured memory with importance weighting
-export interface Memory {
-    content: string;
-    timestamp: number;
-    importance: number;       // 0.0 to 1.0
-    emotionalWeight: number;  // How emotionally charged
-    entities: string[];       // Who was involved
-    type: 'dialogue' | 'observation' | 'event' | 'quarrel';
-}
-
-// Activity state for each entity
-export type Activity = 'idle' | 'explore' | 'forage' | 'rest' | 'socialize' | 'flee' | 'patrol' | 'seek_resource';
-
-export interface ActivityState {
-    current: Activity;
-    startedAt: number;
-    duration: number;
-    targetEntityId?: string;
-    targetResourceId?: string;
-}
-
-// Critter Registry for dynamic spawning
-export interface CritterRegistryEntry {
-    id: string;
-    name: string;
-    color: string;
-    spawnPosition: [number, number, number];
-    isAlive: boolean;
-    generation: number;
-}
-
-interface AppState {
+interface AppState extends SimState {
     // Settings
     apiKey: string;
     provider: 'openai' | 'anthropic';
@@ -187,34 +96,23 @@ interface AppState {
     clearMessages: () => void;
 
     // Character Memories (structured)
-    robotMemories: Memory[];
     addRobotMemory: (memory: Memory) => void;
-    critterMemories: Record<string, Memory[]>;
     addCritterMemory: (name: string, memory: Memory) => void;
 
     // Emotion System
-    entityEmotions: Record<string, EmotionState>;
     updateEntityEmotion: (entityId: string, emotion: EmotionState) => void;
     getEntityEmotion: (entityId: string) => EmotionState;
 
     // Relationship System
-    relationships: RelationshipMap;
     adjustRelationship: (a: string, b: string, delta: number) => void;
 
     // Entity Positions (runtime only, not persisted)
-    entityPositions: Record<string, { x: number; z: number }>;
     updateEntityPosition: (id: string, x: number, z: number) => void;
 
     // Activity System (runtime only, not persisted)
-    entityActivities: Record<string, ActivityState>;
     setEntityActivity: (id: string, activity: ActivityState) => void;
 
     // Environment System
-    time: number; // 0 to 24
-    day: number; // starts at 1
-    season: 'spring' | 'summer' | 'autumn' | 'winter';
-    weather: 'sunny' | 'rainy' | 'cloudy' | 'snowy';
-    temperature: number; // Celsius
     setTime: (time: number) => void;
     setDay: (day: number) => void;
     setSeason: (season: 'spring' | 'summer' | 'autumn' | 'winter') => void;
@@ -222,12 +120,10 @@ interface AppState {
     setTemperature: (temperature: number) => void;
 
     // Robot Thoughts (AI thinking outside dialogue)
-    robotThoughts: { thought: string; action: string; timestamp: number; gameTime: string }[];
-    addRobotThought: (thought: { thought: string; action: string; timestamp: number; gameTime: string }) => void;
+    addRobotThought: (thought: RobotThought) => void;
 
     // Critter Thoughts (AI thinking outside dialogue)
-    critterThoughts: Record<string, { thought: string; action: string; timestamp: number; gameTime: string; critterName: string; color: string }[]>;
-    addCritterThought: (name: string, thought: { thought: string; action: string; timestamp: number; gameTime: string; critterName: string; color: string }) => void;
+    addCritterThought: (name: string, thought: CritterThought) => void;
 
     // Dialogue System
     activeDialogues: Record<string, Dialogue>;
@@ -244,83 +140,126 @@ interface AppState {
     setAmbientSoundsEnabled: (enabled: boolean) => void;
     setAmbientSoundsVolume: (volume: number) => void;
 
+    // Display Settings
+    showBuildingRadius: boolean;
+    setShowBuildingRadius: (show: boolean) => void;
+
     // Needs System
-    entityNeeds: Record<string, NeedsState>;
     updateEntityNeeds: (entityId: string, needs: NeedsState) => void;
     getEntityNeeds: (entityId: string) => NeedsState;
 
     // Survival System (NEW - Phase 1)
-    robotStatus: RobotStatus;
-    critterStatuses: Record<string, CritterStatus>;
     updateRobotStatus: (status: RobotStatus) => void;
     updateCritterStatus: (critterId: string, status: CritterStatus) => void;
     getCritterStatus: (critterId: string) => CritterStatus;
 
     // Resource Nodes (runtime)
-    resourceNodes: ResourceNode[];
     updateResourceNode: (id: string, node: Partial<ResourceNode>) => void;
 
     // Lifecycle System
-    entityLifecycles: Record<string, LifecycleState>;
     updateEntityLifecycle: (entityId: string, lifecycle: LifecycleState) => void;
 
     // Critter Registry (dynamic spawning)
-    critterRegistry: CritterRegistryEntry[];
-    addCritter: (entry: CritterRegistryEntry) => void;
+    addCritter: (entry: CritterRegistryEntry, ignoreCap?: boolean) => void;
     removeCritter: (id: string) => void;
 
     // Camera target (runtime, for fly-to-robot)
     cameraTarget: { x: number; y: number; z: number } | null;
     setCameraTarget: (target: { x: number; y: number; z: number } | null) => void;
 
+    // Entity inspector (runtime): the selected entity and the one the camera follows
+    selectedEntityId: string | null;
+    cameraFollowId: string | null;
+    selectEntity: (id: string | null) => void;
+    setCameraFollow: (id: string | null) => void;
+
+    // Camera mode (runtime); cameraFollowId is set exactly while following
+    cameraMode: CameraMode;
+    directorShotLabel: string | null; // what the auto-director is showing
+    setCameraMode: (mode: CameraMode) => void;
+    setDirectorShotLabel: (label: string | null) => void;
+
+    // Direct control (runtime): the player pilots the robot; talk requests go to the robot's dialogue
+    isManualControl: boolean;
+    robotTalkRequest: string | null; // critter to talk to, consumed by the robot
+    setManualControl: (enabled: boolean) => void;
+    requestRobotTalk: (critterId: string | null) => void;
+
+    // Sandbox (runtime): the tool placed by clicking the ground, and interventions that can be undone (newest last)
+    sandboxTool: SandboxTool | null;
+    interventions: Intervention[];
+    setSandboxTool: (tool: SandboxTool | null) => void;
+
+    // World seed for the simulation PRNG (persisted so a run can be reproduced)
+    worldSeed: number;
+    setWorldSeed: (seed: number) => void;
+
     // User directive for robot (runtime, consumed by next thought cycle)
-    userDirective: string | null;
     setUserDirective: (directive: string | null) => void;
 
     // === NEW PHASE 1 SYSTEMS ===
 
+    // Simulation speed (runtime): scale, pause and "skip to dawn" fast-forward
+    timeScale: TimeScale;
+    isPaused: boolean;
+    isSkippingToDawn: boolean;
+    setTimeScale: (scale: TimeScale) => void;
+    setPaused: (paused: boolean) => void;
+    setSkippingToDawn: (skipping: boolean) => void;
+
+    // Catastrophic weather event (runtime, scheduled by the simulation kernel)
+    setWeatherEvent: (event: WeatherEvent | null, phase: WeatherEventPhase | null, warning?: string | null) => void;
+
     // Building System
-    buildings: Building[];
     addBuilding: (building: Building) => void;
     updateBuilding: (id: string, updates: Partial<Building>) => void;
     removeBuilding: (id: string) => void;
 
     // Activity Log (unified thought + event log)
-    activityLog: ActivityLogEntry[];
-    addActivityLog: (entry: Omit<ActivityLogEntry, 'id' | 'timestamp' | 'gameTime'>) => void;
+    addActivityLog: (entry: ActivityLogInput) => void;
     clearActivityLog: () => void;
 
     // Realtime Score System
-    realtimeScore: RealtimeScore;
     updateRealtimeScore: () => void;
     addScoreChange: (type: 'gain' | 'loss', amount: number, reason: string, category: ScoreChange['category']) => void;
 
     // Game Timeline
-    timeline: TimelineEvent[];
-    addTimelineEvent: (event: Omit<TimelineEvent, 'day' | 'time'>) => void;
+    addTimelineEvent: (event: Omit<TimelineEvent, 'day' | 'time' | 'gameMinutes'>) => void;
 
     // Achievements
-    achievements: Achievement[];
     unlockAchievement: (achievementId: string) => void;
 
+    // Run History (persisted): finished runs for the local leaderboard
+    runStartedAt: number; // wall clock
+    victoryDay: number; // survive this many days to win (0: endless)
+    gameHistory: GameRecord[];
+    setVictoryDay: (day: number) => void;
+    recordGame: (cause: EndCause) => void;
+    startNewWorld: (seed: number) => void; // records an unfinished run as player_quit
+    resetWorld: (seed: number) => void; // a fresh world from this seed; the run is not recorded
+
     // Combat Stats (for scoring)
-    combatStats: {
-        wins: number;
-        losses: number;
-        catastrophesSurvived: number;
-    };
     incrementCombatWins: () => void;
     incrementCatastrophesSurvived: () => void;
 
     // Inventory (materials for building)
-    inventory: Record<string, number>;
     addInventoryItem: (item: string, amount: number) => void;
     removeInventoryItem: (item: string, amount: number) => boolean;
+    setInventory: (inventory: Record<string, number>) => void;
+
+    // Crafting (runtime): UI requests and the robot's current job
+    requestCraft: (recipeId: RecipeId | null) => void;
+    setCraftingJob: (job: { recipeId: RecipeId; progress: number } | null) => void;
 }
 
+// Oldest runs drop off the local leaderboard past this
+const GAME_HISTORY_LIMIT = 50;
+
 export const useStore = create<AppState>()(
     persist(
         (set, get) => ({
+            ...createInitialSimState(),
+
             apiKey: "",
             provider: "openai",
             setApiKey: (key) => set({ apiKey: key }),
@@ -354,82 +293,34 @@ export const useStore = create<AppState>()(
 
             messages: [],
             addMessage: (msg) => set((state) => ({ messages: [...state.messages, msg] })),
-            clearMessages: () => set({
-                messages: [],
-                robotMemories: [],
-                critterMemories: {},
-                conversationHistories: {},
-                entityEmotions: {},
-                relationships: {},
-                entityPositions: {},
-                entityActivities: {},
-                time: 12,
-                day: 1,
-                season: 'spring' as const,
-                weather: 'sunny',
-                temperature: 15,
-                robotThoughts: [],
-                critterThoughts: {},
-                entityNeeds: {},
-                entityLifecycles: {},
-                resourceNodes: createInitialResources(),
-                critterRegistry: [
-                    { id: 'Critter-A', name: 'Critter-A', color: '#ff6b6b', spawnPosition: [3, 0.5, 3] as [number, number, number], isAlive: true, generation: 0 },
-                    { id: 'Critter-B', name: 'Critter-B', color: '#4ecdc4', spawnPosition: [-4, 0.5, 2] as [number, number, number], isAlive: true, generation: 0 },
-                    { id: 'Critter-C', name: 'Critter-C', color: '#ffe66d', spawnPosition: [0, 0.5, -5] as [number, number, number], isAlive: true, generation: 0 },
-                    { id: 'Critter-D', name: 'Critter-D', color: '#a78bfa', spawnPosition: [6, 0.5, -3] as [number, number, number], isAlive: true, generation: 0 },
-                    { id: 'Critter-E', name: 'Critter-E', color: '#f97316', spawnPosition: [-6, 0.5, -4] as [number, number, number], isAlive: true, generation: 0 },
-                ],
-            }),
+            // Data Reset replays the current seed from scratch, so the whole world goes, not just the chat
+            clearMessages: () => get().resetWorld(get().worldSeed),
 
-            robotMemories: [],
-            addRobotMemory: (memory) => set((state) => {
-                const updated = pruneMemories([...state.robotMemories, memory], 50);
-                return { robotMemories: updated };
-            }),
+            addRobotMemory: (memory) => set((state) => appendRobotMemory(state, memory)),
 
-            critterMemories: {},
-            addCritterMemory: (name, memory) => set((state) => {
-                const critterMems = state.critterMemories[name] || [];
-                const updated = pruneMemories([...critterMems, memory], 50);
-                return {
-                    critterMemories: {
-                        ...state.critterMemories,
-                        [name]: updated
-                    }
-                };
-            }),
+            addCritterMemory: (name, memory) => set((state) => appendCritterMemory(state, name, memory)),
 
             // Emotion System
-            entityEmotions: {},
             updateEntityEmotion: (entityId, emotion) => set((state) => ({
                 entityEmotions: { ...state.entityEmotions, [entityId]: emotion }
             })),
             getEntityEmotion: (entityId) => get().entityEmotions[entityId] || DEFAULT_EMOTION,
 
             // Relationship System
-            relationships: {},
             adjustRelationship: (a, b, delta) => set((state) => ({
                 relationships: adjustAffinity(state.relationships, a, b, delta)
             })),
 
             // Entity Positions (runtime)
-            entityPositions: {},
             updateEntityPosition: (id, x, z) => set((state) => ({
                 entityPositions: { ...state.entityPositions, [id]: { x, z } }
             })),
 
             // Activity System (runtime)
-            entityActivities: {},
             setEntityActivity: (id, activity) => set((state) => ({
                 entityActivities: { ...state.entityActivities, [id]: activity }
             })),
 
-            time: 12,
-            day: 1,
-            season: 'spring',
-            weather: 'sunny',
-            temperature: 15,
             setTime: (time) => set({ time }),
             setDay: (day) => set({ day }),
             setSeason: (season) => set({ season }),
@@ -437,23 +328,10 @@ export const useStore = create<AppState>()(
             setTemperature: (temperature) => set({ temperature }),
 
             // Robot Thoughts
-            robotThoughts: [],
-            addRobotThought: (thought) => set((state) => ({
-                robotThoughts: [...state.robotThoughts, thought].slice(-50)
-            })),
+            addRobotThought: (thought) => set((state) => appendRobotThought(state, thought)),
 
             // Critter Thoughts
-            critterThoughts: {},
-            addCritterThought: (name, thought) => set((state) => {
-                const existing = state.critterThoughts[name] || [];
-                const updated = [...existing, thought].slice(-30);
-                return {
-                    critterThoughts: {
-                        ...state.critterThoughts,
-                        [name]: updated
-                    }
-                };
-            }),
+            addCritterThought: (name, thought) => set((state) => appendCritterThought(state, name, thought)),
 
             activeDialogues: {},
             conversationHistories: {}, // 初期値
@@ -519,16 +397,17 @@ export const useStore = create<AppState>()(
             setAmbientSoundsEnabled: (enabled) => set({ ambientSoundsEnabled: enabled }),
             setAmbientSoundsVolume: (volume) => set({ ambientSoundsVolume: volume }),
 
+            // Display Settings
+            showBuildingRadius: false,
+            setShowBuildingRadius: (show) => set({ showBuildingRadius: show }),
+
             // Needs System
-            entityNeeds: {},
             updateEntityNeeds: (entityId, needs) => set((state) => ({
                 entityNeeds: { ...state.entityNeeds, [entityId]: needs }
             })),
             getEntityNeeds: (entityId) => get().entityNeeds[entityId] || createDefaultNeeds('critter'),
 
             // Survival System (NEW - Phase 1)
-            robotStatus: createDefaultRobotStatus(),
-            critterStatuses: {},
             updateRobotStatus: (status) => set({ robotStatus: status }),
             updateCritterStatus: (critterId, status) => set((state) => ({
                 critterStatuses: { ...state.critterStatuses, [critterId]: status }
@@ -536,45 +415,82 @@ export const useStore = create<AppState>()(
             getCritterStatus: (critterId) => get().critterStatuses[critterId] || createDefaultCritterStatus(),
 
             // Resource Nodes (runtime)
-            resourceNodes: createInitialResources(),
             updateResourceNode: (id, partial) => set((state) => ({
                 resourceNodes: state.resourceNodes.map(n => n.id === id ? { ...n, ...partial } : n)
             })),
 
             // Lifecycle System
-            entityLifecycles: {},
             updateEntityLifecycle: (entityId, lifecycle) => set((state) => ({
                 entityLifecycles: { ...state.entityLifecycles, [entityId]: lifecycle }
             })),
 
             // Critter Registry
-            critterRegistry: [
-                { id: 'Critter-A', name: 'Critter-A', color: '#ff6b6b', spawnPosition: [3, 0.5, 3], isAlive: true, generation: 0 },
-                { id: 'Critter-B', name: 'Critter-B', color: '#4ecdc4', spawnPosition: [-4, 0.5, 2], isAlive: true, generation: 0 },
-                { id: 'Critter-C', name: 'Critter-C', color: '#ffe66d', spawnPosition: [0, 0.5, -5], isAlive: true, generation: 0 },
-                { id: 'Critter-D', name: 'Critter-D', color: '#a78bfa', spawnPosition: [6, 0.5, -3], isAlive: true, generation: 0 },
-                { id: 'Critter-E', name: 'Critter-E', color: '#f97316', spawnPosition: [-6, 0.5, -4], isAlive: true, generation: 0 },
-            ],
-            addCritter: (entry) => set((state) => {
-                if (state.critterRegistry.filter(c => c.isAlive).length >= 8) return state;
-                return { critterRegistry: [...state.critterRegistry, entry] };
-            }),
-            removeCritter: (id) => set((state) => ({
-                critterRegistry: state.critterRegistry.map(c => c.id === id ? { ...c, isAlive: false } : c)
-            })),
+            addCritter: (entry, ignoreCap) => set((state) => registerCritter(state, entry, ignoreCap)),
+            removeCritter: (id) => set((state) => retireCritter(state, id)),
 
             // Camera target (runtime)
             cameraTarget: null,
-            setCameraTarget: (target) => set({ cameraTarget: target }),
+            // Flying somewhere hands the camera back to the user
+            setCameraTarget: (target) => set(target
+                ? { cameraTarget: target, cameraFollowId: null, cameraMode: 'orbit', directorShotLabel: null }
+                : { cameraTarget: null }),
+
+            // Entity inspector (runtime)
+            selectedEntityId: null,
+            cameraFollowId: null,
+            selectEntity: (id) => set({ selectedEntityId: id }),
+            setCameraFollow: (id) => set({ cameraFollowId: id, cameraMode: id ? 'follow' : 'orbit', directorShotLabel: null }),
+
+            // Camera mode (runtime); following picks up the inspected entity, or the robot
+            cameraMode: 'orbit',
+            directorShotLabel: null,
+            setCameraMode: (mode) => set((state) => ({
+                cameraMode: mode,
+                cameraFollowId: mode === 'follow' ? state.cameraFollowId ?? state.selectedEntityId ?? 'robot' : null,
+                cameraTarget: null,
+                directorShotLabel: null,
+            })),
+            setDirectorShotLabel: (label) => set({ directorShotLabel: label }),
+
+            // Direct control (runtime)
+            isManualControl: false,
+            robotTalkRequest: null,
+            setManualControl: (enabled) => set({ isManualControl: enabled, robotTalkRequest: null }),
+            requestRobotTalk: (critterId) => set({ robotTalkRequest: critterId }),
+
+            // Sandbox (runtime)
+            sandboxTool: null,
+            interventions: [],
+            setSandboxTool: (tool) => set({ sandboxTool: tool }),
+
+            // World seed (reseeds the shared simulation stream)
+            worldSeed: DEFAULT_WORLD_SEED,
+            setWorldSeed: (seed) => {
+                seedRandom(seed);
+                set({ worldSeed: seed });
+            },
 
             // User directive (runtime)
-            userDirective: null,
             setUserDirective: (directive) => set({ userDirective: directive }),
 
             // === NEW PHASE 1 SYSTEMS ===
 
+            // Simulation speed (runtime)
+            timeScale: 1,
+            isPaused: false,
+            isSkippingToDawn: false,
+            setTimeScale: (scale) => set({ timeScale: scale, isPaused: false }),
+            setPaused: (paused) => set({ isPaused: paused }),
+            setSkippingToDawn: (skipping) => set({ isSkippingToDawn: skipping, isPaused: false }),
+
+            // Catastrophic weather event (runtime)
+            setWeatherEvent: (event, phase, warning = null) => set({
+                weatherEvent: event,
+                weatherEventPhase: phase,
+                weatherWarning: warning,
+            }),
+
             // Building System
-            buildings: [],
             addBuilding: (building) => set((state) => ({
                 buildings: [...state.buildings, building]
             })),
@@ -586,96 +502,80 @@ export const useStore = create<AppState>()(
             })),
 
             // Activity Log
-            activityLog: [],
-            addActivityLog: (entry) => {
-                const state = get();
-                const hours = Math.floor(state.time);
-                const minutes = Math.floor((state.time % 1) * 60);
-                const gameTime = `Day ${state.day}, ${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
-
-                const fullEntry: ActivityLogEntry = {
-                    ...entry,
-                    id: `log_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-                    timestamp: Date.now(),
-                    gameTime,
-                };
-
-                set((state) => ({
-                    activityLog: [...state.activityLog, fullEntry].slice(-100) // Keep last 100
-                }));
+            addActivityLog: (entry) => set((state) => appendActivityLog(state, entry)),
+            clearActivityLog: () => {
+                clearActivityArchive().catch(error => console.warn('Failed to clear the activity log archive:', error));
+                set({ activityLog: [] });
             },
-            clearActivityLog: () => set({ activityLog: [] }),
 
             // Realtime Score
-            realtimeScore: {
-                current: { survival: 0, development: 0, combat: 0, knowledge: 0, total: 0 },
-                rank: { current: 'D', nextRank: 'C', pointsToNext: 1000, progress: 0 },
-                stats: {
-                    currentDay: 0,
-                    population: 0,
-                    knowledgeCount: 0,
-                    structureCount: 0,
-                    deathCount: 0,
-                    combatWins: 0,
-                    catastrophesSurvived: 0,
-                    robotFunctional: true,
-                },
-                recentChanges: [],
-            },
-            updateRealtimeScore: () => {
-                const state = get();
-                const score = calculateRealtimeScore(
-                    state.day,
-                    state.critterRegistry,
-                    state.robotMemories,
-                    state.buildings,
-                    state.robotStatus.durability > 0 && !state.robotStatus.malfunctioning,
-                    state.combatStats
-                );
-                set({ realtimeScore: score });
-            },
-            addScoreChange: (type, amount, reason, category) => {
-                set((state) => ({
-                    realtimeScore: {
-                        ...state.realtimeScore,
-                        recentChanges: [
-                            ...state.realtimeScore.recentChanges,
-                            { type, amount, reason, category, timestamp: Date.now() }
-                        ].slice(-10)
-                    }
-                }));
-            },
+            updateRealtimeScore: () => set((state) => ({ realtimeScore: calculateWorldScore(state) })),
+            addScoreChange: (type, amount, reason, category) => set((state) => ({
+                realtimeScore: addScoreChange(state.realtimeScore, createScoreChange(type, amount, reason, category))
+            })),
 
             // Timeline
-            timeline: [],
-            addTimelineEvent: (event) => {
-                const state = get();
-                const fullEvent: TimelineEvent = {
-                    ...event,
-                    day: state.day,
-                    time: state.time,
-                };
-                set((state) => ({
-                    timeline: [...state.timeline, fullEvent]
-                }));
-            },
+            addTimelineEvent: (event) => set((state) => appendTimelineEvent(state, event)),
 
             // Achievements
-            achievements: [],
-            unlockAchievement: (achievementId) => {
-                // Implementation moved to scoring.ts checkAchievements
-                set((state) => {
-                    if (state.achievements.some(a => a.id === achievementId)) return state;
-                    return state; // Placeholder
+            // Normally unlocked by the simulation (checkAchievements); this is the manual path
+            unlockAchievement: (achievementId) => set((state) => {
+                const achievement = ACHIEVEMENTS[achievementId];
+                if (!achievement || state.achievements.some(a => a.id === achievementId)) return state;
+                return {
+                    achievements: [...state.achievements, { ...achievement, unlockedAt: Date.now() }],
+                    ...appendActivityLog(state, {
+                        category: 'event',
+                        importance: 'high',
+                        entityId: 'environment',
+                        content: `実績「${achievement.name}」を解除した (${achievement.description})`,
+                        icon: '🏆',
+                    }),
+                };
+            }),
+
+            // Run History
+            runStartedAt: Date.now(),
+            victoryDay: DEFAULT_VICTORY_DAY,
+            gameHistory: [],
+            setVictoryDay: (day) => set({ victoryDay: Math.max(0, Math.floor(day)) }),
+            recordGame: (cause) => set((state) => ({
+                gameHistory: [
+                    ...state.gameHistory,
+                    createGameRecord(state.realtimeScore, state.timeline, state.achievements, cause, state.runStartedAt),
+                ].slice(-GAME_HISTORY_LIMIT),
+            })),
+            startNewWorld: (seed) => {
+                const state = get();
+                if (!state.runEnd && state.gameMinutes > 0) state.recordGame('player_quit');
+                state.resetWorld(seed);
+            },
+            resetWorld: (seed) => {
+                seedRandom(seed);
+                setGameMinutes(0);
+                clearActivityArchive().catch(error => console.warn('Failed to clear the activity log archive:', error));
+                set({
+                    ...createInitialSimState(),
+                    messages: [],
+                    conversationHistories: {},
+                    activeDialogues: {},
+                    isDialogueBusy: false,
+                    worldSeed: seed,
+                    runStartedAt: Date.now(),
+                    isPaused: false,
+                    isSkippingToDawn: false,
+                    selectedEntityId: null,
+                    cameraFollowId: null,
+                    cameraMode: 'orbit',
+                    directorShotLabel: null,
+                    isManualControl: false,
+                    robotTalkRequest: null,
+                    sandboxTool: null,
+                    interventions: [],
                 });
             },
 
             // Combat Stats
-            combatStats: {
-                wins: 0,
-                losses: 0,
-                catastrophesSurvived: 0,
-            },
             incrementCombatWins: () => set((state) => ({
                 combatStats: { ...state.combatStats, wins: state.combatStats.wins + 1 }
             })),
@@ -684,12 +584,6 @@ export const useStore = create<AppState>()(
             })),
 
             // Inventory
-            inventory: {
-                fiber: 0,
-                scrap_metal: 0,
-                crystal: 0,
-                high_quality_parts: 0,
-            },
             addInventoryItem: (item, amount) => set((state) => ({
                 inventory: { ...state.inventory, [item]: (state.inventory[item] || 0) + amount }
             })),
@@ -701,10 +595,15 @@ export const useStore = create<AppState>()(
                 }));
                 return true;
             },
+            setInventory: (inventory) => set({ inventory }),
+
+            // Crafting (runtime)
+            requestCraft: (recipeId) => set({ craftRequest: recipeId }),
+            setCraftingJob: (job) => set({ craftingJob: job }),
         }),
         {
             name: 'agent-storage',
-            version: 9,
+            version: 19,
             migrate: (persistedState: any, version: number) => {
                 if (version < 2) {
                     // Migrate string[] memories to Memory[] format
@@ -791,6 +690,80 @@ export const useStore = create<AppState>()(
                     persistedState.combatStats = persistedState.combatStats ?? { wins: 0, losses: 0, catastrophesSurvived: 0 };
                     persistedState.inventory = persistedState.inventory ?? { fiber: 0, scrap_metal: 0, crystal: 0, high_quality_parts: 0 };
                 }
+                if (version < 10) {
+                    // Robot malfunction timer and permanent death
+                    persistedState.robotStatus = { ...createDefaultRobotStatus(), ...persistedState.robotStatus };
+                }
+                if (version < 11) {
+                    // Critter vitals unified into CritterStatus; lifecycle no longer tracks health
+                    persistedState.critterStatuses = {};
+                    persistedState.entityLifecycles = {};
+                }
+                if (version < 12) {
+                    persistedState.showBuildingRadius = persistedState.showBuildingRadius ?? false;
+                }
+                if (version < 14) {
+                    persistedState.worldSeed = persistedState.worldSeed ?? DEFAULT_WORLD_SEED;
+                }
+                if (version < 15) {
+                    // Single game-minute clock: rebuild it from day/time (worlds start at Day 1, 12:00)
+                    const day = persistedState.day ?? 1;
+                    const time = persistedState.time ?? 12;
+                    const minutes = Math.max(0, (day - 1) * GAME_MINUTES_PER_DAY + (time - 12) * 60);
+                    persistedState.gameMinutes = minutes;
+                    // Wall-clock timestamps can't be mapped back; treat them as "now"
+                    const restamp = <T extends { timestamp: number }>(items: T[] | undefined) =>
+                        (items ?? []).map(item => ({ ...item, timestamp: minutes }));
+                    persistedState.robotMemories = restamp(persistedState.robotMemories);
+                    persistedState.critterMemories = Object.fromEntries(
+                        Object.entries(persistedState.critterMemories ?? {}).map(([k, v]) => [k, restamp(v as Memory[])])
+                    );
+                    persistedState.robotThoughts = restamp(persistedState.robotThoughts);
+                    persistedState.critterThoughts = Object.fromEntries(
+                        Object.entries(persistedState.critterThoughts ?? {}).map(([k, v]) => [k, restamp(v as { timestamp: number }[])])
+                    );
+                    persistedState.activityLog = restamp(persistedState.activityLog);
+                    persistedState.timeline = (persistedState.timeline ?? []).map((e: TimelineEvent) => ({ ...e, gameMinutes: minutes }));
+                    // Lifecycle ages and cooldowns were counted in sim seconds
+                    persistedState.entityLifecycles = Object.fromEntries(
+                        (Object.entries(persistedState.entityLifecycles ?? {}) as [string, LifecycleState][]).map(([k, lc]) => [k, {
+                            ...lc,
+                            age: lc.age * GAME_MINUTES_PER_SECOND,
+                            maxAge: lc.maxAge * GAME_MINUTES_PER_SECOND,
+                            reproductionCooldown: lc.reproductionCooldown * GAME_MINUTES_PER_SECOND,
+                        }])
+                    );
+                }
+                if (version < 16) {
+                    // Lifespans moved to game days; sickness timers from seconds to game minutes
+                    persistedState.entityLifecycles = Object.fromEntries(
+                        (Object.entries(persistedState.entityLifecycles ?? {}) as [string, LifecycleState][]).map(([k, lc]) => [k, {
+                            ...lc,
+                            maxAge: rollLifespan(),
+                        }])
+                    );
+                    persistedState.critterStatuses = Object.fromEntries(
+                        (Object.entries(persistedState.critterStatuses ?? {}) as [string, CritterStatus][]).map(([k, cs]) => [k, {
+                            ...cs,
+                            sicknessTimer: cs.sicknessTimer * GAME_MINUTES_PER_SECOND,
+                        }])
+                    );
+                }
+                if (version < 17) {
+                    // Runs end and are kept in a local history
+                    persistedState.runEnd = persistedState.runEnd ?? null;
+                    persistedState.runStartedAt = persistedState.runStartedAt ?? Date.now();
+                    persistedState.victoryDay = persistedState.victoryDay ?? DEFAULT_VICTORY_DAY;
+                    persistedState.gameHistory = persistedState.gameHistory ?? [];
+                }
+                if (version < 18) {
+                    // Fog of war for the minimap
+                    persistedState.exploredCells = persistedState.exploredCells ?? [];
+                }
+                if (version < 19) {
+                    // Discoveries survive a reload instead of being made again
+                    persistedState.observedElements = persistedState.observedElements ?? {};
+                }
                 return persistedState;
             },
             partialize: (state) => ({
@@ -809,12 +782,16 @@ export const useStore = create<AppState>()(
                 critterMemories: state.critterMemories,
                 entityEmotions: state.entityEmotions,
                 relationships: state.relationships,
+                exploredCells: state.exploredCells,
+                observedElements: state.observedElements,
+                gameMinutes: state.gameMinutes,
                 time: state.time,
                 day: state.day,
                 season: state.season,
                 weather: state.weather,
                 temperature: state.temperature,
                 ambientSoundsEnabled: state.ambientSoundsEnabled,
+                showBuildingRadius: state.showBuildingRadius,
                 ambientSoundsVolume: state.ambientSoundsVolume,
                 entityNeeds: state.entityNeeds,
                 entityLifecycles: state.entityLifecycles,
@@ -830,7 +807,24 @@ export const useStore = create<AppState>()(
                 achievements: state.achievements,
                 combatStats: state.combatStats,
                 inventory: state.inventory,
+                worldSeed: state.worldSeed,
+                runEnd: state.runEnd,
+                runStartedAt: state.runStartedAt,
+                victoryDay: state.victoryDay,
+                gameHistory: state.gameHistory,
             }),
         }
     )
 );
+
+// Seed the simulation stream and restore the world clock from the (rehydrated) save
+seedRandom(useStore.getState().worldSeed);
+setGameMinutes(useStore.getState().gameMinutes);
+
+// Archive every new log entry; the store only keeps the latest ACTIVITY_LOG_LIMIT
+useStore.subscribe((state, prev) => {
+    if (state.activityLog === prev.activityLog) return;
+    const known = new Set(prev.activityLog.map(entry => entry.id));
+    const fresh = state.activityLog.filter(entry => !known.has(entry.id));
+    archiveActivityLog(fresh).catch(error => console.warn('Failed to archive activity log entries:', error));
+});